@@ -12,6 +12,7 @@ import SignUp from "./pages/SignUp";
 import AuthCallback from "./pages/AuthCallback";
 import AppLayout from "./pages/App";
 import Blog from "./pages/Blog";
+import SharedReport from "./pages/SharedReport";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -35,6 +36,7 @@ const AppRouter = () => (
               </ProtectedRoute>
             } />
             <Route path="/blog" element={<Blog />} />
+            <Route path="/shared/:token" element={<SharedReport />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
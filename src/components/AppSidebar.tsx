@@ -11,7 +11,7 @@ import {
   SidebarTrigger,
   useSidebar,
 } from "@/components/ui/sidebar";
-import { Upload, History, User, LogOut } from "lucide-react";
+import { Upload, History, Users, User, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import clausewiseLogo from "@/assets/clausewise-logo.png";
@@ -19,6 +19,7 @@ import clausewiseLogo from "@/assets/clausewise-logo.png";
 const items = [
   { title: "Upload", url: "/app", icon: Upload },
   { title: "History", url: "/app/history", icon: History },
+  { title: "Team", url: "/app/team", icon: Users },
   { title: "Account", url: "/app/account", icon: User },
 ];
 
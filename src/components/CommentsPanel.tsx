@@ -0,0 +1,266 @@
+import { Fragment, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, MessageSquare, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AnalysisComment, CommentThread, Teammate } from "@/hooks/use-analysis-comments";
+
+// Same as the analysis-comments function: "@jane@example.com", without trailing punctuation
+const MENTION_PATTERN = /(@[^\s@]+@[^\s@]+\.[^\s@]*[^\s@.,;:!?)])/g;
+
+// "@jan" being typed right before the caret
+const MENTION_QUERY = /(^|\s)@([^\s@]*)$/;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  teammates: Teammate[];
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Textarea that suggests teammates while an @mention is typed
+const MentionTextarea = ({ value, onChange, teammates, placeholder, disabled }: MentionTextareaProps) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY);
+    setQuery(match ? match[2].toLowerCase() : null);
+  };
+
+  const suggestions = query === null ? [] : teammates
+    .filter(t => t.email && t.email.toLowerCase().includes(query))
+    .slice(0, 5);
+
+  const insertMention = (email: string) => {
+    const caret = ref.current?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(MENTION_QUERY, (_, space) => `${space}@${email} `);
+    onChange(before + value.slice(caret));
+    setQuery(null);
+    requestAnimationFrame(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={ref}
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={3}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map(t => (
+            <li key={t.user_id}>
+              <button
+                type="button"
+                className="w-full rounded-sm px-2 py-1 text-left text-sm hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(t.email!)}
+              >
+                @{t.email}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface ComposerProps {
+  teammates: Teammate[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const Composer = ({ teammates, placeholder, submitLabel, onSubmit, onCancel }: ComposerProps) => {
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    try {
+      await onSubmit(draft);
+      setDraft("");
+    } catch {
+      // Reported by the caller; the draft is kept to try again
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea value={draft} onChange={setDraft} teammates={teammates} placeholder={placeholder} disabled={saving} />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={saving}>Cancel</Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={saving || !draft.trim()}>
+          {saving ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : null}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Comment text with @mentions of teammates picked out
+const CommentBody = ({ body, teammates, currentUserEmail }: { body: string; teammates: Teammate[]; currentUserEmail: string | null }) => {
+  const known = new Set(teammates.map(t => t.email?.toLowerCase()).filter(Boolean));
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {body.split(MENTION_PATTERN).map((part, i) => {
+        const email = part.startsWith('@') ? part.slice(1).toLowerCase() : null;
+        if (!email || !known.has(email)) return <Fragment key={i}>{part}</Fragment>;
+        return (
+          <span
+            key={i}
+            className={cn("rounded px-0.5 font-medium text-blue-700", email === currentUserEmail?.toLowerCase() && "bg-blue-100")}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
+
+interface CommentsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What is being discussed, e.g. the flag's severity or "Selected text"
+  title: string;
+  quote?: string | null;
+  threads: CommentThread[];
+  teammates: Teammate[];
+  currentUserId: string | null;
+  // Viewers read the discussion without taking part
+  readOnly?: boolean;
+  onStartThread: (body: string) => Promise<void>;
+  onReply: (parentId: string, body: string) => Promise<void>;
+  onDelete: (comment: AnalysisComment) => Promise<void>;
+}
+
+// Side panel with the discussion threads on a flag or a passage of the contract
+const CommentsPanel = ({
+  open,
+  onOpenChange,
+  title,
+  quote,
+  threads,
+  teammates,
+  currentUserId,
+  readOnly = false,
+  onStartThread,
+  onReply,
+  onDelete,
+}: CommentsPanelProps) => {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const currentUserEmail = teammates.find(t => t.user_id === currentUserId)?.email ?? null;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" />
+            {title}
+          </SheetTitle>
+          <SheetDescription>
+            {readOnly
+              ? "You can view this discussion. Reviewers and owners can take part in it."
+              : "Type @ to mention a teammate who can see this analysis."}
+          </SheetDescription>
+        </SheetHeader>
+
+        {quote ? (
+          <blockquote className="mt-4 border-l-4 pl-3 text-sm font-mono text-muted-foreground whitespace-pre-wrap line-clamp-6">
+            {quote}
+          </blockquote>
+        ) : null}
+
+        <div className="mt-6 space-y-6">
+          {threads.map(thread => (
+            <div key={thread[0].id} className="rounded-lg border p-3 space-y-3">
+              {thread.map((comment, i) => (
+                <div key={comment.id} className={cn("space-y-1", i > 0 && "ml-4 border-l pl-3")}>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      <span className="font-medium text-foreground">
+                        {comment.user_id === currentUserId ? 'You' : comment.author || 'Teammate'}
+                      </span>
+                      {' · '}
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </span>
+                    {comment.user_id === currentUserId && !comment.deleted_at && (
+                      <button
+                        type="button"
+                        className="hover:text-destructive"
+                        title={i === 0 ? "Delete thread" : "Delete comment"}
+                        onClick={() => onDelete(comment)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  {comment.deleted_at ? (
+                    <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+                  ) : (
+                    <CommentBody body={comment.body} teammates={teammates} currentUserEmail={currentUserEmail} />
+                  )}
+                </div>
+              ))}
+
+              {replyingTo === thread[0].id ? (
+                <Composer
+                  teammates={teammates}
+                  placeholder="Reply..."
+                  submitLabel="Reply"
+                  onSubmit={async (body) => {
+                    await onReply(thread[0].id, body);
+                    setReplyingTo(null);
+                  }}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              ) : !readOnly && (
+                <Button size="sm" variant="ghost" className="text-xs h-6 px-2" onClick={() => setReplyingTo(thread[0].id)}>
+                  Reply
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {readOnly ? (
+            threads.length === 0 && <p className="text-sm text-muted-foreground">No comments yet.</p>
+          ) : (
+            <Composer
+              teammates={teammates}
+              placeholder={threads.length > 0 ? "Start a new thread..." : "Start the discussion..."}
+              submitLabel="Comment"
+              onSubmit={onStartThread}
+            />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CommentsPanel;
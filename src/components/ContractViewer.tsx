@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { buildTextSegments, highlightElementId, type AnnotatedSpan, type Severity } from "@/lib/safeFlag";
+
+interface ContractViewerProps {
+  text: string;
+  spans: AnnotatedSpan[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  // Text selected by the reader, as offsets in `text` (null when the selection is cleared)
+  onSelectText?: (range: { start: number; end: number } | null) => void;
+}
+
+const HIGHLIGHT_CLASSES: Record<Severity, string> = {
+  high: "bg-red-100 decoration-red-400",
+  medium: "bg-yellow-100 decoration-yellow-400",
+  low: "bg-green-100 decoration-green-400",
+};
+
+const MINIMAP_CLASSES: Record<Severity, string> = {
+  high: "bg-red-500",
+  medium: "bg-yellow-500",
+  low: "bg-green-500",
+};
+
+const ContractViewer = ({ text, spans, activeId, onSelect, onSelectText }: ContractViewerProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLPreElement>(null);
+  const segments = useMemo(() => buildTextSegments(text, spans), [text, spans]);
+
+  // Bring the highlight of the selected flag into view inside the document pane
+  useEffect(() => {
+    if (!activeId || !scrollRef.current) return;
+    const el = scrollRef.current.querySelector(`#${CSS.escape(highlightElementId(activeId))}`);
+    el?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeId]);
+
+  // Offsets of the selection: the text before each end, as rendered, is the same as in `text`
+  const reportSelection = () => {
+    if (!onSelectText || !textRef.current) return;
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      onSelectText(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    if (!textRef.current.contains(range.commonAncestorContainer)) {
+      onSelectText(null);
+      return;
+    }
+
+    const offsetOf = (node: Node, offset: number) => {
+      const before = document.createRange();
+      before.setStart(textRef.current!, 0);
+      before.setEnd(node, offset);
+      return before.toString().length;
+    };
+    const start = offsetOf(range.startContainer, range.startOffset);
+    const end = offsetOf(range.endContainer, range.endOffset);
+    onSelectText(end > start ? { start, end } : null);
+  };
+
+  // The first segment of each span carries its scroll anchor
+  const anchored = new Set<string>();
+
+  return (
+    <div className="flex gap-2 h-full">
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-auto rounded-lg border bg-background p-4"
+      >
+        <pre ref={textRef} className="whitespace-pre-wrap font-sans text-sm leading-relaxed" onMouseUp={reportSelection}>
+          {segments.map((seg) => {
+            const chunk = text.substring(seg.start, seg.end);
+            if (!seg.severity) return <span key={seg.start}>{chunk}</span>;
+
+            const top = seg.spans[0];
+            const isActive = seg.spans.some((s) => s.id === activeId);
+            const anchorFor = seg.spans.find((s) => !anchored.has(s.id));
+            if (anchorFor) anchored.add(anchorFor.id);
+
+            return (
+              <mark
+                key={seg.start}
+                id={anchorFor ? highlightElementId(anchorFor.id) : undefined}
+                className={cn(
+                  "cursor-pointer rounded-sm text-foreground underline decoration-2 underline-offset-2",
+                  HIGHLIGHT_CLASSES[seg.severity],
+                  isActive && "ring-2 ring-primary"
+                )}
+                title={`${seg.spans.length} flag${seg.spans.length > 1 ? "s" : ""} (${seg.severity} severity)`}
+                onClick={() => {
+                  // Clicking an already-selected overlap cycles through the flags sharing it
+                  const current = seg.spans.findIndex((s) => s.id === activeId);
+                  const next = current === -1 ? top : seg.spans[(current + 1) % seg.spans.length];
+                  onSelect(next.id);
+                }}
+              >
+                {chunk}
+              </mark>
+            );
+          })}
+        </pre>
+      </div>
+
+      {/* Minimap: where the flagged clauses sit in the document */}
+      <div className="relative w-3 shrink-0 rounded-full bg-muted" aria-label="Risk minimap">
+        {text.length > 0 && spans.map((s) => (
+          <button
+            key={s.id}
+            type="button"
+            className={cn(
+              "absolute left-0 w-full min-h-[3px] rounded-sm opacity-80 hover:opacity-100",
+              MINIMAP_CLASSES[s.severity],
+              s.id === activeId && "ring-2 ring-primary opacity-100"
+            )}
+            style={{
+              top: `${(s.start / text.length) * 100}%`,
+              height: `${(Math.max(s.end - s.start, 1) / text.length) * 100}%`,
+            }}
+            title={`${s.severity} severity`}
+            onClick={() => onSelect(s.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ContractViewer;
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { shareLinkUrl, useShareLinks, type ShareLink } from "@/hooks/use-share-links";
+import { copyToClipboard } from "@/lib/safeFlag";
+import { Copy, Eye, Link2, Loader2, Share2 } from "lucide-react";
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const linkState = (link: ShareLink) =>
+  link.revoked_at ? 'Revoked' : new Date(link.expires_at) <= new Date() ? 'Expired' : 'Active';
+
+interface ShareLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  analysisId: string;
+}
+
+// Read-only links to the report for people without an account, and when they were opened
+const ShareLinksDialog = ({ open, onOpenChange, analysisId }: ShareLinksDialogProps) => {
+  const { links, loading, createLink, revokeLink } = useShareLinks(analysisId, open);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [hideSuggestions, setHideSuggestions] = useState(false);
+  const [hideSourceText, setHideSourceText] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      const link = await createLink({
+        expires_in_days: expiresInDays,
+        hide_suggestions: hideSuggestions,
+        hide_source_text: hideSourceText,
+      });
+      if (link.token) await copyToClipboard(shareLinkUrl(link.token));
+      toast({ title: "Link created", description: "Anyone with the link can view this report until it expires." });
+    } catch (error) {
+      console.error('Share link error:', error);
+      toast({
+        title: "Link not created",
+        description: "Unable to create the share link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    setBusy(true);
+    try {
+      await revokeLink(link.id);
+      toast({ title: "Link revoked", description: "It no longer opens the report." });
+    } catch (error) {
+      console.error('Share link revoke error:', error);
+      toast({
+        title: "Revoke failed",
+        description: "Unable to revoke the link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5" />
+            Share Report
+          </DialogTitle>
+          <DialogDescription>
+            A read-only link for someone without an account, such as the counterparty or outside counsel.
+            Reviews and comments are not shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="share-expiry">Expires after</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger id="share-expiry" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="share-hide-suggestions">Hide suggested changes</Label>
+            <Switch id="share-hide-suggestions" checked={hideSuggestions} onCheckedChange={setHideSuggestions} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="share-hide-source">Hide the contract text</Label>
+            <Switch id="share-hide-source" checked={hideSourceText} onCheckedChange={setHideSourceText} />
+          </div>
+          <Button onClick={handleCreate} disabled={busy} className="w-full">
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+            Create and Copy Link
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Links</h4>
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This report hasn't been shared yet.</p>
+          ) : (
+            links.map(link => {
+              const state = linkState(link);
+              return (
+                <div key={link.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-2 flex-wrap text-sm">
+                      <Badge variant={state === 'Active' ? 'default' : 'secondary'}>{state}</Badge>
+                      <span className="text-muted-foreground">
+                        {state === 'Revoked'
+                          ? `Revoked ${formatDistanceToNow(new Date(link.revoked_at!), { addSuffix: true })}`
+                          : `${state === 'Active' ? 'Expires' : 'Expired'} ${format(new Date(link.expires_at), 'PPp')}`}
+                      </span>
+                    </div>
+                    {link.token && (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => copyToClipboard(shareLinkUrl(link.token!))}>
+                          <Copy className="w-3 h-3 mr-1" />
+                          Copy
+                        </Button>
+                        <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleRevoke(link)}>
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                    {link.created_by_email ? ` by ${link.created_by_email}` : ''}
+                    {link.hide_suggestions ? ' · suggestions hidden' : ''}
+                    {link.hide_source_text ? ' · contract text hidden' : ''}
+                  </p>
+
+                  {/* access log */}
+                  {link.view_count > 0 ? (
+                    <details>
+                      <summary className="cursor-pointer text-xs text-muted-foreground flex items-center gap-1">
+                        <Eye className="w-3 h-3" />
+                        Opened {link.view_count} time{link.view_count > 1 ? 's' : ''}, last{' '}
+                        {formatDistanceToNow(new Date(link.views[0].viewed_at), { addSuffix: true })}
+                      </summary>
+                      <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                        {link.views.map((view, i) => (
+                          <li key={i} className="truncate" title={view.user_agent || undefined}>
+                            {format(new Date(view.viewed_at), 'PPp')}
+                            {view.user_agent ? ` · ${view.user_agent}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  ) : (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Eye className="w-3 h-3" />
+                      Not opened yet
+                    </p>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareLinksDialog;
@@ -0,0 +1,104 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// As returned by the analysis-comments function
+export interface AnalysisComment {
+  id: string;
+  analysis_id: string;
+  // Null once the author's account is deleted
+  user_id: string | null;
+  author: string | null;
+  // First comment of the thread, for replies
+  parent_id: string | null;
+  flag_id: string | null;
+  span_start: number | null;
+  span_end: number | null;
+  quote: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  // Set on a thread's first comment deleted after others replied; its body is blank
+  deleted_at: string | null;
+}
+
+// Someone who can see the analysis, and so can be @mentioned
+export interface Teammate {
+  user_id: string;
+  email: string | null;
+}
+
+// Where a new thread is attached; replies only need their parent
+export type CommentAnchor =
+  | { parent_id: string }
+  | { flag_id: string }
+  | { span_start: number; span_end: number };
+
+// First comment of a thread, then its replies in order
+export type CommentThread = AnalysisComment[];
+
+// Threads with something left to read (a deleted first comment whose replies are gone too isn't)
+export function groupThreads(comments: AnalysisComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    const root = comment.parent_id || comment.id;
+    threads.set(root, [...(threads.get(root) || []), comment]);
+  }
+  return Array.from(threads.values()).filter(thread => thread.some(c => !c.deleted_at));
+}
+
+// Comments on an analysis, and who can be mentioned in them
+export function useAnalysisComments(analysisId: string | undefined) {
+  const [comments, setComments] = React.useState<AnalysisComment[]>([]);
+  const [teammates, setTeammates] = React.useState<Teammate[]>([]);
+
+  React.useEffect(() => {
+    setComments([]);
+    setTeammates([]);
+    if (!analysisId) return;
+
+    let stopped = false;
+    const load = async () => {
+      const { data, error } = await supabase.functions.invoke(
+        `analysis-comments?${new URLSearchParams({ analysisId })}`,
+        { method: 'GET' }
+      );
+      if (error) {
+        console.error('Comments fetch error:', error);
+        return;
+      }
+      if (stopped) return;
+      setComments(data.comments || []);
+      setTeammates(data.teammates || []);
+    };
+
+    load();
+    return () => {
+      stopped = true;
+    };
+  }, [analysisId]);
+
+  const addComment = React.useCallback(async (body: string, anchor: CommentAnchor) => {
+    const { data, error } = await supabase.functions.invoke('analysis-comments', {
+      body: { analysis_id: analysisId, body, ...anchor }
+    });
+    if (error) throw error;
+    setComments(prev => [...prev, data.comment as AnalysisComment]);
+    return data.comment as AnalysisComment;
+  }, [analysisId]);
+
+  // Deleting the first comment of a thread deletes the author's own replies with it; once
+  // someone else replied, the database only blanks it so their replies stay
+  const deleteComment = React.useCallback(async (id: string) => {
+    const { error } = await supabase.from('comments').delete().eq('id', id);
+    if (error) throw error;
+    setComments(prev => {
+      const comment = prev.find(c => c.id === id);
+      const replied = !comment?.parent_id && prev.some(c => c.parent_id === id && c.user_id !== comment?.user_id);
+      return replied
+        ? prev.map(c => c.id === id ? { ...c, body: '', mentions: [], deleted_at: new Date().toISOString() } : c)
+        : prev.filter(c => c.id !== id && c.parent_id !== id);
+    });
+  }, []);
+
+  return { comments, teammates, addComment, deleteComment };
+}
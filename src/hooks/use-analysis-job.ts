@@ -0,0 +1,71 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AnalysisJobStatus = 'queued' | 'extracting' | 'analyzing' | 'done' | 'failed';
+
+export type AnalysisJob = Pick<
+  Tables<'analysis_jobs'>,
+  'id' | 'title' | 'file_name' | 'progress' | 'analysis_id' | 'notes' | 'error' | 'error_code' | 'created_at'
+> & { status: AnalysisJobStatus };
+
+// The job the user started last, so they can leave the page and pick it up again
+export const ACTIVE_JOB_STORAGE_KEY = 'clausewise-active-job';
+
+// Realtime may be unavailable (e.g. blocked websockets), so also poll while the job runs
+const POLL_INTERVAL_MS = 3000;
+
+const JOB_COLUMNS = 'id, status, title, file_name, progress, analysis_id, notes, error, error_code, created_at';
+
+export const isFinishedJob = (job: AnalysisJob | null) => job?.status === 'done' || job?.status === 'failed';
+
+// Follows an analysis job until it finishes (realtime updates, with polling as a fallback)
+export function useAnalysisJob(jobId: string | null) {
+  const [job, setJob] = React.useState<AnalysisJob | null>(null);
+
+  React.useEffect(() => {
+    setJob(null);
+    if (!jobId) return;
+
+    let stopped = false;
+
+    const apply = (next: AnalysisJob) => {
+      if (stopped) return;
+      setJob(next);
+      if (next.status === 'done' || next.status === 'failed') clearInterval(timer);
+    };
+
+    const refresh = async () => {
+      const { data, error } = await supabase
+        .from('analysis_jobs')
+        .select(JOB_COLUMNS)
+        .eq('id', jobId)
+        .maybeSingle();
+      if (error) {
+        console.error('Analysis job fetch error:', error);
+        return;
+      }
+      if (data) apply(data as AnalysisJob);
+    };
+
+    const channel = supabase
+      .channel(`analysis-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'analysis_jobs', filter: `id=eq.${jobId}` },
+        (payload) => apply(payload.new as AnalysisJob)
+      )
+      .subscribe();
+
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    refresh();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  return job;
+}
@@ -0,0 +1,84 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type OrgRole = 'owner' | 'reviewer' | 'viewer';
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  reviewer: 'Reviewer',
+  viewer: 'Viewer',
+};
+
+// As returned by the organizations function
+export interface OrgMember {
+  user_id: string;
+  email: string | null;
+  role: OrgRole;
+  joined_at: string;
+}
+
+export interface OrgInvite {
+  id: string;
+  organization_id: string;
+  organization_name?: string;
+  email: string;
+  role: OrgRole;
+  created_at: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  // The current user's role
+  role: OrgRole;
+  members: OrgMember[];
+  // Pending invites (owners only)
+  invites: OrgInvite[];
+}
+
+export type OrganizationAction =
+  | { action: 'create'; name: string }
+  | { action: 'invite'; organization_id: string; email: string; role: OrgRole }
+  | { action: 'accept_invite' | 'delete_invite'; invite_id: string }
+  | { action: 'set_role'; organization_id: string; user_id: string; role: OrgRole }
+  | { action: 'remove_member'; organization_id: string; user_id: string };
+
+// Owners and reviewers add and review contracts; viewers only read them
+export const canEditIn = (role: OrgRole | null | undefined) => role === 'owner' || role === 'reviewer';
+
+// The user's organizations and the invites waiting for them
+export function useOrganizations() {
+  const [organizations, setOrganizations] = React.useState<Organization[]>([]);
+  const [invites, setInvites] = React.useState<OrgInvite[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let stopped = false;
+    const load = async () => {
+      const { data, error } = await supabase.functions.invoke('organizations', { method: 'GET' });
+      if (stopped) return;
+      if (error) {
+        console.error('Organizations fetch error:', error);
+      } else {
+        setOrganizations(data.organizations || []);
+        setInvites(data.invites || []);
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      stopped = true;
+    };
+  }, []);
+
+  // Every change returns the lists as they are afterwards
+  const update = React.useCallback(async (request: OrganizationAction) => {
+    const { data, error } = await supabase.functions.invoke('organizations', { body: request });
+    if (error) throw error;
+    setOrganizations(data.organizations || []);
+    setInvites(data.invites || []);
+  }, []);
+
+  return { organizations, invites, loading, update };
+}
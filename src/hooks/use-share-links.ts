@@ -0,0 +1,160 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// As returned by the share-links function
+export interface ShareLinkView {
+  viewed_at: string;
+  user_agent: string | null;
+}
+
+export interface ShareLink {
+  id: string;
+  analysis_id: string;
+  created_by_email: string | null;
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  // null once the link no longer opens (expired or revoked)
+  token: string | null;
+  view_count: number;
+  // Most recent opens, newest first
+  views: ShareLinkView[];
+}
+
+export interface ShareOptions {
+  expires_in_days: number;
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+}
+
+// Public address of the read-only report a link opens
+export const shareLinkUrl = (token: string) => `${window.location.origin}/shared/${token}`;
+
+// Share links of an analysis, loaded while `enabled` (e.g. while the share dialog is open)
+export function useShareLinks(analysisId: string | undefined, enabled: boolean) {
+  const [links, setLinks] = React.useState<ShareLink[]>([]);
+  const [loading, setLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!analysisId || !enabled) return;
+
+    let stopped = false;
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.functions.invoke(
+        `share-links?${new URLSearchParams({ analysisId })}`,
+        { method: 'GET' }
+      );
+      if (stopped) return;
+      if (error) {
+        console.error('Share links fetch error:', error);
+      } else {
+        setLinks(data.links || []);
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      stopped = true;
+    };
+  }, [analysisId, enabled]);
+
+  const createLink = React.useCallback(async (options: ShareOptions) => {
+    const { data, error } = await supabase.functions.invoke('share-links', {
+      body: { action: 'create', analysis_id: analysisId, ...options }
+    });
+    if (error) throw error;
+    setLinks(prev => [data.link as ShareLink, ...prev]);
+    return data.link as ShareLink;
+  }, [analysisId]);
+
+  const revokeLink = React.useCallback(async (linkId: string) => {
+    const { data, error } = await supabase.functions.invoke('share-links', {
+      body: { action: 'revoke', link_id: linkId }
+    });
+    if (error) throw error;
+    setLinks(prev => prev.map(link => link.id === linkId ? data.link as ShareLink : link));
+  }, []);
+
+  return { links, loading, createLink, revokeLink };
+}
+
+// A report as the shared-report function returns it to the holder of a link
+export interface SharedReport {
+  analysis: {
+    id: string;
+    overall_risk: 'low' | 'medium' | 'high';
+    summary: string;
+    created_at: string;
+    ai_provider: string | null;
+    ai_model: string | null;
+    ai_fallback_used: boolean | null;
+    contract: {
+      title: string | null;
+      version: number;
+      // null when the link hides it
+      source_text: string | null;
+    };
+  };
+  flags: Array<{
+    id: string;
+    clause: string;
+    severity: 'low' | 'medium' | 'high';
+    rationale: string;
+    // null when the link hides suggestions
+    suggestion: string | null;
+    keywords: string[] | null;
+    context: string | null;
+    section: string | null;
+    span_start: number | null;
+    span_end: number | null;
+    span_match: string | null;
+    verified: boolean | null;
+  }>;
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+  expires_at: string;
+}
+
+export type SharedReportError = 'invalid' | 'expired' | 'failed';
+
+// The report a share link opens (no account needed)
+export function useSharedReport(token: string | undefined) {
+  const [report, setReport] = React.useState<SharedReport | null>(null);
+  const [error, setError] = React.useState<SharedReportError | null>(null);
+
+  React.useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (!token) {
+      setError('invalid');
+      return;
+    }
+
+    let stopped = false;
+    const load = async () => {
+      const { data, error } = await supabase.functions.invoke(
+        `shared-report?${new URLSearchParams({ token })}`,
+        { method: 'GET' }
+      );
+      if (stopped) return;
+      if (error) {
+        // 404: not a link we signed; 410: expired, revoked or deleted
+        const status = (error as { context?: Response }).context?.status;
+        setError(status === 410 ? 'expired' : status === 404 ? 'invalid' : 'failed');
+        return;
+      }
+      setReport(data as SharedReport);
+    };
+
+    load();
+    return () => {
+      stopped = true;
+    };
+  }, [token]);
+
+  return { report, error };
+}
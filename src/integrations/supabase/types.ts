@@ -23,6 +23,8 @@ export type Database = {
           ai_raw: Json | null
           ai_tokens_in: number | null
           ai_tokens_out: number | null
+          ai_ungrounded_flags: number | null
+          analyzed_risk: string | null
           contract_id: string
           created_at: string
           id: string
@@ -38,6 +40,8 @@ export type Database = {
           ai_raw?: Json | null
           ai_tokens_in?: number | null
           ai_tokens_out?: number | null
+          ai_ungrounded_flags?: number | null
+          analyzed_risk?: string | null
           contract_id: string
           created_at?: string
           id?: string
@@ -53,6 +57,8 @@ export type Database = {
           ai_raw?: Json | null
           ai_tokens_in?: number | null
           ai_tokens_out?: number | null
+          ai_ungrounded_flags?: number | null
+          analyzed_risk?: string | null
           contract_id?: string
           created_at?: string
           id?: string
@@ -70,29 +76,257 @@ export type Database = {
           },
         ]
       }
+      analysis_jobs: {
+        Row: {
+          ai_provider: string | null
+          analysis_id: string | null
+          attempts: number
+          contract_id: string | null
+          created_at: string
+          error: string | null
+          error_code: string | null
+          file_mime: string | null
+          file_name: string | null
+          file_sha256: string | null
+          file_size: number | null
+          finished_at: string | null
+          id: string
+          notes: string[] | null
+          organization_id: string | null
+          progress: number
+          rerun: boolean
+          source_text: string | null
+          started_at: string | null
+          status: string
+          storage_path: string | null
+          title: string | null
+          updated_at: string
+          use_ai: boolean
+          user_id: string
+          version_of: string | null
+        }
+        Insert: {
+          ai_provider?: string | null
+          analysis_id?: string | null
+          attempts?: number
+          contract_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          file_mime?: string | null
+          file_name?: string | null
+          file_sha256?: string | null
+          file_size?: number | null
+          finished_at?: string | null
+          id?: string
+          notes?: string[] | null
+          organization_id?: string | null
+          progress?: number
+          rerun?: boolean
+          source_text?: string | null
+          started_at?: string | null
+          status?: string
+          storage_path?: string | null
+          title?: string | null
+          updated_at?: string
+          use_ai?: boolean
+          user_id: string
+          version_of?: string | null
+        }
+        Update: {
+          ai_provider?: string | null
+          analysis_id?: string | null
+          attempts?: number
+          contract_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_code?: string | null
+          file_mime?: string | null
+          file_name?: string | null
+          file_sha256?: string | null
+          file_size?: number | null
+          finished_at?: string | null
+          id?: string
+          notes?: string[] | null
+          organization_id?: string | null
+          progress?: number
+          rerun?: boolean
+          source_text?: string | null
+          started_at?: string | null
+          status?: string
+          storage_path?: string | null
+          title?: string | null
+          updated_at?: string
+          use_ai?: boolean
+          user_id?: string
+          version_of?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_jobs_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_jobs_version_of_fkey"
+            columns: ["version_of"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_jobs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          analysis_id: string
+          body: string
+          created_at: string
+          deleted_at: string | null
+          flag_id: string | null
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          quote: string | null
+          span_end: number | null
+          span_start: number | null
+          user_id: string | null
+        }
+        Insert: {
+          analysis_id: string
+          body: string
+          created_at?: string
+          deleted_at?: string | null
+          flag_id?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          quote?: string | null
+          span_end?: number | null
+          span_start?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          flag_id?: string | null
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          quote?: string | null
+          span_end?: number | null
+          span_start?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_flag_id_fkey"
+            columns: ["flag_id"]
+            isOneToOne: false
+            referencedRelation: "flags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contracts: {
         Row: {
+          clause_tree: Json | null
           created_at: string
+          family_id: string | null
           id: string
+          mime_type: string | null
+          minhash: number[] | null
+          organization_id: string | null
+          sha256: string | null
+          size_bytes: number | null
           source_text: string
+          storage_path: string | null
+          text_hash: string | null
           title: string | null
           user_id: string
+          version: number
         }
         Insert: {
+          clause_tree?: Json | null
           created_at?: string
+          family_id?: string | null
           id?: string
+          mime_type?: string | null
+          minhash?: number[] | null
+          organization_id?: string | null
+          sha256?: string | null
+          size_bytes?: number | null
           source_text: string
+          storage_path?: string | null
+          text_hash?: string | null
           title?: string | null
           user_id: string
+          version?: number
         }
         Update: {
+          clause_tree?: Json | null
           created_at?: string
+          family_id?: string | null
           id?: string
+          mime_type?: string | null
+          minhash?: number[] | null
+          organization_id?: string | null
+          sha256?: string | null
+          size_bytes?: number | null
           source_text?: string
+          storage_path?: string | null
+          text_hash?: string | null
           title?: string | null
           user_id?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "contracts_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contracts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       flags: {
         Row: {
@@ -103,11 +337,25 @@ export type Database = {
           id: string
           keywords: string[] | null
           rationale: string | null
+          redline: string | null
+          redline_accepted_at: string | null
+          redline_accepted_by: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          rule_id: string | null
+          rule_pack: string | null
+          rule_pack_version: string | null
+          rule_version: number | null
+          section: string | null
           severity: string
           span_end: number | null
+          span_match: string | null
           span_start: number | null
+          status: string
           suggestion: string | null
           user_id: string
+          verified: boolean | null
         }
         Insert: {
           analysis_id: string
@@ -117,11 +365,25 @@ export type Database = {
           id?: string
           keywords?: string[] | null
           rationale?: string | null
+          redline?: string | null
+          redline_accepted_at?: string | null
+          redline_accepted_by?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rule_id?: string | null
+          rule_pack?: string | null
+          rule_pack_version?: string | null
+          rule_version?: number | null
+          section?: string | null
           severity: string
           span_end?: number | null
+          span_match?: string | null
           span_start?: number | null
+          status?: string
           suggestion?: string | null
           user_id: string
+          verified?: boolean | null
         }
         Update: {
           analysis_id?: string
@@ -131,11 +393,25 @@ export type Database = {
           id?: string
           keywords?: string[] | null
           rationale?: string | null
+          redline?: string | null
+          redline_accepted_at?: string | null
+          redline_accepted_by?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rule_id?: string | null
+          rule_pack?: string | null
+          rule_pack_version?: string | null
+          rule_version?: number | null
+          section?: string | null
           severity?: string
           span_end?: number | null
+          span_match?: string | null
           span_start?: number | null
+          status?: string
           suggestion?: string | null
           user_id?: string
+          verified?: boolean | null
         }
         Relationships: [
           {
@@ -147,12 +423,217 @@ export type Database = {
           },
         ]
       }
+      organization_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          plan: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          plan?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          plan?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      share_link_views: {
+        Row: {
+          id: string
+          share_link_id: string
+          user_agent: string | null
+          viewed_at: string
+        }
+        Insert: {
+          id?: string
+          share_link_id: string
+          user_agent?: string | null
+          viewed_at?: string
+        }
+        Update: {
+          id?: string
+          share_link_id?: string
+          user_agent?: string | null
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_views_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          analysis_id: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          hide_source_text: boolean
+          hide_suggestions: boolean
+          id: string
+          revoked_at: string | null
+          revoked_by: string | null
+        }
+        Insert: {
+          analysis_id: string
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          hide_source_text?: boolean
+          hide_suggestions?: boolean
+          id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          hide_source_text?: boolean
+          hide_suggestions?: boolean
+          id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      rule_review_stats: {
+        Row: {
+          accepted: number | null
+          dismissal_rate: number | null
+          dismissed: number | null
+          flagged: number | null
+          negotiating: number | null
+          resolved: number | null
+          reviewed: number | null
+          rule_id: string | null
+          rule_pack: string | null
+          rule_pack_version: string | null
+          rule_version: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      can_access_analysis: {
+        Args: { analysis: string; write?: boolean }
+        Returns: boolean
+      }
+      can_access_contract: {
+        Args: { contract: string; write?: boolean }
+        Returns: boolean
+      }
+      org_role: {
+        Args: { org: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
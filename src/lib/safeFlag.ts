@@ -7,8 +7,19 @@ export type Flag = {
   span_end?: number|null
   context?: string|null
   keywords?: string[]|null
+  span_match?: 'exact'|'fuzzy'|'keyword'|null
+  verified?: boolean|null
+  section?: string|null
+  status?: FlagStatus|null
+  review_note?: string|null
+  reviewed_at?: string|null
+  redline?: string|null
+  redline_accepted_at?: string|null
 }
 
+// Review of a saved flag; AI/rule flags embedded in the analysis are never reviewed
+export type FlagStatus = 'open'|'accepted'|'dismissed'|'negotiating'|'resolved'
+
 // Normalize a flag coming from DB/API so UI never crashes
 export function normalizeFlag(f: Flag) {
   return {
@@ -19,7 +30,17 @@ export function normalizeFlag(f: Flag) {
     span_start: typeof f?.span_start === 'number' ? f?.span_start : null,
     span_end:   typeof f?.span_end   === 'number' ? f?.span_end   : null,
     context: f?.context ?? '',
-    keywords: Array.isArray(f?.keywords) ? (f?.keywords as string[]).filter(Boolean) : []
+    keywords: Array.isArray(f?.keywords) ? (f?.keywords as string[]).filter(Boolean) : [],
+    span_match: f?.span_match ?? null,
+    // Only an explicit false means unverified; older flags were never checked
+    verified: f?.verified !== false,
+    section: f?.section ?? null,
+    status: (f?.status ?? 'open') as FlagStatus,
+    review_note: f?.review_note ?? null,
+    reviewed_at: f?.reviewed_at ?? null,
+    // Rewrite of the clause accepted in review, exported as tracked changes
+    redline: f?.redline ?? null,
+    redline_accepted_at: f?.redline_accepted_at ?? null
   }
 }
 
@@ -33,6 +54,40 @@ export function highlightText(text: string, keywords: string[]) {
   return text.replace(re, '<mark>$1</mark>')
 }
 
+export type Severity = 'low'|'medium'|'high'
+
+export type AnnotatedSpan = { id: string, start: number, end: number, severity: Severity }
+
+export type TextSegment = { start: number, end: number, spans: AnnotatedSpan[], severity: Severity|null }
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 }
+
+// Split a document into runs of text covered by the same set of flagged spans
+// Overlapping spans are kept together; the run takes the highest severity among them
+export function buildTextSegments(text: string, spans: AnnotatedSpan[]): TextSegment[] {
+  const valid = spans.filter(s => s.start >= 0 && s.end > s.start && s.start < text.length)
+  const cuts = new Set<number>([0, text.length])
+  for (const s of valid) {
+    cuts.add(s.start)
+    cuts.add(Math.min(s.end, text.length))
+  }
+  const points = Array.from(cuts).sort((a, b) => a - b)
+
+  const segments: TextSegment[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i]
+    const end = points[i + 1]
+    const covering = valid
+      .filter(s => s.start <= start && s.end >= end)
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+    segments.push({ start, end, spans: covering, severity: covering[0]?.severity ?? null })
+  }
+  return segments
+}
+
+// DOM id of the first highlight belonging to a flag, used for scrolling
+export const highlightElementId = (id: string) => `contract-span-${id}`
+
 // Safe clipboard copy
 export async function copyToClipboard(s: string) {
   try {
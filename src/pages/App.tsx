@@ -5,6 +5,8 @@ import Upload from "./app/Upload";
 import History from "./app/History";
 import Account from "./app/Account";
 import Report from "./app/Report";
+import Compare from "./app/Compare";
+import Team from "./app/Team";
 
 const App = () => {
   return (
@@ -16,8 +18,10 @@ const App = () => {
             <Route path="/" element={<Upload />} />
             <Route path="/upload" element={<Upload />} />
             <Route path="/history" element={<History />} />
+            <Route path="/team" element={<Team />} />
             <Route path="/account" element={<Account />} />
             <Route path="/report/:analysisId" element={<Report />} />
+            <Route path="/compare/:analysisId" element={<Compare />} />
           </Routes>
         </main>
       </div>
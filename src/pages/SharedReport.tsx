@@ -0,0 +1,62 @@
+import { Link, useParams } from "react-router-dom";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Link2Off } from "lucide-react";
+import Report from "./app/Report";
+import { useSharedReport, type SharedReportError } from "@/hooks/use-share-links";
+import clausewiseLogo from "@/assets/clausewise-logo.png";
+
+const ERROR_MESSAGES: Record<SharedReportError, { title: string; description: string }> = {
+  invalid: {
+    title: "Link not valid",
+    description: "Check that you copied the whole link, or ask the sender for a new one.",
+  },
+  expired: {
+    title: "Link no longer available",
+    description: "This link has expired or was revoked. Ask the sender for a new one.",
+  },
+  failed: {
+    title: "Report could not be loaded",
+    description: "Something went wrong. Please try again in a moment.",
+  },
+};
+
+// Read-only report opened through a share link, for people without an account
+const SharedReport = () => {
+  const { token } = useParams<{ token: string }>();
+  const { report, error } = useSharedReport(token);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b px-6 py-4">
+        <Link to="/" className="flex items-center gap-2 w-fit">
+          <img src={clausewiseLogo} alt="ClauseWise" className="w-6 h-6" />
+          <span className="text-xl font-bold bg-gradient-hero bg-clip-text text-transparent">
+            ClauseWise
+          </span>
+        </Link>
+      </header>
+
+      {error ? (
+        <div className="p-6 md:p-8 lg:p-12">
+          <div className="max-w-4xl mx-auto text-center">
+            <Link2Off className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-2xl font-semibold mb-2">{ERROR_MESSAGES[error].title}</h2>
+            <p className="text-muted-foreground">{ERROR_MESSAGES[error].description}</p>
+          </div>
+        </div>
+      ) : report ? (
+        <Report shared={report} />
+      ) : (
+        <div className="p-6 md:p-8 lg:p-12">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <Skeleton className="h-12 w-3/4" />
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedReport;
@@ -156,7 +156,7 @@ const Account = () => {
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">
                   This will permanently delete all your contract analyses, flags, and related data. 
-                  This action cannot be undone.
+                  This action cannot be undone. Contracts you added to an organization stay with the team.
                 </p>
                 <p className="text-sm font-medium text-destructive">
                   ⚠️ Warning: This will delete all your contracts, analyses, and flags permanently.
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -8,42 +8,87 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { FileText, Clock, ExternalLink, AlertTriangle, CheckCircle, AlertCircle, Plus, Search, Filter, Bot, Zap } from "lucide-react";
+import { FileText, Clock, ExternalLink, AlertTriangle, CheckCircle, AlertCircle, Plus, Search, Filter, Bot, Zap, ChevronDown, ChevronRight, GitCompare, Building2 } from "lucide-react";
 import { format } from "date-fns";
 
+interface LatestAnalysis {
+  id: string;
+  overall_risk: 'low' | 'medium' | 'high';
+  created_at: string;
+  ai_provider: string | null;
+  ai_fallback_used?: boolean; // Optional for backward compatibility
+}
+
+interface ContractVersion {
+  id: string;
+  title: string;
+  version: number;
+  created_at: string;
+  latest_analysis?: LatestAnalysis;
+}
+
+// Organization a team contract belongs to (personal contracts have none)
+interface ContractWorkspace {
+  id: string;
+  name: string;
+}
+
+// One logical contract: its versions, newest first, shown as a single row
+// (title, date and risk come from the newest version)
 interface ContractWithAnalysis {
   id: string;
   title: string;
   created_at: string;
-  latest_analysis?: {
-    id: string;
-    overall_risk: 'low' | 'medium' | 'high';
-    created_at: string;
-    ai_provider: string | null;
-    ai_fallback_used?: boolean; // Optional for backward compatibility
-  };
+  latest_analysis?: LatestAnalysis;
+  workspace: ContractWorkspace | null;
+  versions: ContractVersion[];
+}
+
+interface ContractRow {
+  id: string;
+  title: string;
+  created_at: string;
+  family_id: string | null;
+  version: number;
+  organization_id: string | null;
+  organization: { name: string } | null;
+  analyses: LatestAnalysis[] | null;
 }
 
+// Workspace filter values besides an organization's id
+type WorkspaceFilter = 'all' | 'personal' | string;
+
+const latestOf = (analyses: LatestAnalysis[] | null): LatestAnalysis | undefined =>
+  [...(analyses || [])].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
 const History = () => {
   const [contracts, setContracts] = useState<ContractWithAnalysis[]>([]);
   const [filteredContracts, setFilteredContracts] = useState<ContractWithAnalysis[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [riskFilter, setRiskFilter] = useState<'all' | 'low' | 'medium' | 'high'>('all');
+  const [workspaceFilter, setWorkspaceFilter] = useState<WorkspaceFilter>('all');
+  // Contracts whose earlier versions are shown
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
     const fetchContracts = async () => {
       try {
-        // Fetch contracts with their latest analysis
+        // Fetch contracts (every version) with their analyses: the user's own and
+        // those of their organizations
         const { data, error } = await supabase
           .from('contracts')
           .select(`
             id,
             title,
             created_at,
-            analyses!inner (
+            family_id,
+            version,
+            organization_id,
+            organization:organizations ( name ),
+            analyses (
               id,
               overall_risk,
               created_at,
@@ -63,65 +108,41 @@ const History = () => {
           return;
         }
 
-        // Transform data to get the latest analysis for each contract
-        const contractsWithLatestAnalysis: ContractWithAnalysis[] = [];
-        
-        if (data) {
-          // Group analyses by contract and get the latest one
-          const contractMap = new Map<string, ContractWithAnalysis>();
-          
-          data.forEach((item: any) => {
-            const contractId = item.id;
-            const analysis = item.analyses;
-            
-            if (!contractMap.has(contractId)) {
-              contractMap.set(contractId, {
-                id: item.id,
-                title: item.title,
-                created_at: item.created_at,
-              });
-            }
-            
-            const contract = contractMap.get(contractId)!;
-            
-            // Update with latest analysis if this one is newer
-            if (analysis && (!contract.latest_analysis || 
-                new Date(analysis.created_at) > new Date(contract.latest_analysis.created_at))) {
-              contract.latest_analysis = {
-                id: analysis.id,
-                overall_risk: analysis.overall_risk,
-                created_at: analysis.created_at,
-                ai_provider: analysis.ai_provider,
-                ai_fallback_used: analysis.ai_fallback_used || false
-              };
-            }
+        // Group versions under the contract they revise (named by its first version)
+        const families = new Map<string, ContractVersion[]>();
+        // Versions share their contract's workspace
+        const workspaces = new Map<string, ContractWorkspace | null>();
+        ((data || []) as unknown as ContractRow[]).forEach(row => {
+          const familyId = row.family_id ?? row.id;
+          const versions = families.get(familyId) ?? [];
+          versions.push({
+            id: row.id,
+            title: row.title,
+            version: row.version ?? 1,
+            created_at: row.created_at,
+            latest_analysis: latestOf(row.analyses)
           });
-          
-          contractsWithLatestAnalysis.push(...Array.from(contractMap.values()));
-        }
-
-        // Also fetch contracts without analyses
-        const { data: contractsOnly, error: contractsError } = await supabase
-          .from('contracts')
-          .select('id, title, created_at')
-          .order('created_at', { ascending: false });
+          families.set(familyId, versions);
+          workspaces.set(familyId, row.organization_id
+            ? { id: row.organization_id, name: row.organization?.name || 'Organization' }
+            : null);
+        });
 
-        if (contractsError) {
-          console.error('Contracts only fetch error:', contractsError);
-        } else if (contractsOnly) {
-          // Add contracts that don't have analyses yet
-          contractsOnly.forEach(contract => {
-            if (!contractsWithLatestAnalysis.find(c => c.id === contract.id)) {
-              contractsWithLatestAnalysis.push({
-                id: contract.id,
-                title: contract.title,
-                created_at: contract.created_at
-              });
-            }
-          });
-        }
+        const contractsWithLatestAnalysis: ContractWithAnalysis[] = Array.from(families, ([familyId, versions]) => {
+          versions.sort((a, b) => b.version - a.version);
+          // Latest risk: the newest version that has been analyzed
+          const analyzed = versions.find(v => v.latest_analysis);
+          return {
+            id: familyId,
+            title: versions[0].title,
+            created_at: versions[0].created_at,
+            latest_analysis: analyzed?.latest_analysis,
+            workspace: workspaces.get(familyId) ?? null,
+            versions
+          };
+        });
 
-        // Sort by creation date (newest first)
+        // Sort by creation date of the newest version (newest first)
         contractsWithLatestAnalysis.sort((a, b) => 
           new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
         );
@@ -146,12 +167,12 @@ const History = () => {
   useEffect(() => {
     let filtered = [...contracts];
 
-    // Filter by search term (title)
+    // Filter by search term (title of any version)
     if (searchTerm.trim()) {
       filtered = filtered.filter(contract =>
-        (contract.title || "Untitled Contract")
+        contract.versions.some(v => (v.title || "Untitled Contract")
           .toLowerCase()
-          .includes(searchTerm.toLowerCase())
+          .includes(searchTerm.toLowerCase()))
       );
     }
 
@@ -162,8 +183,38 @@ const History = () => {
       );
     }
 
+    // Filter by workspace
+    if (workspaceFilter !== 'all') {
+      filtered = filtered.filter(contract =>
+        workspaceFilter === 'personal' ? !contract.workspace : contract.workspace?.id === workspaceFilter
+      );
+    }
+
     setFilteredContracts(filtered);
-  }, [contracts, searchTerm, riskFilter]);
+  }, [contracts, searchTerm, riskFilter, workspaceFilter]);
+
+  // Organizations that have contracts in the list
+  const workspaces = Array.from(
+    new Map(contracts.flatMap(c => c.workspace ? [[c.workspace.id, c.workspace] as const] : [])).values()
+  );
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setRiskFilter('all');
+    setWorkspaceFilter('all');
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
   const getRiskBadge = (risk: 'low' | 'medium' | 'high') => {
     switch (risk) {
@@ -241,7 +292,7 @@ const History = () => {
             Analysis History
           </h1>
           <p className="text-muted-foreground text-lg">
-            Review your past contract analyses and insights
+            Review your past contract analyses and those shared with your organizations
           </p>
         </div>
 
@@ -296,8 +347,25 @@ const History = () => {
                       </SelectContent>
                     </Select>
                   </div>
+                  {workspaces.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Building2 className="w-4 h-4 text-muted-foreground" />
+                      <Select value={workspaceFilter} onValueChange={setWorkspaceFilter}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue placeholder="Filter by workspace" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Workspaces</SelectItem>
+                          <SelectItem value="personal">Personal</SelectItem>
+                          {workspaces.map(w => (
+                            <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
-                {(searchTerm || riskFilter !== 'all') && (
+                {(searchTerm || riskFilter !== 'all' || workspaceFilter !== 'all') && (
                   <div className="flex items-center justify-between mt-4 pt-4 border-t">
                     <p className="text-sm text-muted-foreground">
                       Showing {filteredContracts.length} of {contracts.length} contracts
@@ -305,10 +373,7 @@ const History = () => {
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      onClick={() => {
-                        setSearchTerm("");
-                        setRiskFilter('all');
-                      }}
+                      onClick={clearFilters}
                     >
                       Clear Filters
                     </Button>
@@ -327,10 +392,7 @@ const History = () => {
                   </p>
                   <Button 
                     variant="outline"
-                    onClick={() => {
-                      setSearchTerm("");
-                      setRiskFilter('all');
-                    }}
+                    onClick={clearFilters}
                   >
                     Clear Filters
                   </Button>
@@ -361,17 +423,38 @@ const History = () => {
                   
                   {/* Contracts */}
                   {filteredContracts.map((contract) => (
-                    <div key={contract.id} className="px-6 py-4 grid grid-cols-12 gap-4 items-center hover:bg-muted/30 transition-colors">
+                    <Fragment key={contract.id}>
+                    <div className="px-6 py-4 grid grid-cols-12 gap-4 items-center hover:bg-muted/30 transition-colors">
                       {/* Contract Title */}
                       <div className="col-span-12 md:col-span-4">
                         <div className="flex items-center gap-3">
                           <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center">
                             <FileText className="w-4 h-4 text-white" />
                           </div>
-                          <div>
+                          <div className="min-w-0">
                             <h3 className="font-medium truncate">
                               {contract.title || "Untitled Contract"}
                             </h3>
+                            {contract.workspace && (
+                              <span className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                                <Building2 className="w-3 h-3 shrink-0" />
+                                {contract.workspace.name}
+                              </span>
+                            )}
+                            {contract.versions.length > 1 && (
+                              <button
+                                onClick={() => toggleExpanded(contract.id)}
+                                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                                aria-expanded={expanded.has(contract.id)}
+                              >
+                                {expanded.has(contract.id) ? (
+                                  <ChevronDown className="w-3 h-3" />
+                                ) : (
+                                  <ChevronRight className="w-3 h-3" />
+                                )}
+                                Version {contract.versions[0].version} · {contract.versions.length} versions
+                              </button>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -420,6 +503,50 @@ const History = () => {
                         )}
                       </div>
                     </div>
+
+                    {/* Every version, newest first */}
+                    {expanded.has(contract.id) && contract.versions.map((version) => (
+                      <div key={version.id} className="px-6 py-2 grid grid-cols-12 gap-4 items-center bg-muted/20 text-sm">
+                        <div className="col-span-12 md:col-span-4 pl-11 truncate">
+                          <span className="font-medium">Version {version.version}</span>
+                          {version.title !== contract.title && (
+                            <span className="text-muted-foreground"> · {version.title || "Untitled Contract"}</span>
+                          )}
+                        </div>
+                        <div className="col-span-6 md:col-span-2 text-muted-foreground">
+                          {format(new Date(version.created_at), 'MMM d, yyyy')}
+                        </div>
+                        <div className="col-span-6 md:col-span-2">
+                          {version.latest_analysis ? getRiskBadge(version.latest_analysis.overall_risk) : null}
+                        </div>
+                        <div className="col-span-6 md:col-span-1">
+                          {version.latest_analysis ? getAnalysisTypeBadge(version.latest_analysis) : null}
+                        </div>
+                        <div className="col-span-12 md:col-span-3 flex justify-end">
+                          {version.latest_analysis && version.version > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/app/compare/${version.latest_analysis!.id}`)}
+                            >
+                              <GitCompare className="w-3 h-3 mr-1" />
+                              Compare
+                            </Button>
+                          )}
+                          {version.latest_analysis && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/app/report/${version.latest_analysis!.id}`)}
+                            >
+                              <ExternalLink className="w-3 h-3 mr-1" />
+                              Open
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    </Fragment>
                   ))}
                 </div>
               </div>
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ORG_ROLE_LABELS,
+  useOrganizations,
+  type OrgRole,
+  type Organization,
+  type OrganizationAction,
+} from "@/hooks/use-organizations";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Loader2, Mail, Plus, Trash2, UserPlus, Users, X } from "lucide-react";
+
+const ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  owner: 'Manages members and invites, and reviews contracts',
+  reviewer: 'Uploads, analyzes, reviews and comments on contracts',
+  viewer: 'Reads contracts and reports',
+};
+
+const ROLES = Object.keys(ORG_ROLE_LABELS) as OrgRole[];
+
+interface OrganizationCardProps {
+  organization: Organization;
+  currentUserId: string | null;
+  busy: boolean;
+  onUpdate: (request: OrganizationAction, success: string) => Promise<boolean>;
+}
+
+const OrganizationCard = ({ organization, currentUserId, busy, onUpdate }: OrganizationCardProps) => {
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrgRole>('reviewer');
+  const isOwner = organization.role === 'owner';
+
+  const handleInvite = async () => {
+    const sent = await onUpdate(
+      { action: 'invite', organization_id: organization.id, email: inviteEmail, role: inviteRole },
+      `Invited ${inviteEmail.trim()}`
+    );
+    if (sent) setInviteEmail("");
+  };
+
+  return (
+    <Card className="shadow-soft border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            {organization.name}
+          </span>
+          <Badge variant="outline">{ORG_ROLE_LABELS[organization.role]}</Badge>
+        </CardTitle>
+        <CardDescription>{ROLE_DESCRIPTIONS[organization.role]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Members ({organization.members.length})
+          </h4>
+          <ul className="divide-y rounded-lg border">
+            {organization.members.map(member => {
+              const isSelf = member.user_id === currentUserId;
+              return (
+                <li key={member.user_id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {member.email || 'Deleted user'}
+                      {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Joined {formatDistanceToNow(new Date(member.joined_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isOwner ? (
+                      <Select
+                        value={member.role}
+                        disabled={busy}
+                        onValueChange={(role) => onUpdate(
+                          { action: 'set_role', organization_id: organization.id, user_id: member.user_id, role: role as OrgRole },
+                          `${member.email || 'Member'} is now a ${ORG_ROLE_LABELS[role as OrgRole].toLowerCase()}`
+                        )}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{ORG_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{ORG_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {(isOwner || isSelf) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busy}
+                        title={isSelf ? "Leave organization" : "Remove member"}
+                        onClick={() => onUpdate(
+                          { action: 'remove_member', organization_id: organization.id, user_id: member.user_id },
+                          isSelf ? `You left ${organization.name}` : `Removed ${member.email || 'member'}`
+                        )}
+                      >
+                        {isSelf ? 'Leave' : <Trash2 className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              <UserPlus className="w-4 h-4" />
+              Invite by email
+            </h4>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="email"
+                placeholder="colleague@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && inviteEmail.trim() && handleInvite()}
+              />
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrgRole)}>
+                <SelectTrigger className="sm:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ORG_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleInvite} disabled={busy || !inviteEmail.trim()}>
+                Invite
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              They join when they sign in with this email address and accept the invite.
+            </p>
+
+            {organization.invites.length > 0 && (
+              <ul className="divide-y rounded-lg border">
+                {organization.invites.map(invite => (
+                  <li key={invite.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{invite.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Invited as {ORG_ROLE_LABELS[invite.role].toLowerCase()}{' '}
+                        {formatDistanceToNow(new Date(invite.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      title="Withdraw invite"
+                      onClick={() => onUpdate({ action: 'delete_invite', invite_id: invite.id }, `Withdrew the invite for ${invite.email}`)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Team = () => {
+  const { organizations, invites, loading, update } = useOrganizations();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setCurrentUserId(data.user?.id ?? null));
+  }, []);
+
+  const handleUpdate = async (request: OrganizationAction, success: string) => {
+    setBusy(true);
+    try {
+      await update(request);
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      console.error('Organization update error:', error);
+      toast({
+        title: "Couldn't update the organization",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await handleUpdate({ action: 'create', name: newName }, `Created ${newName.trim()}`);
+    if (created) setNewName("");
+  };
+
+  return (
+    <div className="p-6 md:p-8 lg:p-12">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold mb-2 bg-gradient-hero bg-clip-text text-transparent">
+            Team
+          </h1>
+          <p className="text-muted-foreground text-lg">
+            Share contracts with your organization and choose who can review them
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {invites.length > 0 && (
+              <Card className="shadow-soft border-0 border-primary/20">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mail className="w-5 h-5" />
+                    Invitations
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y rounded-lg border">
+                    {invites.map(invite => (
+                      <li key={invite.id} className="flex items-center justify-between gap-3 p-3">
+                        <p className="text-sm">
+                          Join <span className="font-medium">{invite.organization_name || 'an organization'}</span>{' '}
+                          as {ORG_ROLE_LABELS[invite.role].toLowerCase()}
+                        </p>
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => handleUpdate(
+                              { action: 'accept_invite', invite_id: invite.id },
+                              `You joined ${invite.organization_name || 'the organization'}`
+                            )}
+                          >
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => handleUpdate({ action: 'delete_invite', invite_id: invite.id }, 'Invite declined')}
+                          >
+                            Decline
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            {organizations.map(organization => (
+              <OrganizationCard
+                key={organization.id}
+                organization={organization}
+                currentUserId={currentUserId}
+                busy={busy}
+                onUpdate={handleUpdate}
+              />
+            ))}
+
+            <Card className="shadow-soft border-0">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="w-5 h-5" />
+                  New Organization
+                </CardTitle>
+                <CardDescription>
+                  {organizations.length === 0
+                    ? "You're not in an organization yet. Create one to share contracts with your team."
+                    : "You'll be its owner and can invite members."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    placeholder="Organization name"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+                  />
+                  <Button onClick={handleCreate} disabled={busy || !newName.trim()}>
+                    Create
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Team;
@@ -5,18 +5,60 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
-import { Upload as UploadIcon, FileText, Sparkles, Loader2, X, File, AlertCircle } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Upload as UploadIcon, FileText, Sparkles, Loader2, X, File, AlertCircle, FilePlus } from "lucide-react";
 import { useState, useEffect, useRef, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { ACTIVE_JOB_STORAGE_KEY, isFinishedJob, useAnalysisJob, type AnalysisJobStatus } from "@/hooks/use-analysis-job";
+import { canEditIn, useOrganizations } from "@/hooks/use-organizations";
+
+// Select value for the user's own workspace
+const PERSONAL_WORKSPACE = 'personal';
+
+const JOB_STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  queued: 'Waiting to start...',
+  extracting: 'Reading your file...',
+  analyzing: 'Analyzing clauses...',
+  done: 'Complete!',
+  failed: 'Analysis failed',
+};
+
+// An uploaded original in storage, as returned by upload-extract
+interface StoredUpload {
+  storage_path: string;
+  file_name: string;
+  file_mime: string | null;
+  file_size: number;
+  file_sha256: string | null;
+}
+
+// An earlier analysis of the same contract, as returned by analyze-contract
+interface DuplicateMatch {
+  kind: 'exact' | 'near';
+  contract_id: string;
+  analysis_id: string;
+  title: string | null;
+  analyzed_at: string;
+  similarity: number;
+}
+
+// A duplicate waiting on the user: open the earlier report, or re-send the request with rerun
+interface DuplicatePrompt {
+  match: DuplicateMatch;
+  request: Record<string, unknown>;
+}
 
 const Upload = () => {
   const [title, setTitle] = useState("");
   const [sourceText, setSourceText] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  // Linked to the contract when the extracted text is analyzed
+  const [storedUpload, setStoredUpload] = useState<StoredUpload | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [analyzeImmediately, setAnalyzeImmediately] = useState(false);
@@ -24,6 +66,20 @@ const Upload = () => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [canRetry, setCanRetry] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicatePrompt | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
+  // Contract being revised: the next analysis is saved as its new version
+  const [searchParams, setSearchParams] = useSearchParams();
+  const versionOf = searchParams.get('version_of');
+  const [versionBase, setVersionBase] = useState<{ title: string | null } | null>(null);
+  // Organization the new contract is saved to (null for the user's own); versions stay with their contract
+  const { organizations } = useOrganizations();
+  const editableOrganizations = organizations.filter(o => canEditIn(o.role));
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const organizationId = versionOf ? null : workspaceId;
+  // Background analysis being followed (survives leaving the page)
+  const [jobId, setJobId] = useState<string | null>(() => localStorage.getItem(ACTIVE_JOB_STORAGE_KEY));
+  const job = useAnalysisJob(jobId);
   const navigate = useNavigate();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -43,6 +99,23 @@ const Upload = () => {
     }
   }, []);
 
+  // Title of the contract a new version is being uploaded for
+  useEffect(() => {
+    setVersionBase(null);
+    if (!versionOf) return;
+    supabase
+      .from('contracts')
+      .select('title')
+      .eq('id', versionOf)
+      .maybeSingle()
+      .then(({ data }) => setVersionBase(data ?? null));
+  }, [versionOf]);
+
+  const clearVersionOf = () => {
+    searchParams.delete('version_of');
+    setSearchParams(searchParams, { replace: true });
+  };
+
   // Auto-save title to localStorage
   useEffect(() => {
     localStorage.setItem('clausewise-draft-title', title);
@@ -59,14 +132,67 @@ const Upload = () => {
     localStorage.removeItem('clausewise-draft-text');
   };
 
+  // Start following a queued analysis
+  const followJob = (id: string) => {
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, id);
+    setJobId(id);
+  };
+
+  const stopFollowingJob = () => {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setJobId(null);
+  };
+
+  // Open the report once the job is done; explain what went wrong when it fails
+  useEffect(() => {
+    if (!job || !isFinishedJob(job)) return;
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+
+    if (job.status === 'done' && job.analysis_id) {
+      clearDraft();
+      // e.g. the worker found the file was analyzed before and reused that analysis
+      if (job.notes && job.notes.length > 0) {
+        toast({ title: "Analysis ready", description: job.notes.join(' ') });
+      }
+      navigate(`/app/report/${job.analysis_id}`);
+      return;
+    }
+
+    const notes = job.notes || [];
+    toast({
+      title: job.error_code === 'CONTENT_BLOCKED' ? "Content blocked" : "Analysis failed",
+      description: [job.error || "Failed to analyze contract. Please try again.", ...notes].join(' '),
+      variant: "destructive",
+    });
+    setJobId(null);
+  }, [job, navigate, toast]);
+
   // File validation
   const validateFile = (file: File): string | null => {
-    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-    const allowedExtensions = ['.pdf', '.docx', '.txt'];
+    const allowedTypes = [
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+      'application/rtf',
+      'text/rtf',
+      'text/html',
+      'application/xhtml+xml',
+      'text/markdown',
+      'text/x-markdown',
+      'message/rfc822',
+      'text/plain',
+      'image/png',
+      'image/jpeg',
+      'image/tiff'
+    ];
+    const allowedExtensions = [
+      '.pdf', '.docx', '.odt', '.rtf', '.html', '.htm', '.md', '.markdown', '.eml', '.txt',
+      '.png', '.jpg', '.jpeg', '.tif', '.tiff'
+    ];
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
     
     if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
-      return 'Only PDF, DOCX, or TXT files are supported';
+      return 'Only PDF, DOCX, ODT, RTF, HTML, Markdown, TXT, EML emails, or scanned PNG/JPEG/TIFF files are supported';
     }
 
     const maxSize = 10 * 1024 * 1024; // 10MB
@@ -93,6 +219,7 @@ const Upload = () => {
 
     setIsUploading(true);
     setUploadProgress(0);
+    setStoredUpload(null);
     setUploadError(null);
     setCanRetry(false);
 
@@ -122,6 +249,12 @@ const Upload = () => {
       }
       formData.append('analyzeNow', analyzeImmediately.toString());
       formData.append('useAI', useAI.toString());
+      if (versionOf) {
+        formData.append('version_of', versionOf);
+      }
+      if (organizationId) {
+        formData.append('organization_id', organizationId);
+      }
 
       setUploadProgress(60);
 
@@ -135,12 +268,7 @@ const Upload = () => {
         const errorMessage = error.message || "Failed to extract text from file";
         
         // Handle specific error cases
-        if (errorMessage.includes('Text too long') || errorMessage.includes('413')) {
-          toast({
-            title: "Text too long — split it into smaller sections (≤ 60,000 chars).",
-            variant: "destructive",
-          });
-        } else if (errorMessage.includes('Too many requests') || errorMessage.includes('429')) {
+        if (errorMessage.includes('Too many requests') || errorMessage.includes('429')) {
           toast({
             title: "You're going fast — please wait a moment and try again.",
             variant: "destructive",
@@ -160,16 +288,22 @@ const Upload = () => {
 
       setUploadProgress(100);
 
+      // Analyzed before: ask before analyzing it again
+      if (analyzeImmediately && data.duplicate) {
+        setDuplicate({ match: data.duplicate, request: data.rerunRequest });
+        return;
+      }
+
       // Handle response based on analyzeNow flag
-      if (analyzeImmediately && data.analysis_id && data.redirect_to) {
-        // Navigate immediately to analysis results
-        clearDraft();
-        navigate(data.redirect_to);
+      if (analyzeImmediately && data.job_id) {
+        // The file is extracted and analyzed in the background; follow the job
+        followJob(data.job_id);
         return;
       }
 
       // Fill textarea with extracted text
       setSourceText(data.extractedText || '');
+      setStoredUpload(data.file ?? null);
       
       // Set title to returned title or fallback to filename without extension
       const extractedTitle = data.title || file.name.replace(/\.[^/.]+$/, "");
@@ -311,24 +445,23 @@ const Upload = () => {
       }
 
       // Call the analyze-contract edge function
+      const request = {
+        title: title.trim() || undefined,
+        source_text: sourceText.trim(),
+        useAI: useAI,
+        version_of: versionOf || undefined,
+        organization_id: organizationId || undefined,
+        ...storedUpload
+      };
       const { data, error } = await supabase.functions.invoke('analyze-contract', {
-        body: {
-          title: title.trim() || undefined,
-          source_text: sourceText.trim(),
-          useAI: useAI
-        }
+        body: request
       });
 
       if (error) {
         console.error('Analysis error:', error);
         
         // Handle specific error cases
-        if (error.message?.includes('Text too long') || error.message?.includes('413')) {
-          toast({
-            title: "Text too long — split it into smaller sections (≤ 60,000 chars).",
-            variant: "destructive",
-          });
-        } else if (error.message?.includes('Too many requests') || error.message?.includes('429')) {
+        if (error.message?.includes('Too many requests') || error.message?.includes('429')) {
           toast({
             title: "You're going fast — please wait a moment and try again.",
             variant: "destructive",
@@ -343,11 +476,14 @@ const Upload = () => {
         return;
       }
 
-      // Navigate to the report page with the analysis ID
-      navigate(`/app/report/${data.analysis_id}`);
-      
-      // Clear the draft after successful analysis
-      clearDraft();
+      // Analyzed before: ask before analyzing it again
+      if (data.duplicate) {
+        setDuplicate({ match: data.duplicate, request });
+        return;
+      }
+
+      // The analysis runs in the background; the report opens when it's done
+      followJob(data.job_id);
 
     } catch (error) {
       console.error('Unexpected error:', error);
@@ -361,6 +497,40 @@ const Upload = () => {
     }
   };
 
+  // Analyze the duplicate anyway (skips the duplicate check), optionally as a new
+  // version of the contract it resembles
+  const handleRerun = async (asVersionOf?: string) => {
+    if (!duplicate) return;
+    setIsRerunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('analyze-contract', {
+        body: { ...duplicate.request, rerun: true, ...(asVersionOf ? { version_of: asVersionOf } : {}) }
+      });
+
+      if (error) {
+        console.error('Re-run error:', error);
+        toast({
+          title: "Analysis failed",
+          description: error.message || "Failed to analyze contract. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setDuplicate(null);
+      followJob(data.job_id);
+    } catch (error) {
+      console.error('Unexpected error:', error);
+      toast({
+        title: "Something went wrong",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
   // Sample contract text for development testing
   const sampleContractText = `FREELANCE WEB DEVELOPMENT AGREEMENT
 
@@ -431,12 +601,86 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
               payment terms, and important clauses you should be aware of.
             </p>
 
+            {/* New version of an existing contract */}
+            {versionOf && (
+              <div className="max-w-3xl mx-auto mb-8 p-4 rounded-lg border border-primary/20 bg-background/60 flex items-center gap-3">
+                <FilePlus className="w-5 h-5 text-primary shrink-0" />
+                <p className="text-sm flex-1 min-w-0">
+                  New version of <span className="font-medium">{versionBase?.title || 'Untitled Contract'}</span>.
+                  It's listed with the earlier versions in History.
+                </p>
+                <Button variant="ghost" size="sm" className="text-xs shrink-0" onClick={clearVersionOf}>
+                  <X className="w-3 h-3 mr-1" />
+                  Not a new version
+                </Button>
+              </div>
+            )}
+
+            {/* Workspace the contract is saved to */}
+            {!versionOf && editableOrganizations.length > 0 && (
+              <div className="max-w-3xl mx-auto mb-8 p-4 rounded-lg border border-primary/20 bg-background/60 space-y-2">
+                <div className="flex items-center gap-3">
+                  <Label htmlFor="workspace" className="font-medium shrink-0">Workspace</Label>
+                  <Select
+                    value={workspaceId ?? PERSONAL_WORKSPACE}
+                    onValueChange={(value) => setWorkspaceId(value === PERSONAL_WORKSPACE ? null : value)}
+                  >
+                    <SelectTrigger id="workspace" className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={PERSONAL_WORKSPACE}>Personal (only you)</SelectItem>
+                      {editableOrganizations.map(o => (
+                        <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Contracts in an organization's workspace are shared with all of its members.
+                </p>
+              </div>
+            )}
+
+            {/* Background analysis progress */}
+            {jobId && (
+              <div className="max-w-3xl mx-auto mb-8 p-4 rounded-lg border border-primary/20 bg-background/60 space-y-3" aria-live="polite">
+                <div className="flex items-center gap-3">
+                  {job?.status === 'failed' ? (
+                    <AlertCircle className="w-5 h-5 text-red-600 shrink-0" />
+                  ) : (
+                    <Loader2 className="w-5 h-5 text-primary animate-spin shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">
+                      {job?.title || job?.file_name || 'Your contract'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {job ? JOB_STATUS_LABELS[job.status] : 'Starting...'}
+                    </p>
+                  </div>
+                  <span className="text-xs text-muted-foreground tabular-nums">{job?.progress ?? 0}%</span>
+                </div>
+                <Progress value={job?.progress ?? 0} className="w-full" />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    You can leave this page. The analysis keeps running and will appear in{' '}
+                    <Link to="/app/history" className="underline hover:no-underline">History</Link> when it's done.
+                  </p>
+                  <Button variant="ghost" size="sm" className="text-xs shrink-0" onClick={stopFollowingJob}>
+                    <X className="w-3 h-3 mr-1" />
+                    Hide
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* File Upload Area */}
             <div className="max-w-3xl mx-auto mb-8">
               <div className="text-center mb-4">
                 <h3 className="text-lg font-semibold mb-2">Upload Contract File</h3>
                 <p className="text-sm text-muted-foreground">
-                  Drag and drop a file or click to browse • PDF, DOCX, TXT • Max 10MB
+                  Drag and drop a file or click to browse • PDF, DOCX, ODT, RTF, HTML, Markdown, TXT, EML, scans (PNG, JPEG, TIFF) • Max 10MB
                 </p>
               </div>
               
@@ -463,7 +707,7 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf,.docx,.txt"
+                  accept=".pdf,.docx,.odt,.rtf,.html,.htm,.md,.markdown,.eml,.txt,.png,.jpg,.jpeg,.tif,.tiff"
                   onChange={handleFileInputChange}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                   disabled={isUploading}
@@ -515,6 +759,7 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                               onClick={(e) => {
                                 e.stopPropagation();
                                 setUploadedFile(null);
+                                setStoredUpload(null);
                                 setUploadError(null);
                                 setCanRetry(false);
                               }}
@@ -542,6 +787,7 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                             onClick={(e) => {
                               e.stopPropagation();
                               setUploadedFile(null);
+                              setStoredUpload(null);
                             }}
                             className="text-xs"
                           >
@@ -562,7 +808,7 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                       <p className="text-sm text-muted-foreground">
                         or click to browse files
                       </p>
-                      <div className="flex items-center justify-center gap-4 text-xs text-muted-foreground">
+                      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
                         <span className="flex items-center gap-1">
                           <File className="w-3 h-3" />
                           PDF
@@ -571,10 +817,26 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                           <File className="w-3 h-3" />
                           DOCX
                         </span>
+                        <span className="flex items-center gap-1">
+                          <File className="w-3 h-3" />
+                          ODT/RTF
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <File className="w-3 h-3" />
+                          HTML/MD
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <File className="w-3 h-3" />
+                          Email
+                        </span>
                         <span className="flex items-center gap-1">
                           <File className="w-3 h-3" />
                           TXT
                         </span>
+                        <span className="flex items-center gap-1">
+                          <File className="w-3 h-3" />
+                          Scans
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -668,9 +930,9 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
                   variant="hero" 
                   size="lg" 
                   className="px-8"
-                  disabled={isAnalyzing || !sourceText.trim()}
+                  disabled={isAnalyzing || !!jobId || !sourceText.trim()}
                 >
-                  {isAnalyzing ? (
+                  {isAnalyzing || jobId ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                       Analyzing...
@@ -687,6 +949,42 @@ ALL SERVICES ARE PROVIDED "AS IS" WITHOUT WARRANTY OF ANY KIND.`;
           </CardContent>
         </Card>
 
+        {/* Duplicate contract prompt */}
+        <AlertDialog open={!!duplicate} onOpenChange={(open) => { if (!open && !isRerunning) setDuplicate(null); }}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {duplicate?.match.kind === 'near' ? 'Similar contract found' : 'Already analyzed'}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {duplicate && (duplicate.match.kind === 'near'
+                  ? `A very similar contract (${Math.round(duplicate.match.similarity * 100)}% the same)`
+                  : 'You analyzed this contract')}
+                {duplicate && ` on ${new Date(duplicate.match.analyzed_at).toLocaleDateString()}`}
+                {duplicate?.match.title && ` as "${duplicate.match.title}"`}. Open that report, or analyze this one again?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isRerunning}>Cancel</AlertDialogCancel>
+              {duplicate?.match.kind === 'near' && !duplicate.request.version_of && (
+                <Button variant="outline" onClick={() => handleRerun(duplicate.match.contract_id)} disabled={isRerunning}>
+                  Save as new version
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => handleRerun()} disabled={isRerunning}>
+                {isRerunning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Re-run analysis
+              </Button>
+              <AlertDialogAction
+                disabled={isRerunning}
+                onClick={() => duplicate && navigate(`/app/report/${duplicate.match.analysis_id}`)}
+              >
+                Open report
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Quick tips */}
         <div className="mt-8 grid md:grid-cols-3 gap-6">
           <div className="p-4 border border-border/50 rounded-lg">
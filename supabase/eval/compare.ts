@@ -0,0 +1,27 @@
+/**
+ * Compare two evaluation reports written by run.ts --json
+ *
+ *   deno run --allow-read supabase/eval/compare.ts base.json head.json
+ *
+ * Prints per-category precision/recall deltas and, per contract, which clauses were
+ * newly found, newly missed, or newly flagged by mistake.
+ */
+
+import { renderComparison, type EvalReport } from './score.ts';
+
+async function main() {
+  const [basePath, headPath] = Deno.args;
+  if (!basePath || !headPath) {
+    throw new Error('Usage: compare.ts <base.json> <head.json>');
+  }
+  const base: EvalReport = JSON.parse(await Deno.readTextFile(basePath));
+  const head: EvalReport = JSON.parse(await Deno.readTextFile(headPath));
+  console.log(renderComparison(base, head));
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error(e instanceof Error ? e.message : e);
+    Deno.exit(1);
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Offline evaluation harness: scores an analyzer against the golden corpus
+ *
+ *   deno run -A supabase/eval/run.ts --analyzer rules
+ *   deno run -A supabase/eval/run.ts --analyzer openai --record     # live calls, saved as fixtures
+ *   deno run -A supabase/eval/run.ts --replay openai --json head.json  # offline, from fixtures
+ *   deno run -A supabase/eval/compare.ts base.json head.json
+ *
+ * Options:
+ *   --analyzer <id>      'rules' (default) or a registered AI provider id
+ *   --replay <id>        Replay responses recorded from provider <id> through the mock provider
+ *   --record             Save each live AI response under fixtures/<analyzer>/ for later replay
+ *   --min-severity <s>   Ignore flags below this severity (low, medium, high; default low)
+ *   --label <name>       Name shown in the report (defaults to the analyzer)
+ *   --json <path>        Also write the report as JSON, for compare.ts
+ *   --out <path>         Write the markdown report to a file instead of stdout
+ *
+ * Fixtures are keyed by the prompt fingerprint, so after editing the prompts they have to
+ * be recorded again. A replayed document without a fixture is scored on the rule-based
+ * flags instead, and the report lists it as a rules-only fallback.
+ */
+
+import { runRuleAnalyzer } from '../functions/_shared/ai/rule-analyzer.ts';
+import { getAnalyzer } from '../functions/_shared/ai/index.ts';
+import { describeLoadedPacks } from '../functions/_shared/ai/rule-packs.ts';
+import { promptFingerprint } from '../functions/_shared/ai/providers/common.ts';
+import { fixturePath } from '../functions/_shared/ai/providers/mock.ts';
+import { buildReport, renderReport, type EvalFlag, type GoldenContract } from './score.ts';
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+const CORPUS_DIR = new URL('./corpus/', import.meta.url);
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+function parseArgs(args: string[]): Record<string, string | true> {
+  const opts: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) continue;
+    const next = args[i + 1];
+    if (next && !next.startsWith('--')) {
+      opts[arg.slice(2)] = next;
+      i++;
+    } else {
+      opts[arg.slice(2)] = true;
+    }
+  }
+  return opts;
+}
+
+async function loadCorpus(): Promise<GoldenContract[]> {
+  const contracts: GoldenContract[] = [];
+  for await (const entry of Deno.readDir(CORPUS_DIR)) {
+    if (!entry.isFile || !entry.name.endsWith('.json')) continue;
+    contracts.push(JSON.parse(await Deno.readTextFile(new URL(entry.name, CORPUS_DIR))));
+  }
+  return contracts.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+async function main() {
+  const opts = parseArgs(Deno.args);
+  const replay = typeof opts.replay === 'string' ? opts.replay : null;
+  const analyzer = replay ? 'mock' : (typeof opts.analyzer === 'string' ? opts.analyzer : 'rules');
+  const record = opts.record === true;
+  const minSeverity = typeof opts['min-severity'] === 'string' ? opts['min-severity'] : 'low';
+  if (!(minSeverity in SEVERITY_RANK)) {
+    throw new Error(`Unknown --min-severity '${minSeverity}'`);
+  }
+  const keep = (f: EvalFlag) => SEVERITY_RANK[f.severity] >= SEVERITY_RANK[minSeverity as EvalFlag['severity']];
+
+  if (record && (analyzer === 'rules' || analyzer === 'mock')) {
+    throw new Error('--record needs a live AI provider (--analyzer openai|anthropic|local)');
+  }
+
+  const fixturesFor = (provider: string) => decodeURIComponent(new URL(`${provider}/`, FIXTURES_DIR).pathname);
+  if (replay) {
+    Deno.env.set('MOCK_AI_FIXTURES', fixturesFor(replay));
+  }
+
+  const corpus = await loadCorpus();
+  const runs: Array<{ contract: GoldenContract; flags: EvalFlag[] }> = [];
+  // Replayed documents that had no recorded response
+  const rulesFallback: string[] = [];
+
+  for (const contract of corpus) {
+    if (analyzer === 'rules') {
+      const result = await runRuleAnalyzer(contract.text);
+      runs.push({ contract, flags: result.flags.filter(keep) });
+      continue;
+    }
+
+    let result;
+    try {
+      result = await getAnalyzer(analyzer).analyze({ text: contract.text });
+    } catch (e) {
+      if (!replay || (e as { code?: string })?.code !== 'AI_FIXTURE_MISSING') throw e;
+      console.error(`No recorded ${replay} response for ${contract.id}; scoring it rules-only`);
+      rulesFallback.push(contract.id);
+      runs.push({ contract, flags: (await runRuleAnalyzer(contract.text)).flags.filter(keep) });
+      continue;
+    }
+    if (record) {
+      const path = await fixturePath(fixturesFor(analyzer), contract.text);
+      await Deno.mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify({ ...result, meta: { ...result.meta, raw: null } }, null, 2) + '\n');
+      console.error(`Recorded ${contract.id} → ${path}`);
+    }
+    runs.push({ contract, flags: result.flags.filter(keep) });
+  }
+
+  const report = buildReport(
+    {
+      label: typeof opts.label === 'string' ? opts.label : (replay ? `${replay} (replay)` : analyzer),
+      analyzer: `${replay ? `${replay} (replay)` : analyzer}${minSeverity !== 'low' ? `, severity ≥ ${minSeverity}` : ''}`,
+      prompt_fingerprint: await promptFingerprint(),
+      rule_packs: describeLoadedPacks().map((p) => `${p.id}@${p.version}`),
+      rules_fallback: rulesFallback
+    },
+    runs
+  );
+
+  if (typeof opts.json === 'string') {
+    await Deno.writeTextFile(opts.json, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  const markdown = renderReport(report);
+  if (typeof opts.out === 'string') {
+    await Deno.writeTextFile(opts.out, markdown);
+  } else {
+    console.log(markdown);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((e) => {
+    console.error(e instanceof Error ? e.message : e);
+    Deno.exit(1);
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * Scoring for the offline evaluation harness
+ * Compares analyzer flags against the golden annotations in ./corpus and renders
+ * stable, diffable markdown reports (no timestamps, sorted keys).
+ */
+
+import { anchorFlag } from '../functions/_shared/text/clauses.ts';
+import { loadRules } from '../functions/_shared/ai/rule-packs.ts';
+
+export interface GoldenAnnotation {
+  category: string;
+  /** Exact text of the clause in the contract that a reviewer should see flagged */
+  quote: string;
+}
+
+export interface GoldenContract {
+  id: string;
+  title: string;
+  text: string;
+  annotations: GoldenAnnotation[];
+}
+
+export interface EvalFlag {
+  clause: string;
+  severity: 'low' | 'medium' | 'high';
+  rationale?: string;
+  suggestion?: string;
+  category?: string;
+  span_start?: number | null;
+  span_end?: number | null;
+}
+
+export interface Score {
+  flags: number;
+  matched_flags: number;
+  annotations: number;
+  found_annotations: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ContractResult {
+  id: string;
+  score: Score;
+  missed: GoldenAnnotation[];
+  false_positives: Array<{ category: string; clause: string }>;
+}
+
+export interface EvalReport {
+  label: string;
+  analyzer: string;
+  prompt_fingerprint: string;
+  rule_packs: string[];
+  /** Contracts scored on rule-based flags because a replay had no recorded response for them */
+  rules_fallback?: string[];
+  overall: Score;
+  categories: Record<string, Score>;
+  contracts: ContractResult[];
+}
+
+const UNCATEGORIZED = 'uncategorized';
+
+interface Counts {
+  flags: number;
+  matched_flags: number;
+  annotations: number;
+  found_annotations: number;
+}
+
+function emptyCounts(): Counts {
+  return { flags: 0, matched_flags: 0, annotations: 0, found_annotations: 0 };
+}
+
+function toScore(c: Counts): Score {
+  return {
+    ...c,
+    precision: c.flags > 0 ? c.matched_flags / c.flags : null,
+    recall: c.annotations > 0 ? c.found_annotations / c.annotations : null
+  };
+}
+
+/**
+ * Category of a flag: its own (rule flags), else the rule-pack categories whose
+ * triggers appear in its clause, rationale or suggestion (AI flags)
+ */
+export function categorizeFlag(flag: EvalFlag): string[] {
+  if (flag.category) return [flag.category];
+  const haystack = [flag.clause, flag.rationale, flag.suggestion].filter(Boolean).join(' ');
+  const categories = new Set<string>();
+  for (const rule of loadRules()) {
+    if (rule.matchers.some((m) => { m.lastIndex = 0; return m.test(haystack); })) {
+      categories.add(rule.category);
+    }
+  }
+  return Array.from(categories);
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Score one contract
+ * A flag matches an annotation when their spans overlap and the flag's categories include
+ * the annotation's (a flag with no recognizable category matches on overlap alone).
+ * Unmatched flags are false positives; unmatched annotations are misses.
+ */
+export function scoreContract(
+  contract: GoldenContract,
+  flags: EvalFlag[],
+  byCategory: Map<string, Counts>
+): ContractResult {
+  const counts = emptyCounts();
+  const bump = (category: string, key: keyof Counts) => {
+    const c = byCategory.get(category) ?? emptyCounts();
+    c[key] += 1;
+    byCategory.set(category, c);
+    counts[key] += 1;
+  };
+
+  const golden = contract.annotations.map((a) => {
+    const start = contract.text.indexOf(a.quote);
+    if (start === -1) throw new Error(`Corpus '${contract.id}': quote not found in text: "${a.quote}"`);
+    return { ...a, start, end: start + a.quote.length, found: false };
+  });
+
+  const falsePositives: ContractResult['false_positives'] = [];
+  for (const flag of flags) {
+    const anchor = typeof flag.span_start === 'number' && typeof flag.span_end === 'number'
+      ? { span_start: flag.span_start, span_end: flag.span_end }
+      : anchorFlag(contract.text, flag);
+    const categories = categorizeFlag(flag);
+    const span = anchor.span_start === null || anchor.span_end === null
+      ? null
+      : { start: anchor.span_start, end: anchor.span_end };
+
+    const hit = span
+      ? golden.find((g) => overlaps(g, span) && (categories.length === 0 || categories.includes(g.category)))
+      : undefined;
+
+    const category = hit?.category ?? categories[0] ?? UNCATEGORIZED;
+    bump(category, 'flags');
+    if (hit) {
+      bump(category, 'matched_flags');
+      hit.found = true;
+    } else {
+      falsePositives.push({ category, clause: flag.clause });
+    }
+  }
+
+  for (const g of golden) {
+    bump(g.category, 'annotations');
+    if (g.found) bump(g.category, 'found_annotations');
+  }
+
+  return {
+    id: contract.id,
+    score: toScore(counts),
+    missed: golden.filter((g) => !g.found).map(({ category, quote }) => ({ category, quote })),
+    false_positives: falsePositives
+  };
+}
+
+/**
+ * Score a whole corpus run
+ */
+export function buildReport(
+  meta: Pick<EvalReport, 'label' | 'analyzer' | 'prompt_fingerprint' | 'rule_packs' | 'rules_fallback'>,
+  runs: Array<{ contract: GoldenContract; flags: EvalFlag[] }>
+): EvalReport {
+  const byCategory = new Map<string, Counts>();
+  const contracts = runs
+    .map(({ contract, flags }) => scoreContract(contract, flags, byCategory))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const overall = emptyCounts();
+  const categories: Record<string, Score> = {};
+  for (const name of Array.from(byCategory.keys()).sort()) {
+    const c = byCategory.get(name)!;
+    categories[name] = toScore(c);
+    overall.flags += c.flags;
+    overall.matched_flags += c.matched_flags;
+    overall.annotations += c.annotations;
+    overall.found_annotations += c.found_annotations;
+  }
+
+  return { ...meta, overall: toScore(overall), categories, contracts };
+}
+
+function pct(v: number | null): string {
+  return v === null ? '—' : `${(v * 100).toFixed(1)}%`;
+}
+
+function delta(a: number | null, b: number | null): string {
+  if (a === null || b === null) return '';
+  const d = (b - a) * 100;
+  if (Math.abs(d) < 0.05) return '±0';
+  return `${d > 0 ? '+' : ''}${d.toFixed(1)}`;
+}
+
+/**
+ * Markdown report for one run
+ */
+export function renderReport(report: EvalReport): string {
+  const lines = [
+    `# Evaluation: ${report.label}`,
+    '',
+    `- Analyzer: ${report.analyzer}`,
+    `- Prompt fingerprint: ${report.prompt_fingerprint}`,
+    `- Rule packs: ${report.rule_packs.join(', ')}`,
+    ...(report.rules_fallback?.length
+      ? [`- Rules-only (no recorded response): ${report.rules_fallback.length} of ${report.contracts.length} contracts`]
+      : []),
+    '',
+    '| Category | Precision | Recall | Flags | Matched | Annotations | Found |',
+    '|---|---|---|---|---|---|---|'
+  ];
+  const row = (name: string, s: Score) =>
+    `| ${name} | ${pct(s.precision)} | ${pct(s.recall)} | ${s.flags} | ${s.matched_flags} | ${s.annotations} | ${s.found_annotations} |`;
+  for (const [name, s] of Object.entries(report.categories)) lines.push(row(name, s));
+  lines.push(row('**overall**', report.overall));
+
+  for (const c of report.contracts) {
+    const fallback = report.rules_fallback?.includes(c.id) ? ' (rules-only, no recorded response)' : '';
+    lines.push('', `## ${c.id}${fallback}`, '', `Precision ${pct(c.score.precision)}, recall ${pct(c.score.recall)}`);
+    for (const m of c.missed) lines.push(`- missed (${m.category}): ${m.quote}`);
+    for (const fp of c.false_positives) lines.push(`- false positive (${fp.category}): ${fp.clause.replace(/\s+/g, ' ')}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Markdown comparison of two runs (e.g. two prompt or rule-pack versions), per category
+ */
+export function renderComparison(base: EvalReport, head: EvalReport): string {
+  const lines = [
+    `# Evaluation: ${base.label} → ${head.label}`,
+    '',
+    `| | ${base.label} | ${head.label} |`,
+    '|---|---|---|',
+    `| Analyzer | ${base.analyzer} | ${head.analyzer} |`,
+    `| Prompt fingerprint | ${base.prompt_fingerprint} | ${head.prompt_fingerprint} |`,
+    `| Rule packs | ${base.rule_packs.join(', ')} | ${head.rule_packs.join(', ')} |`,
+    `| Rules-only fallback | ${base.rules_fallback?.length ?? 0} | ${head.rules_fallback?.length ?? 0} |`,
+    '',
+    '| Category | Precision | Δ | Recall | Δ |',
+    '|---|---|---|---|---|'
+  ];
+
+  const names = Array.from(new Set([...Object.keys(base.categories), ...Object.keys(head.categories)])).sort();
+  const row = (name: string, a: Score | undefined, b: Score | undefined) =>
+    `| ${name} | ${pct(a?.precision ?? null)} → ${pct(b?.precision ?? null)} | ${delta(a?.precision ?? null, b?.precision ?? null)} ` +
+    `| ${pct(a?.recall ?? null)} → ${pct(b?.recall ?? null)} | ${delta(a?.recall ?? null, b?.recall ?? null)} |`;
+  for (const name of names) lines.push(row(name, base.categories[name], head.categories[name]));
+  lines.push(row('**overall**', base.overall, head.overall));
+
+  // Per-contract changes in what was missed or wrongly flagged
+  for (const id of Array.from(new Set([...base.contracts, ...head.contracts].map((c) => c.id))).sort()) {
+    const a = base.contracts.find((c) => c.id === id);
+    const b = head.contracts.find((c) => c.id === id);
+    const missedA = new Set(a?.missed.map((m) => m.quote) ?? []);
+    const missedB = new Set(b?.missed.map((m) => m.quote) ?? []);
+    const fpA = new Set(a?.false_positives.map((f) => f.clause) ?? []);
+    const fpB = new Set(b?.false_positives.map((f) => f.clause) ?? []);
+
+    const changes = [
+      ...[...missedA].filter((q) => !missedB.has(q)).map((q) => `- now found: ${q}`),
+      ...[...missedB].filter((q) => !missedA.has(q)).map((q) => `- newly missed: ${q}`),
+      ...[...fpA].filter((q) => !fpB.has(q)).map((q) => `- false positive fixed: ${q.replace(/\s+/g, ' ')}`),
+      ...[...fpB].filter((q) => !fpA.has(q)).map((q) => `- new false positive: ${q.replace(/\s+/g, ' ')}`)
+    ];
+    if (changes.length > 0) lines.push('', `## ${id}`, '', ...changes);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -1,7 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
-import { ANALYZE_COOLDOWN_SECONDS, MAX_ANALYZE_CHARS } from '../_shared/config/rules.ts';
+import { ANALYZE_COOLDOWN_SECONDS, ANALYSIS_JOB_STALE_MINUTES, AI_CHUNK_CHARS, AI_CHUNK_CONCURRENCY, AI_UNGROUNDED_FLAGS, DUPLICATE_SCAN_LIMIT, DUPLICATE_SIMILARITY, FLAG_REVIEW_NOTE_MAX_CHARS, OCR_ENABLED, OCR_MAX_PAGES, OCR_MIN_CONFIDENCE } from '../_shared/config/rules.ts';
+import { describeLoadedPacks } from '../_shared/ai/rule-packs.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -58,10 +59,32 @@ serve(async (req) => {
       });
     }
 
+    // How reviewers treated each rule's flags; most dismissed (likely false positives) first
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data: reviewStats, error: statsError } = await admin
+      .from('rule_review_stats')
+      .select('*')
+      .order('dismissed', { ascending: false })
+      .limit(50);
+    if (statsError) {
+      console.error('Rule review stats error:', statsError);
+    }
+
     // Return configuration values
     const config = {
       ANALYZE_COOLDOWN_SECONDS,
-      MAX_ANALYZE_CHARS,
+      ANALYSIS_JOB_STALE_MINUTES,
+      AI_CHUNK_CHARS,
+      AI_CHUNK_CONCURRENCY,
+      AI_UNGROUNDED_FLAGS,
+      OCR_ENABLED,
+      OCR_MAX_PAGES,
+      OCR_MIN_CONFIDENCE,
+      DUPLICATE_SIMILARITY,
+      DUPLICATE_SCAN_LIMIT,
+      FLAG_REVIEW_NOTE_MAX_CHARS,
+      RULE_PACKS: describeLoadedPacks(),
+      RULE_REVIEW_STATS: reviewStats || [],
     };
 
     console.log(`Debug rules accessed by user: ${user.email || user.id}`);
@@ -0,0 +1,175 @@
+/**
+ * Map-reduce AI analysis for contracts longer than a single model call can take
+ * Map: each section-aligned chunk is analyzed on its own (a few at a time).
+ * Reduce: flags are anchored back into the full text, overall risk is the highest
+ * chunk risk, and the chunk summaries are combined into one.
+ */
+
+import { runAIAnalysis, type AIFlag, type AIProviderId, type ContractAnalysisResult } from './index.ts';
+import { splitIntoChunks, type TextChunk } from '../text/chunking.ts';
+import { anchorFlag, type SpanMatch } from '../text/clauses.ts';
+import { AI_CHUNK_CHARS, AI_CHUNK_CONCURRENCY } from '../config/rules.ts';
+
+type Severity = 'low' | 'medium' | 'high';
+
+export type ChunkedAIFlag = AIFlag & {
+  span_start: number | null;
+  span_end: number | null;
+  context: string;
+  keywords: string[];
+  span_match: SpanMatch | null;
+};
+
+export interface ChunkedAnalysisResult extends Omit<ContractAnalysisResult, 'flags'> {
+  flags: ChunkedAIFlag[];
+  chunks: number;
+  failed_chunks: number;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+const MAX_SUMMARY_CHARS = 600;
+
+type ChunkOutcome =
+  | { chunk: TextChunk; ok: true; result: ContractAnalysisResult }
+  | { chunk: TextChunk; ok: false; error: unknown };
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await worker(items[i]);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
+
+/**
+ * Anchor a chunk's flags within the chunk, then shift offsets into the full text
+ */
+function anchorChunkFlags(chunk: TextChunk, flags: AIFlag[]): ChunkedAIFlag[] {
+  return flags.map((f) => {
+    const anchor = anchorFlag(chunk.text, f);
+    return {
+      ...f,
+      ...anchor,
+      span_start: anchor.span_start === null ? null : anchor.span_start + chunk.start,
+      span_end: anchor.span_end === null ? null : anchor.span_end + chunk.start
+    };
+  });
+}
+
+/**
+ * One summary for the whole contract: the most concerning parts first, bounded in length
+ */
+function combineSummaries(succeeded: Array<{ chunk: TextChunk; result: ContractAnalysisResult }>, total: number): string {
+  const ordered = [...succeeded].sort(
+    (a, b) => SEVERITY_RANK[b.result.overall_risk] - SEVERITY_RANK[a.result.overall_risk] || a.chunk.index - b.chunk.index
+  );
+
+  let summary = `Reviewed in ${total} parts.`;
+  for (const { result } of ordered) {
+    const part = result.summary.trim();
+    if (!part) continue;
+    if (summary.length + part.length + 1 > MAX_SUMMARY_CHARS) break;
+    summary += ` ${part}`;
+  }
+  return summary;
+}
+
+/**
+ * Analyze a contract of any length with the given AI provider (defaults to AI_PROVIDER)
+ * Texts that fit in one chunk go through a single call, unchanged.
+ * Throws when every chunk fails (or a chunk is blocked by moderation) so the caller can fall back.
+ * `onChunkDone` is called with (finished, total) after each chunk, for progress reporting.
+ */
+export async function runChunkedAIAnalysis(
+  text: string,
+  provider?: AIProviderId,
+  onChunkDone?: (finished: number, total: number) => void
+): Promise<ChunkedAnalysisResult> {
+  const chunks = splitIntoChunks(text, AI_CHUNK_CHARS);
+  const t0 = Date.now();
+
+  if (chunks.length > 1) {
+    console.log(`Long contract: analyzing ${text.length} characters in ${chunks.length} chunks`);
+  }
+
+  let finished = 0;
+  const outcomes = await mapWithConcurrency<TextChunk, ChunkOutcome>(chunks, AI_CHUNK_CONCURRENCY, async (chunk) => {
+    try {
+      return { chunk, ok: true, result: await runAIAnalysis(chunk.text, provider) };
+    } catch (error) {
+      console.warn(`AI analysis of chunk ${chunk.index + 1}/${chunks.length} failed: ${(error as Error)?.message || error}`);
+      return { chunk, ok: false, error };
+    } finally {
+      onChunkDone?.(++finished, chunks.length);
+    }
+  });
+
+  const failed = outcomes.filter((o): o is Extract<ChunkOutcome, { ok: false }> => !o.ok);
+  const blocked = failed.find((o) => (o.error as { code?: string })?.code === 'CONTENT_BLOCKED');
+  if (blocked) throw blocked.error;
+  if (failed.length === outcomes.length) throw failed[0].error;
+
+  const succeeded = outcomes.filter((o): o is Extract<ChunkOutcome, { ok: true }> => o.ok);
+
+  // A single chunk is a plain single-call analysis
+  if (chunks.length === 1) {
+    const { result } = succeeded[0];
+    return { ...result, flags: anchorChunkFlags(chunks[0], result.flags), chunks: 1, failed_chunks: 0 };
+  }
+
+  // Reduce: flags in document order, de-duplicated where two chunks reported the same span
+  const seen = new Set<string>();
+  const flags: ChunkedAIFlag[] = [];
+  for (const { chunk, result } of succeeded) {
+    for (const f of anchorChunkFlags(chunk, result.flags)) {
+      const key = `${f.span_start ?? f.clause.toLowerCase().replace(/\s+/g, ' ')}:${f.span_end ?? ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      flags.push(f);
+    }
+  }
+  flags.sort((a, b) => (a.span_start ?? Number.MAX_SAFE_INTEGER) - (b.span_start ?? Number.MAX_SAFE_INTEGER));
+
+  const overall_risk = succeeded.reduce<Severity>(
+    (max, { result }) => (SEVERITY_RANK[result.overall_risk] > SEVERITY_RANK[max] ? result.overall_risk : max),
+    'low'
+  );
+
+  let summary = combineSummaries(succeeded, chunks.length);
+  if (failed.length > 0) {
+    summary += ` (Note: ${failed.length} of ${chunks.length} parts could not be analyzed by AI; rule-based checks still cover them.)`;
+  }
+
+  // Telemetry: totals across calls, wall-clock latency, per-chunk raw responses
+  const metas = succeeded.map((o) => o.result.meta).filter((m): m is NonNullable<ContractAnalysisResult['meta']> => !!m);
+  const sum = (pick: (m: (typeof metas)[number]) => number | null | undefined) =>
+    metas.some((m) => typeof pick(m) === 'number') ? metas.reduce((acc, m) => acc + (pick(m) ?? 0), 0) : null;
+
+  return {
+    summary,
+    overall_risk,
+    flags,
+    chunks: chunks.length,
+    failed_chunks: failed.length,
+    meta: metas.length > 0
+      ? {
+          provider: metas[0].provider,
+          model: metas[0].model ?? null,
+          tokens_in: sum((m) => m.tokens_in),
+          tokens_out: sum((m) => m.tokens_out),
+          latency_ms: Date.now() - t0,
+          raw: {
+            chunks: succeeded.map((o) => ({ index: o.chunk.index, start: o.chunk.start, end: o.chunk.end, raw: o.result.meta?.raw ?? null }))
+          }
+        }
+      : undefined
+  };
+}
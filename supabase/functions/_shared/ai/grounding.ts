@@ -0,0 +1,50 @@
+/**
+ * Grounding check for AI flags
+ * A model can quote a clause that isn't in the contract (or paraphrase one beyond
+ * recognition). Only flags anchored to the source text verbatim or fuzzily count as
+ * grounded; a keyword-only or missing anchor means the quote could not be found.
+ */
+
+import { AI_UNGROUNDED_FLAGS } from '../config/rules.ts';
+import type { SpanMatch } from '../text/clauses.ts';
+
+export type GroundingPolicy = 'mark' | 'drop';
+
+export interface GroundingResult<T> {
+  flags: Array<T & { verified: boolean }>;
+  /** Flags whose quote could not be found in the source text */
+  ungrounded: number;
+  /** Ungrounded flags left out of the result ('drop' policy) */
+  dropped: number;
+}
+
+/**
+ * Whether an anchored flag's quote was found in the source text
+ */
+export function isGrounded(flag: { span_match?: SpanMatch | null }): boolean {
+  return flag.span_match === 'exact' || flag.span_match === 'fuzzy';
+}
+
+/**
+ * Check anchored AI flags against the source text
+ * Grounded flags are kept as verified; the others are kept as unverified or dropped
+ * depending on `policy` (AI_UNGROUNDED_FLAGS by default)
+ */
+export function groundAIFlags<T extends { span_match?: SpanMatch | null }>(
+  flags: T[],
+  policy: GroundingPolicy = AI_UNGROUNDED_FLAGS
+): GroundingResult<T> {
+  const kept: Array<T & { verified: boolean }> = [];
+  let ungrounded = 0;
+
+  for (const flag of flags) {
+    const verified = isGrounded(flag);
+    if (!verified) {
+      ungrounded++;
+      if (policy === 'drop') continue;
+    }
+    kept.push({ ...flag, verified });
+  }
+
+  return { flags: kept, ungrounded, dropped: policy === 'drop' ? ungrounded : 0 };
+}
@@ -1,42 +1,121 @@
-import { analyzeWithOpenAI, type ContractAnalysisResult } from "./providers/openai.ts";
+import { analyzeWithOpenAI } from "./providers/openai.ts";
+import { analyzeWithAnthropic, isAnthropicConfigured } from "./providers/anthropic.ts";
+import { analyzeWithLocal, isLocalConfigured } from "./providers/local.ts";
+import { analyzeWithMock } from "./providers/mock.ts";
+import { aiError, type AIProviderId, type ContractAnalysisResult } from "./providers/common.ts";
+import { AI_PLAN_PROVIDERS, AI_REQUEST_PROVIDERS } from "../config/rules.ts";
 
 /**
  * Common interface for AI analysis providers
  */
 export interface AIAnalyzer {
+  id: AIProviderId;
+  /** Whether the secrets or endpoint the provider needs are set */
+  isConfigured(): boolean;
   analyze(input: { text: string }): Promise<ContractAnalysisResult>;
 }
 
 /**
- * OpenAI adapter implementation
+ * Registry of available providers
  */
-const openaiAnalyzer: AIAnalyzer = {
-  async analyze({ text }) {
-    return analyzeWithOpenAI({ text });
+const PROVIDERS: Record<AIProviderId, AIAnalyzer> = {
+  openai: {
+    id: 'openai',
+    isConfigured: () => Boolean(Deno.env.get('OPENAI_API_KEY')),
+    analyze: ({ text }) => analyzeWithOpenAI({ text })
+  },
+  anthropic: {
+    id: 'anthropic',
+    isConfigured: isAnthropicConfigured,
+    analyze: ({ text }) => analyzeWithAnthropic({ text })
+  },
+  local: {
+    id: 'local',
+    isConfigured: isLocalConfigured,
+    analyze: ({ text }) => analyzeWithLocal({ text })
+  },
+  mock: {
+    id: 'mock',
+    isConfigured: () => true,
+    analyze: ({ text }) => analyzeWithMock({ text })
   }
 };
 
+export function isProviderId(value: unknown): value is AIProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/**
+ * Provider configured through AI_PROVIDER, used when neither the request nor the plan picks one
+ */
+export function defaultProviderId(): string {
+  return (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase();
+}
+
+/**
+ * Look up a provider by id (defaults to AI_PROVIDER)
+ * Unknown ids are an error rather than a silent fallback to another provider
+ */
+export function getAnalyzer(provider: string = defaultProviderId()): AIAnalyzer {
+  const id = provider.toLowerCase();
+  if (!isProviderId(id)) {
+    throw aiError(`Unknown AI provider: ${provider}`, 'AI_PROVIDER_UNKNOWN');
+  }
+  return PROVIDERS[id];
+}
+
 /**
- * Factory function to get the appropriate AI analyzer based on configuration
+ * Choose the provider for an analysis
+ * Precedence: the request (when it names a provider requests may choose), then the
+ * user's plan (AI_PLAN_PROVIDERS), then AI_PROVIDER.
  */
-export function getAnalyzer(): AIAnalyzer {
-  const provider = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase();
-  
-  switch (provider) {
-    case 'openai':
-      return openaiAnalyzer;
-    default:
-      console.warn(`Unknown AI provider: ${provider}, falling back to OpenAI`);
-      return openaiAnalyzer; // fallback
+export function resolveProvider({ requested, plan }: { requested?: string | null; plan?: string | null }): {
+  provider: AIProviderId;
+  source: 'request' | 'plan' | 'default';
+} {
+  if (requested) {
+    const id = requested.toLowerCase();
+    if (!isProviderId(id)) {
+      throw aiError(`Unknown AI provider: ${requested}`, 'AI_PROVIDER_UNKNOWN');
+    }
+    if (!AI_REQUEST_PROVIDERS.includes(id)) {
+      throw aiError(`AI provider '${id}' cannot be selected per request`, 'AI_PROVIDER_NOT_ALLOWED');
+    }
+    if (!PROVIDERS[id].isConfigured()) {
+      throw aiError(`AI provider '${id}' is not configured`, 'AI_NOT_CONFIGURED');
+    }
+    return { provider: id, source: 'request' };
   }
+
+  const planProvider = plan ? AI_PLAN_PROVIDERS[plan] : undefined;
+  if (planProvider && isProviderId(planProvider)) {
+    if (PROVIDERS[planProvider].isConfigured()) {
+      return { provider: planProvider, source: 'plan' };
+    }
+    console.warn(`AI provider '${planProvider}' for plan '${plan}' is not configured, using default`);
+  }
+
+  return { provider: getAnalyzer().id, source: 'default' };
+}
+
+/**
+ * Which providers are registered and configured, for debug endpoints
+ */
+export function describeProviders(): Array<{ id: AIProviderId; configured: boolean }> {
+  return Object.values(PROVIDERS).map((p) => ({ id: p.id, configured: p.isConfigured() }));
 }
 
 /**
  * Convenience helper for running AI analysis
  */
-export async function runAIAnalysis(text: string) {
-  const analyzer = getAnalyzer();
+export async function runAIAnalysis(text: string, provider?: string) {
+  const analyzer = getAnalyzer(provider);
   return analyzer.analyze({ text });
 }
 
-export { type ContractAnalysisResult, type AIFlag } from './providers/openai.ts';
\ No newline at end of file
+export {
+  type ContractAnalysisResult,
+  type AIFlag,
+  type AIProviderId,
+  type AIResultMeta
+} from './providers/common.ts';
@@ -24,11 +24,14 @@ interface ModerationResponse {
 /**
  * Ensure input text is safe for AI processing using OpenAI's moderation API
  * Throws ModerationError if content is flagged, allows through on API failures
+ * @param provider - AI provider the text is about to be sent to (defaults to AI_PROVIDER)
  */
-export async function ensureSafeInput(text: string): Promise<void> {
+export async function ensureSafeInput(
+  text: string,
+  provider: string = getEnvWithDefault('AI_PROVIDER', 'openai')
+): Promise<void> {
   // Only run moderation for OpenAI provider
-  const provider = getEnvWithDefault('AI_PROVIDER', 'openai').toLowerCase();
-  if (provider !== 'openai') {
+  if (provider.toLowerCase() !== 'openai') {
     return; // Allow through for non-OpenAI providers
   }
 
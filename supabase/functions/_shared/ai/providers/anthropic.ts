@@ -0,0 +1,113 @@
+import { getEnvWithDefault } from '../../env-utils.ts';
+import {
+  CLAUSEWISE_JSON_SCHEMA,
+  SYSTEM_PROMPT,
+  aiError,
+  buildUserPrompt,
+  callWithSchemaRetry,
+  extractJsonString,
+  parseModelJson,
+  prepareInput,
+  withTruncationNote,
+  type AIResultMeta,
+  type ContractAnalysisResult
+} from './common.ts';
+
+const ANTHROPIC_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicResponse = {
+  model?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: { message?: string };
+};
+
+/**
+ * Whether the Anthropic adapter has the secrets it needs
+ */
+export function isAnthropicConfigured(): boolean {
+  return Boolean(Deno.env.get('ANTHROPIC_API_KEY'));
+}
+
+async function callAnthropicJSON({
+  apiKey,
+  model,
+  system,
+  user
+}: {
+  apiKey: string;
+  model: string;
+  system: string;
+  user: string;
+}): Promise<{ parsed: unknown; meta: AIResultMeta }> {
+  // The Messages API has no JSON mode; the schema goes in the system prompt
+  // and the reply is pre-filled with "{" so the model starts the object directly
+  const body = {
+    model,
+    max_tokens: 2048,
+    temperature: 0.2,
+    system: `${system}\nJSON schema:\n${JSON.stringify(CLAUSEWISE_JSON_SCHEMA)}`,
+    messages: [
+      { role: 'user', content: user },
+      { role: 'assistant', content: '{' }
+    ]
+  };
+
+  const t0 = Date.now();
+  const res = await fetch(ANTHROPIC_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  const raw: AnthropicResponse = await res.json().catch(() => ({}));
+  const latency_ms = Date.now() - t0;
+  if (!res.ok) {
+    throw aiError(raw?.error?.message || `Anthropic HTTP ${res.status}`, 'AI_ERROR', raw);
+  }
+
+  const text = extractJsonString(raw);
+  if (!text) {
+    throw aiError('No JSON found in model output', 'AI_BAD_OUTPUT', raw);
+  }
+
+  // Put back the pre-filled opening brace
+  const parsed = parseModelJson(text.trimStart().startsWith('{') ? text : `{${text}`, raw);
+
+  return {
+    parsed,
+    meta: {
+      provider: 'anthropic',
+      model: raw?.model ?? model,
+      tokens_in: raw?.usage?.input_tokens ?? null,
+      tokens_out: raw?.usage?.output_tokens ?? null,
+      latency_ms,
+      raw
+    }
+  };
+}
+
+/**
+ * Analyze a contract with the Anthropic Messages API
+ * Configured through ANTHROPIC_API_KEY and ANTHROPIC_MODEL
+ */
+export async function analyzeWithAnthropic({ text }: { text: string }): Promise<ContractAnalysisResult> {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  if (!apiKey) {
+    throw aiError('Missing required environment variable: ANTHROPIC_API_KEY', 'AI_NOT_CONFIGURED');
+  }
+  const model = getEnvWithDefault('ANTHROPIC_MODEL', 'claude-3-5-sonnet-latest');
+
+  const { inputText, truncated } = prepareInput(text);
+  const user = buildUserPrompt(inputText, truncated);
+
+  const res = await callWithSchemaRetry(
+    (u) => callAnthropicJSON({ apiKey, model, system: SYSTEM_PROMPT, user: u }),
+    user
+  );
+  return withTruncationNote(res, truncated);
+}
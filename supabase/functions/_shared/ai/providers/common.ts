@@ -0,0 +1,235 @@
+/**
+ * Pieces shared by every AI provider adapter: the result contract, the JSON schema
+ * and prompts, and parsing/validation of model output
+ */
+
+type Severity = 'low' | 'medium' | 'high';
+type AIFlag = { clause: string; severity: Severity; rationale: string; suggestion: string };
+
+/**
+ * Identifiers of the registered providers (see ../index.ts)
+ */
+export type AIProviderId = 'openai' | 'anthropic' | 'local' | 'mock';
+
+/**
+ * Telemetry every provider reports alongside its result
+ */
+export interface AIResultMeta {
+  provider: AIProviderId;
+  model?: string | null;
+  tokens_in?: number | null;
+  tokens_out?: number | null;
+  latency_ms?: number | null;
+  raw?: unknown;
+}
+
+/**
+ * Contract analysis result structure with telemetry
+ */
+export interface ContractAnalysisResult {
+  summary: string;
+  overall_risk: Severity;
+  flags: AIFlag[];
+  meta?: AIResultMeta;
+}
+
+export { type AIFlag };
+
+/**
+ * Errors raised by providers carry a code the caller can branch on
+ * (AI_ERROR, AI_BAD_OUTPUT, AI_BAD_JSON, AI_NOT_CONFIGURED) and the raw response when there is one
+ */
+export type AIError = Error & { code: string; raw?: unknown };
+
+export function aiError(message: string, code: string, raw?: unknown): AIError {
+  const err = new Error(message) as AIError;
+  err.code = code;
+  if (raw !== undefined) err.raw = raw;
+  return err;
+}
+
+// Keep model input bounded; long contracts are chunked before reaching a provider
+export const MAX_INPUT_CHARS = 60_000;
+
+export const CLAUSEWISE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    overall_risk: { enum: ['low', 'medium', 'high'] },
+    summary: { type: 'string', minLength: 1, maxLength: 600 },
+    flags: {
+      type: 'array',
+      maxItems: 40,
+      items: {
+        type: 'object',
+        properties: {
+          clause: { type: 'string', minLength: 1, maxLength: 600 },
+          severity: { enum: ['low', 'medium', 'high'] },
+          rationale: { type: 'string', minLength: 1, maxLength: 400 },
+          suggestion: { type: 'string', minLength: 1, maxLength: 400 }
+        },
+        required: ['clause', 'severity', 'rationale', 'suggestion'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['overall_risk', 'summary', 'flags'],
+  additionalProperties: false
+} as const;
+
+export const SYSTEM_PROMPT = `
+You are an expert contract analyst focused on protecting freelancers.
+Return STRICT JSON only, matching the provided JSON schema exactly.
+Style: concise, practical, no fluff. No disclaimers of any kind in JSON.
+If the text appears boilerplate/incomplete, say so briefly in "summary".
+` as const;
+
+export const JSON_RETRY_SUFFIX =
+  `\n\nIf your previous message contained anything other than JSON or did not match the schema, REPRINT JSON-ONLY that strictly conforms to the schema.`;
+
+export function buildUserPrompt(text: string, truncated: boolean) {
+  return [
+    `Analyze the following contract text for freelancer-relevant risks.`,
+    `Identify clauses and produce flags with severity, brief rationale, and a practical suggestion.`,
+    `Do not include any text outside JSON.`,
+    truncated
+      ? `NOTE: The input was truncated for length. If needed, reflect this at the end of "summary".`
+      : ``,
+    `--- CONTRACT TEXT START ---\n${text}\n--- CONTRACT TEXT END ---`
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Hex SHA-256 of a string
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Short fingerprint of the prompts sent to every provider
+ * Recorded fixtures are keyed by it, so editing SYSTEM_PROMPT or buildUserPrompt
+ * never silently replays responses recorded for the old prompt.
+ */
+export async function promptFingerprint(): Promise<string> {
+  const prompt = `${SYSTEM_PROMPT}\n${buildUserPrompt('', false)}\n${buildUserPrompt('', true)}`;
+  return (await sha256Hex(prompt)).slice(0, 12);
+}
+
+/**
+ * Truncate input to MAX_INPUT_CHARS, reporting whether anything was cut
+ */
+export function prepareInput(text: string): { inputText: string; truncated: boolean } {
+  const truncated = text.length > MAX_INPUT_CHARS;
+  return { inputText: truncated ? text.slice(0, MAX_INPUT_CHARS) : text, truncated };
+}
+
+export function withTruncationNote(res: ContractAnalysisResult, truncated: boolean): ContractAnalysisResult {
+  if (truncated) res.summary = res.summary.trim() + ' (Note: analysis ran on a truncated excerpt.)';
+  return res;
+}
+
+type RawResponse = {
+  output?: Array<{ content?: Array<{ text?: unknown }> }>;
+  output_text?: unknown;
+  choices?: Array<{ message?: { content?: unknown }; text?: unknown }>;
+  content?: unknown;
+  message?: unknown;
+};
+
+// Try to extract JSON string from multiple possible model response shapes
+export function extractJsonString(response: unknown): string | null {
+  const raw = (response ?? {}) as RawResponse;
+
+  // Responses API (typical)
+  const r1 = raw?.output?.[0]?.content?.[0]?.text;
+  if (r1 && typeof r1 === 'string') return r1;
+
+  // Some Responses API SDKs expose output_text
+  const r2 = raw?.output_text;
+  if (r2 && typeof r2 === 'string') return r2;
+
+  // Chat Completions
+  const r3 = raw?.choices?.[0]?.message?.content;
+  if (r3 && typeof r3 === 'string') return r3;
+
+  // Anthropic Messages
+  const r4 = Array.isArray(raw?.content)
+    ? (raw.content as Array<{ type?: string; text?: unknown }>).find((c) => c?.type === 'text')?.text
+    : null;
+  if (r4 && typeof r4 === 'string') return r4;
+
+  // Fallback: find first {...} block
+  const texty =
+    raw?.message ??
+    raw?.content ??
+    raw?.choices?.[0]?.text ??
+    (typeof response === 'string' ? response : '');
+  if (typeof texty === 'string') {
+    const m = texty.match(/\{[\s\S]*\}$/m);
+    if (m) return m[0];
+  }
+  return null;
+}
+
+/**
+ * Parse model text as JSON, tolerating a surrounding ```json fence or prose
+ */
+export function parseModelJson(jsonText: string, raw: unknown): unknown {
+  const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : jsonText;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const block = candidate.match(/\{[\s\S]*\}/);
+    if (block) {
+      try {
+        return JSON.parse(block[0]);
+      } catch {
+        // fall through
+      }
+    }
+    throw aiError('Invalid JSON in model output', 'AI_BAD_JSON', raw);
+  }
+}
+
+// Minimal structural check (avoid extra deps)
+export function looksLikeSchema(value: unknown): value is Omit<ContractAnalysisResult, 'meta'> {
+  const o = value as Partial<ContractAnalysisResult> | null;
+  return (
+    !!o &&
+    (o.overall_risk === 'low' || o.overall_risk === 'medium' || o.overall_risk === 'high') &&
+    typeof o.summary === 'string' &&
+    Array.isArray(o.flags) &&
+    o.flags.every(
+      (f: Partial<AIFlag>) =>
+        f &&
+        typeof f.clause === 'string' &&
+        (f.severity === 'low' || f.severity === 'medium' || f.severity === 'high') &&
+        typeof f.rationale === 'string' &&
+        typeof f.suggestion === 'string'
+    )
+  );
+}
+
+/**
+ * Run one model call, re-asking once for JSON-only output when the first reply
+ * does not match the schema
+ */
+export async function callWithSchemaRetry(
+  call: (user: string) => Promise<{ parsed: unknown; meta: AIResultMeta }>,
+  user: string
+): Promise<ContractAnalysisResult> {
+  const first = await call(user);
+  if (looksLikeSchema(first.parsed)) {
+    return { ...first.parsed, meta: first.meta };
+  }
+
+  const second = await call(user + JSON_RETRY_SUFFIX);
+  if (!looksLikeSchema(second.parsed)) {
+    throw aiError('Model output does not match schema after retry', 'AI_BAD_OUTPUT', second.meta?.raw ?? first.meta?.raw);
+  }
+  return { ...second.parsed, meta: second.meta };
+}
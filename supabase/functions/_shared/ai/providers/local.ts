@@ -0,0 +1,107 @@
+import { getEnvWithDefault } from '../../env-utils.ts';
+import {
+  SYSTEM_PROMPT,
+  aiError,
+  buildUserPrompt,
+  callWithSchemaRetry,
+  extractJsonString,
+  parseModelJson,
+  prepareInput,
+  withTruncationNote,
+  type AIResultMeta,
+  type ContractAnalysisResult
+} from './common.ts';
+
+type ChatCompletionResponse = {
+  model?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string } | string;
+};
+
+/**
+ * Whether a local endpoint has been configured (Ollama, llama.cpp server, vLLM...)
+ */
+export function isLocalConfigured(): boolean {
+  return Boolean(Deno.env.get('LOCAL_AI_BASE_URL'));
+}
+
+async function callLocalJSON({
+  baseUrl,
+  apiKey,
+  model,
+  system,
+  user
+}: {
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+  system: string;
+  user: string;
+}): Promise<{ parsed: unknown; meta: AIResultMeta }> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const t0 = Date.now();
+  const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user }
+      ],
+      temperature: 0.2,
+      // Supported by Ollama and llama.cpp; servers that don't know it ignore it
+      response_format: { type: 'json_object' },
+      stream: false
+    })
+  });
+
+  const raw: ChatCompletionResponse = await res.json().catch(() => ({}));
+  const latency_ms = Date.now() - t0;
+  if (!res.ok) {
+    const message = typeof raw?.error === 'string' ? raw.error : raw?.error?.message;
+    throw aiError(message || `Local AI HTTP ${res.status}`, 'AI_ERROR', raw);
+  }
+
+  const text = extractJsonString(raw);
+  if (!text) {
+    throw aiError('No JSON found in model output', 'AI_BAD_OUTPUT', raw);
+  }
+
+  return {
+    parsed: parseModelJson(text, raw),
+    meta: {
+      provider: 'local',
+      model: raw?.model ?? model,
+      tokens_in: raw?.usage?.prompt_tokens ?? null,
+      tokens_out: raw?.usage?.completion_tokens ?? null,
+      latency_ms,
+      raw
+    }
+  };
+}
+
+/**
+ * Analyze a contract with an OpenAI-compatible local endpoint
+ * Configured through LOCAL_AI_BASE_URL (e.g. http://localhost:11434/v1), LOCAL_AI_MODEL
+ * and an optional LOCAL_AI_API_KEY
+ */
+export async function analyzeWithLocal({ text }: { text: string }): Promise<ContractAnalysisResult> {
+  const baseUrl = Deno.env.get('LOCAL_AI_BASE_URL');
+  if (!baseUrl) {
+    throw aiError('Missing required environment variable: LOCAL_AI_BASE_URL', 'AI_NOT_CONFIGURED');
+  }
+  const model = getEnvWithDefault('LOCAL_AI_MODEL', 'llama3.1');
+  const apiKey = Deno.env.get('LOCAL_AI_API_KEY');
+
+  const { inputText, truncated } = prepareInput(text);
+  const user = buildUserPrompt(inputText, truncated);
+
+  const res = await callWithSchemaRetry(
+    (u) => callLocalJSON({ baseUrl, apiKey, model, system: SYSTEM_PROMPT, user: u }),
+    user
+  );
+  return withTruncationNote(res, truncated);
+}
@@ -0,0 +1,90 @@
+import { runRuleAnalyzer } from '../rule-analyzer.ts';
+import {
+  aiError,
+  looksLikeSchema,
+  prepareInput,
+  promptFingerprint,
+  sha256Hex,
+  withTruncationNote,
+  type ContractAnalysisResult
+} from './common.ts';
+
+const MOCK_MODEL = 'mock-1';
+
+/**
+ * Where the recorded response for `text` lives under a fixtures directory:
+ * <dir>/<prompt fingerprint>/<text hash>.json
+ */
+export async function fixturePath(dir: string, text: string): Promise<string> {
+  const textHash = (await sha256Hex(text)).slice(0, 16);
+  return `${dir.replace(/\/+$/, '')}/${await promptFingerprint()}/${textHash}.json`;
+}
+
+/**
+ * Replay a response recorded from a real provider (see supabase/eval/run.ts --record)
+ */
+async function replayFixture(dir: string, text: string): Promise<ContractAnalysisResult> {
+  const path = await fixturePath(dir, text);
+  let recorded: unknown;
+  try {
+    recorded = JSON.parse(await Deno.readTextFile(path));
+  } catch {
+    throw aiError(`No recorded response at ${path}; record one for the current prompts first`, 'AI_FIXTURE_MISSING');
+  }
+  if (!looksLikeSchema(recorded)) {
+    throw aiError(`Recorded response at ${path} does not match the schema`, 'AI_BAD_OUTPUT');
+  }
+
+  const meta = (recorded as ContractAnalysisResult).meta;
+  return {
+    overall_risk: recorded.overall_risk,
+    summary: recorded.summary,
+    flags: recorded.flags,
+    meta: {
+      provider: 'mock',
+      model: meta?.model ? `replay:${meta.provider}/${meta.model}` : `replay:${MOCK_MODEL}`,
+      tokens_in: meta?.tokens_in ?? null,
+      tokens_out: meta?.tokens_out ?? null,
+      latency_ms: 0,
+      raw: null
+    }
+  };
+}
+
+/**
+ * Deterministic stand-in for a real model, for tests, evaluation and local development
+ * With MOCK_AI_FIXTURES set it replays responses recorded from a real provider for the
+ * current prompts; otherwise the same text always yields the same result: the rule-based
+ * findings, reshaped as AI flags.
+ * Set MOCK_AI_ERROR to an error code (e.g. AI_ERROR) to exercise the fallback paths.
+ */
+export async function analyzeWithMock({ text }: { text: string }): Promise<ContractAnalysisResult> {
+  const failWith = Deno.env.get('MOCK_AI_ERROR');
+  if (failWith) {
+    throw aiError('Mock provider failure', failWith);
+  }
+
+  const fixturesDir = Deno.env.get('MOCK_AI_FIXTURES');
+  if (fixturesDir) {
+    return replayFixture(fixturesDir, text);
+  }
+
+  const { inputText, truncated } = prepareInput(text);
+  const rules = await runRuleAnalyzer(inputText);
+
+  const result: ContractAnalysisResult = {
+    overall_risk: rules.overall_risk,
+    summary: rules.summary,
+    flags: rules.flags.map(({ clause, severity, rationale, suggestion }) => ({ clause, severity, rationale, suggestion })),
+    meta: {
+      provider: 'mock',
+      model: MOCK_MODEL,
+      // Rough token estimate so usage telemetry has realistic numbers
+      tokens_in: Math.ceil(inputText.length / 4),
+      tokens_out: Math.ceil(JSON.stringify(rules.flags).length / 4),
+      latency_ms: 0,
+      raw: null
+    }
+  };
+  return withTruncationNote(result, truncated);
+}
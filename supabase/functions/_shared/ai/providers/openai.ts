@@ -1,121 +1,18 @@
 import { getAIConfig } from '../../env-utils.ts';
-
-type Severity = 'low' | 'medium' | 'high';
-type AIFlag = { clause: string; severity: Severity; rationale: string; suggestion: string };
-
-/**
- * Contract analysis result structure with telemetry
- */
-export interface ContractAnalysisResult {
-  summary: string;
-  overall_risk: Severity;
-  flags: AIFlag[];
-  meta?: {
-    provider: 'openai';
-    model?: string | null;
-    tokens_in?: number | null;
-    tokens_out?: number | null;
-    latency_ms?: number | null;
-    raw?: any;
-  };
-}
+import {
+  CLAUSEWISE_JSON_SCHEMA,
+  SYSTEM_PROMPT,
+  buildUserPrompt,
+  callWithSchemaRetry,
+  extractJsonString,
+  prepareInput,
+  withTruncationNote,
+  type ContractAnalysisResult
+} from './common.ts';
 
 // Re-export for compatibility
 export type AIResult = ContractAnalysisResult;
-export { type AIFlag };
-
-const REQUIRED_PROVIDER = 'openai';
-
-const CLAUSEWISE_JSON_SCHEMA = {
-  type: 'object',
-  properties: {
-    overall_risk: { enum: ['low', 'medium', 'high'] },
-    summary: { type: 'string', minLength: 1, maxLength: 600 },
-    flags: {
-      type: 'array',
-      maxItems: 40,
-      items: {
-        type: 'object',
-        properties: {
-          clause: { type: 'string', minLength: 1, maxLength: 600 },
-          severity: { enum: ['low', 'medium', 'high'] },
-          rationale: { type: 'string', minLength: 1, maxLength: 400 },
-          suggestion: { type: 'string', minLength: 1, maxLength: 400 }
-        },
-        required: ['clause', 'severity', 'rationale', 'suggestion'],
-        additionalProperties: false
-      }
-    }
-  },
-  required: ['overall_risk', 'summary', 'flags'],
-  additionalProperties: false
-} as const;
-
-const SYSTEM_PROMPT = `
-You are an expert contract analyst focused on protecting freelancers.
-Return STRICT JSON only, matching the provided JSON schema exactly.
-Style: concise, practical, no fluff. No disclaimers of any kind in JSON.
-If the text appears boilerplate/incomplete, say so briefly in "summary".
-` as const;
-
-function buildUserPrompt(text: string, truncated: boolean) {
-  return [
-    `Analyze the following contract text for freelancer-relevant risks.`,
-    `Identify clauses and produce flags with severity, brief rationale, and a practical suggestion.`,
-    `Do not include any text outside JSON.`,
-    truncated
-      ? `NOTE: The input was truncated for length. If needed, reflect this at the end of "summary".`
-      : ``,
-    `--- CONTRACT TEXT START ---\n${text}\n--- CONTRACT TEXT END ---`
-  ]
-    .filter(Boolean)
-    .join('\n');
-}
-
-// Try to extract JSON string from multiple possible OpenAI response shapes
-function extractJsonString(raw: any): string | null {
-  // Responses API (typical)
-  const r1 = raw?.output?.[0]?.content?.[0]?.text;
-  if (r1 && typeof r1 === 'string') return r1;
-
-  // Some Responses API SDKs expose output_text
-  const r2 = raw?.output_text;
-  if (r2 && typeof r2 === 'string') return r2;
-
-  // Chat Completions
-  const r3 = raw?.choices?.[0]?.message?.content;
-  if (r3 && typeof r3 === 'string') return r3;
-
-  // Fallback: find first {...} block
-  const texty =
-    raw?.message ??
-    raw?.content ??
-    raw?.choices?.[0]?.text ??
-    (typeof raw === 'string' ? raw : '');
-  if (typeof texty === 'string') {
-    const m = texty.match(/\{[\s\S]*\}$/m);
-    if (m) return m[0];
-  }
-  return null;
-}
-
-// Minimal structural check (avoid extra deps)
-function looksLikeSchema(o: any): o is Omit<ContractAnalysisResult, 'meta'> {
-  return (
-    o &&
-    (o.overall_risk === 'low' || o.overall_risk === 'medium' || o.overall_risk === 'high') &&
-    typeof o.summary === 'string' &&
-    Array.isArray(o.flags) &&
-    o.flags.every(
-      (f: any) =>
-        f &&
-        typeof f.clause === 'string' &&
-        (f.severity === 'low' || f.severity === 'medium' || f.severity === 'high') &&
-        typeof f.rationale === 'string' &&
-        typeof f.suggestion === 'string'
-    )
-  );
-}
+export { type ContractAnalysisResult, type AIFlag } from './common.ts';
 
 async function callOpenAIJSON({
   apiKey,
@@ -191,7 +88,7 @@ async function callOpenAIJSON({
     throw err;
   }
 
-  let parsed: any;
+  let parsed: unknown;
   try {
     parsed = JSON.parse(jsonText);
   } catch (e) {
@@ -214,12 +111,6 @@ async function callOpenAIJSON({
 }
 
 export async function analyzeWithOpenAI({ text }: { text: string }): Promise<ContractAnalysisResult> {
-  if ((Deno.env.get('AI_PROVIDER') || REQUIRED_PROVIDER).toLowerCase() !== REQUIRED_PROVIDER) {
-    const err: any = new Error('AI provider not supported');
-    err.code = 'AI_ERROR';
-    throw err;
-  }
-
   // Read AI config and sanitize model
   const { apiKey, model: cfgModel } = getAIConfig();
   let model = cfgModel;
@@ -230,42 +121,15 @@ export async function analyzeWithOpenAI({ text }: { text: string }): Promise<Con
   }
 
   // Truncate to keep context bounded
-  const MAX = 60_000;
-  const truncated = text.length > MAX;
-  const inputText = truncated ? text.slice(0, MAX) : text;
+  const { inputText, truncated } = prepareInput(text);
 
   const system = SYSTEM_PROMPT;
   const user = buildUserPrompt(inputText, truncated);
 
   // Helper to run a full attempt (with JSON retry) for a given model
   const runAttempt = async (mdl: string): Promise<ContractAnalysisResult> => {
-    let first: any;
-    try {
-      first = await callOpenAIJSON({ apiKey, model: mdl, system, user });
-    } catch (e: any) {
-      // Bubble up to caller to decide fallback
-      throw e;
-    }
-
-    if (!looksLikeSchema(first.parsed)) {
-      const retryUser =
-        user +
-        `\n\nIf your previous message contained anything other than JSON or did not match the schema, REPRINT JSON-ONLY that strictly conforms to the schema.`;
-      const second = await callOpenAIJSON({ apiKey, model: mdl, system, user: retryUser });
-      if (!looksLikeSchema(second.parsed)) {
-        const err: any = new Error('Model output does not match schema after retry');
-        err.code = 'AI_BAD_OUTPUT';
-        err.raw = second.meta?.raw ?? first.meta?.raw;
-        throw err;
-      }
-      const res: ContractAnalysisResult = { ...second.parsed, meta: second.meta };
-      if (truncated) res.summary = res.summary.trim() + ' (Note: analysis ran on a truncated excerpt.)';
-      return res;
-    }
-
-    const res: ContractAnalysisResult = { ...first.parsed, meta: first.meta };
-    if (truncated) res.summary = res.summary.trim() + ' (Note: analysis ran on a truncated excerpt.)';
-    return res;
+    const res = await callWithSchemaRetry((u) => callOpenAIJSON({ apiKey, model: mdl, system, user: u }), user);
+    return withTruncationNote(res, truncated);
   };
 
   // Primary attempt with configured model; on error, try fallbacks automatically
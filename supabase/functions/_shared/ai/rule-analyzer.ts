@@ -1,153 +1,192 @@
 /**
- * Rule-based contract analysis using pattern matching
+ * Rule-based contract analysis using declarative rule packs (see rule-packs.ts)
  * This is the fallback analyzer when AI is unavailable
  */
 
+import { loadRules, type CompiledRule } from './rule-packs.ts';
+import {
+  analyzeMatchContext,
+  isHeadingOnly,
+  type MatchContext,
+  type MatchStructure,
+  type PartyRole
+} from '../text/clause-context.ts';
+
+type Severity = 'low' | 'medium' | 'high';
+
 interface Flag {
   clause: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: Severity;
   rationale: string;
   suggestion: string;
+  category?: string;
+  rule_id?: string;
+  rule_version?: number;
+  rule_pack?: string;
+  rule_pack_version?: string;
+  span_start?: number;
+  span_end?: number;
+  match_context?: MatchStructure;
+  party?: PartyRole | null;
 }
 
 interface RuleAnalysisResult {
-  overall_risk: 'low' | 'medium' | 'high';
+  overall_risk: Severity;
   summary: string;
   flags: Flag[];
 }
 
-const patterns = [
-  "indemn", "limitation of liability", "liability cap", "arbitration", "jurisdiction",
-  "auto-renew", "renewal", "assignment", "confidential", "termination for convenience",
-  "late fee", "interest", "intellectual property", "ip ownership", "non-solicit",
-  "noncompete", "non-compete", "warranty", "as is", "force majeure", "governing law"
-];
-
-const severityMap: { [key: string]: 'low' | 'medium' | 'high' } = {
-  "indemn": "high",
-  "limitation of liability": "high", 
-  "liability cap": "high",
-  "ip ownership": "high",
-  "noncompete": "high",
-  "non-compete": "high",
-  "arbitration": "medium",
-  "jurisdiction": "medium",
-  "assignment": "medium",
-  "termination for convenience": "medium",
-  "confidential": "medium",
-  "warranty": "medium",
-  "auto-renew": "low",
-  "renewal": "low",
-  "late fee": "low",
-  "interest": "low",
-  "force majeure": "low",
-  "governing law": "low",
-  "non-solicit": "medium",
-  "intellectual property": "medium",
-  "as is": "medium"
-};
-
-const rationaleMap: { [key: string]: string } = {
-  "indemn": "Indemnification clauses can expose you to unlimited liability for third-party claims.",
-  "limitation of liability": "Liability limitations may prevent you from recovering damages for breaches.",
-  "liability cap": "Liability caps can restrict compensation for significant losses or damages.",
-  "ip ownership": "IP ownership terms may transfer your work rights to the client permanently.",
-  "noncompete": "Non-compete clauses can restrict your ability to work with other clients.",
-  "non-compete": "Non-compete clauses can restrict your ability to work with other clients.",
-  "arbitration": "Mandatory arbitration limits your right to pursue claims in court.",
-  "jurisdiction": "Jurisdiction clauses may require disputes to be resolved in inconvenient locations.",
-  "assignment": "Assignment rights allow the client to transfer the contract without your consent.",
-  "termination for convenience": "Termination for convenience allows abrupt contract cancellation without cause.",
-  "confidential": "Confidentiality terms may be overly broad and restrict your future work.",
-  "warranty": "Warranty clauses may create ongoing obligations and liability exposure.",
-  "auto-renew": "Auto-renewal clauses can extend commitments beyond your intended timeframe.",
-  "renewal": "Renewal terms may lock you into unfavorable conditions for extended periods.",
-  "late fee": "Late fee provisions can result in additional charges for delayed payments.",
-  "interest": "Interest charges on overdue payments can accumulate significant costs.",
-  "force majeure": "Force majeure clauses define what events excuse performance delays.",
-  "governing law": "Governing law determines which jurisdiction's laws apply to disputes.",
-  "non-solicit": "Non-solicitation clauses may restrict your ability to work with the client's contacts.",
-  "intellectual property": "IP clauses define ownership and usage rights for created work.",
-  "as is": "As-is provisions limit warranties and may reduce your legal protections."
-};
-
-const suggestionMap: { [key: string]: string } = {
-  "indemn": "Negotiate mutual indemnification or cap your indemnity obligations to project value.",
-  "limitation of liability": "Request mutual liability limitations or minimum liability floors.",
-  "liability cap": "Ensure caps don't apply to your own negligence or IP infringement claims.",
-  "ip ownership": "Retain rights to pre-existing work and general methodologies developed.",
-  "noncompete": "Limit scope to direct competitors and specific time/geographic boundaries.",
-  "non-compete": "Limit scope to direct competitors and specific time/geographic boundaries.",
-  "arbitration": "Negotiate for mediation first, or mutual agreement to arbitrate.",
-  "jurisdiction": "Choose a neutral jurisdiction or your home jurisdiction for disputes.",
-  "assignment": "Require written consent for assignments or limit to corporate transactions.",
-  "termination for convenience": "Negotiate notice periods and payment for work completed plus costs.",
-  "confidential": "Define confidentiality scope clearly and include reasonable exceptions.",
-  "warranty": "Limit warranties to professional standards and exclude consequential damages.",
-  "auto-renew": "Include opt-out notice periods and right to modify terms upon renewal.",
-  "renewal": "Ensure renewal terms are subject to renegotiation and rate adjustments.",
-  "late fee": "Cap late fees at reasonable amounts and provide grace periods for payment.",
-  "interest": "Negotiate reasonable interest rates and payment plan options.",
-  "force majeure": "Ensure events include circumstances beyond your reasonable control.",
-  "governing law": "Choose laws from a jurisdiction familiar to both parties.",
-  "non-solicit": "Limit to employees you directly worked with and reasonable time periods.",
-  "intellectual property": "Clarify work-for-hire vs. licensed work and retain portfolio rights.",
-  "as is": "Request specific warranties for critical deliverables and fitness for purpose."
-};
-
-function findClauseContext(text: string, pattern: string, startIndex: number): string {
-  const sentences = text.split(/[.!?]+/);
-  let charCount = 0;
-  
-  for (const sentence of sentences) {
-    const sentenceStart = charCount;
-    const sentenceEnd = charCount + sentence.length;
-    
-    if (startIndex >= sentenceStart && startIndex <= sentenceEnd) {
-      return sentence.trim() || text.substring(Math.max(0, startIndex - 120), startIndex + 120);
+/**
+ * Every position at which any of the rule's triggers matches, in document order
+ */
+function findMatchIndexes(rule: CompiledRule, text: string): number[] {
+  const indexes = new Set<number>();
+  for (const matcher of rule.matchers) {
+    for (const m of text.matchAll(matcher)) {
+      indexes.add(m.index!);
     }
-    
-    charCount = sentenceEnd + 1;
   }
-  
-  return text.substring(Math.max(0, startIndex - 120), startIndex + 120);
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/**
+ * Character offsets of the sentence containing `index`
+ * Sentences end at ./!/? followed by whitespace (so "1.5%" or "12.3" don't split) or at a blank line
+ */
+function findSentenceSpan(text: string, index: number): { start: number; end: number } {
+  const boundary = /[.!?](?=\s|$)|\n\s*\n/g;
+  let start = 0;
+  let end = text.length;
+
+  let m: RegExpExecArray | null;
+  while ((m = boundary.exec(text)) !== null) {
+    const boundaryEnd = m.index + m[0].length;
+    if (boundaryEnd <= index) {
+      start = boundaryEnd;
+    } else {
+      // Keep the terminating punctuation with the sentence, but not a blank line
+      end = m[0].startsWith('\n') ? m.index : boundaryEnd;
+      break;
+    }
+  }
+
+  // Trim surrounding whitespace so the span covers only the sentence text
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+
+  if (end <= start) {
+    return { start: Math.max(0, index - 120), end: Math.min(text.length, index + 120) };
+  }
+  return { start, end };
+}
+
+// Preference when several matches of a rule share a sentence: a real obligation beats a definition or a heading
+const STRUCTURE_RANK: Record<MatchStructure, number> = { operative: 2, definition: 1, heading: 0 };
+
+function pickRepresentative(contexts: MatchContext[]): MatchContext {
+  return contexts.reduce((best, c) => {
+    const rank = (x: MatchContext) => STRUCTURE_RANK[x.structure] * 2 + (x.negated || x.excluded ? 0 : 1);
+    return rank(c) > rank(best) ? c : best;
+  });
+}
+
+function lowerSeverity(severity: Severity): Severity {
+  return severity === 'high' ? 'medium' : 'low';
 }
 
 /**
- * Run rule-based contract analysis using pattern matching
+ * Decide how a rule match should be reported given its context
+ * Returns null when the match is not a real clause (negated outright, or a bare heading)
+ */
+function assessMatch(
+  rule: CompiledRule,
+  ctx: MatchContext
+): { severity: Severity; note: string | null } | null {
+  if (ctx.structure === 'definition') {
+    return { severity: 'low', note: 'This is a definition; review the clauses that rely on it.' };
+  }
+
+  // Who the clause favors: a burden on the other side, or a right held by the user, protects the user
+  let favorsUser = false;
+  if (rule.polarity && (ctx.party === 'user' || ctx.party === 'counterparty')) {
+    const hurtsParty = rule.polarity === 'burden' ? ctx.party : (ctx.party === 'user' ? 'counterparty' : 'user');
+    favorsUser = hurtsParty === 'counterparty';
+  }
+
+  // "No non-compete shall apply": the clause rules the concept out
+  if (ctx.excluded) return null;
+
+  if (ctx.negated) {
+    // A negated direction-neutral clause, or one we can't attribute to a party: nothing to flag
+    if (!rule.polarity || ctx.party === null || ctx.party === 'mutual') return null;
+    // Negation flips who the clause favors ("Contractor shall not be required to indemnify")
+    favorsUser = !favorsUser;
+  }
+
+  if (favorsUser) {
+    return { severity: 'low', note: 'In this clause it appears to work in your favor, so the severity was lowered.' };
+  }
+  if (rule.polarity && ctx.party === 'mutual') {
+    return { severity: lowerSeverity(rule.severity), note: 'This clause appears to apply to both parties.' };
+  }
+  return { severity: rule.severity, note: null };
+}
+
+/**
+ * Run rule-based contract analysis, flagging every sentence in which a rule fires
  */
 export async function runRuleAnalyzer(source_text: string): Promise<RuleAnalysisResult> {
   console.log('Running rule-based analysis...');
   
   const flags: Flag[] = [];
-  const lowerText = source_text.toLowerCase();
-  const foundPatterns = new Set<string>();
-
-  // Search for patterns
-  for (const pattern of patterns) {
-    const index = lowerText.indexOf(pattern.toLowerCase());
-    if (index !== -1 && !foundPatterns.has(pattern)) {
-      foundPatterns.add(pattern);
-      
-      const clause = findClauseContext(source_text, pattern, index);
-      const severity = severityMap[pattern] || 'low';
-      const rationale = rationaleMap[pattern] || 'This clause may require careful review.';
-      const suggestion = suggestionMap[pattern] || 'Consider negotiating more favorable terms.';
-      
+
+  for (const rule of loadRules()) {
+    // Several matches of the same rule in one sentence collapse into a single flag
+    const bySentence = new Map<number, { span: { start: number; end: number }; contexts: MatchContext[] }>();
+
+    for (const index of findMatchIndexes(rule, source_text)) {
+      const span = findSentenceSpan(source_text, index);
+      const entry = bySentence.get(span.start) ?? { span, contexts: [] };
+      entry.contexts.push(analyzeMatchContext(source_text, span, index));
+      bySentence.set(span.start, entry);
+    }
+
+    for (const { span, contexts } of bySentence.values()) {
+      // A bare heading (e.g. a table-of-contents line) is not a clause
+      if (isHeadingOnly(source_text, span)) continue;
+
+      const ctx = pickRepresentative(contexts);
+      const assessment = assessMatch(rule, ctx);
+      if (!assessment) continue;
+
+      const clause = source_text.substring(span.start, span.end).trim();
+
       flags.push({
         clause: clause.length > 240 ? clause.substring(0, 237) + '...' : clause,
-        severity,
-        rationale,
-        suggestion
+        severity: assessment.severity,
+        rationale: assessment.note ? `${rule.rationale} ${assessment.note}` : rule.rationale,
+        suggestion: rule.suggestion,
+        category: rule.category,
+        rule_id: rule.id,
+        rule_version: rule.version,
+        rule_pack: rule.pack_id,
+        rule_pack_version: rule.pack_version,
+        span_start: span.start,
+        span_end: span.end,
+        match_context: ctx.structure,
+        party: ctx.party
       });
     }
   }
 
+  // Report flags in document order
+  flags.sort((a, b) => (a.span_start ?? 0) - (b.span_start ?? 0));
+
   // Compute overall risk
   const hasHigh = flags.some(flag => flag.severity === 'high');
   const hasMedium = flags.some(flag => flag.severity === 'medium');
   
-  let overall_risk: 'low' | 'medium' | 'high';
+  let overall_risk: Severity;
   if (hasHigh) {
     overall_risk = 'high';
   } else if (hasMedium) {
@@ -0,0 +1,171 @@
+/**
+ * Declarative rule packs for the rule-based analyzer
+ * Rules are plain JSON data; this module validates and compiles them into matchers
+ */
+
+import corePack from '../config/rule-packs/core.json' with { type: 'json' };
+import { RULE_PACKS } from '../config/rules.ts';
+
+type Severity = 'low' | 'medium' | 'high';
+
+/**
+ * Triggers that make a rule fire. Phrases are matched case-insensitively as
+ * literal substrings; regex entries are compiled with the `gi` flags.
+ */
+export interface RuleTriggers {
+  phrases?: string[];
+  regex?: string[];
+}
+
+/**
+ * A single rule as stored in a JSON pack
+ */
+export interface RuleDefinition {
+  id: string;
+  version: number;
+  category: string;
+  severity: Severity;
+  triggers: RuleTriggers;
+  rationale: string;
+  suggestion: string;
+  /**
+   * Who a match hurts, used to adjust severity by party direction:
+   * 'burden' hurts the party that carries the obligation (indemnify, non-compete),
+   * 'right' hurts the party on the other side of it (terminate for convenience, liability cap).
+   * Rules without a polarity are direction-neutral (governing law, force majeure).
+   */
+  polarity?: 'burden' | 'right';
+}
+
+/**
+ * A versioned collection of rules
+ */
+export interface RulePack {
+  id: string;
+  version: string;
+  description?: string;
+  rules: RuleDefinition[];
+}
+
+/**
+ * A rule ready for matching, tagged with the pack it came from
+ */
+export interface CompiledRule extends RuleDefinition {
+  pack_id: string;
+  pack_version: string;
+  matchers: RegExp[];
+}
+
+const BUNDLED_PACKS: Record<string, unknown> = {
+  core: corePack
+};
+
+const SEVERITIES = new Set(['low', 'medium', 'high']);
+const POLARITIES = new Set(['burden', 'right']);
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === 'string' && v.trim().length > 0;
+}
+
+/**
+ * Validate the shape of a rule pack loaded from JSON
+ * Throws with the offending pack/rule id so a bad pack fails loudly at startup
+ */
+export function validateRulePack(raw: unknown): RulePack {
+  const pack = raw as RulePack;
+  if (!pack || !isNonEmptyString(pack.id) || !isNonEmptyString(pack.version) || !Array.isArray(pack.rules)) {
+    throw new Error('Invalid rule pack: id, version and rules are required');
+  }
+
+  const seen = new Set<string>();
+  for (const rule of pack.rules) {
+    const where = `rule pack '${pack.id}@${pack.version}', rule '${rule?.id ?? '?'}'`;
+    if (!isNonEmptyString(rule?.id)) throw new Error(`Invalid ${where}: missing id`);
+    if (seen.has(rule.id)) throw new Error(`Invalid ${where}: duplicate id`);
+    seen.add(rule.id);
+
+    if (!Number.isInteger(rule.version) || rule.version < 1) throw new Error(`Invalid ${where}: version must be a positive integer`);
+    if (!SEVERITIES.has(rule.severity)) throw new Error(`Invalid ${where}: unknown severity '${rule.severity}'`);
+    if (!isNonEmptyString(rule.category)) throw new Error(`Invalid ${where}: missing category`);
+    if (rule.polarity !== undefined && !POLARITIES.has(rule.polarity)) {
+      throw new Error(`Invalid ${where}: unknown polarity '${rule.polarity}'`);
+    }
+    if (!isNonEmptyString(rule.rationale) || !isNonEmptyString(rule.suggestion)) {
+      throw new Error(`Invalid ${where}: rationale and suggestion are required`);
+    }
+
+    const phrases = rule.triggers?.phrases ?? [];
+    const regex = rule.triggers?.regex ?? [];
+    if (phrases.length + regex.length === 0) throw new Error(`Invalid ${where}: at least one trigger is required`);
+    for (const r of regex) {
+      try {
+        new RegExp(r, 'gi');
+      } catch (e) {
+        throw new Error(`Invalid ${where}: bad regex '${r}' (${(e as Error).message})`);
+      }
+    }
+  }
+
+  return pack;
+}
+
+/**
+ * Compile validated packs into matchable rules
+ * Later packs override earlier ones when they reuse a rule id
+ */
+export function compileRules(packs: RulePack[]): CompiledRule[] {
+  const byId = new Map<string, CompiledRule>();
+
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      const matchers = [
+        ...(rule.triggers.phrases ?? []).map((p) => new RegExp(escapeRegex(p), 'gi')),
+        ...(rule.triggers.regex ?? []).map((r) => new RegExp(r, 'gi'))
+      ];
+      byId.set(rule.id, { ...rule, pack_id: pack.id, pack_version: pack.version, matchers });
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+let cachedRules: CompiledRule[] | null = null;
+
+/**
+ * Load the packs enabled via RULE_PACKS (bundled packs only), compiled and cached
+ */
+export function loadRules(): CompiledRule[] {
+  if (cachedRules) return cachedRules;
+
+  const packs: RulePack[] = [];
+  for (const id of RULE_PACKS) {
+    const raw = BUNDLED_PACKS[id];
+    if (!raw) {
+      console.warn(`Unknown rule pack: ${id}, skipping`);
+      continue;
+    }
+    packs.push(validateRulePack(raw));
+  }
+
+  cachedRules = compileRules(packs);
+  console.log(`Loaded ${cachedRules.length} rules from packs: ${packs.map((p) => `${p.id}@${p.version}`).join(', ')}`);
+  return cachedRules;
+}
+
+/**
+ * Summary of the loaded packs, for debug endpoints
+ */
+export function describeLoadedPacks(): Array<{ id: string; version: string; rules: number }> {
+  const counts = new Map<string, { id: string; version: string; rules: number }>();
+  for (const rule of loadRules()) {
+    const key = `${rule.pack_id}@${rule.pack_version}`;
+    const entry = counts.get(key) ?? { id: rule.pack_id, version: rule.pack_version, rules: 0 };
+    entry.rules += 1;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values());
+}
@@ -0,0 +1,175 @@
+/**
+ * Discussion of an analysis: comment threads anchored to a flag or to a span of the
+ * contract text, with @mentions of the people who can see the analysis
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { COMMENT_MAX_CHARS } from '../config/rules.ts';
+import { analysisAccess, canEdit, type AnalysisAccess } from '../orgs/access.ts';
+import { orgMembers, userEmails } from '../orgs/members.ts';
+
+// "@jane@example.com" in a comment body (trailing punctuation is not part of the address)
+const MENTION_PATTERN = /(?:^|\s)@([^\s@]+@[^\s@]+\.[^\s@]*[^\s@.,;:!?)])/g;
+
+/** Someone who can see the analysis, and so can be mentioned */
+export interface Teammate {
+  user_id: string;
+  email: string | null;
+}
+
+export interface AnalysisComment {
+  id: string;
+  analysis_id: string;
+  /** Null once the author's account is deleted */
+  user_id: string | null;
+  /** Author's email, resolved when the comments are listed */
+  author: string | null;
+  /** First comment of the thread, for replies */
+  parent_id: string | null;
+  flag_id: string | null;
+  span_start: number | null;
+  span_end: number | null;
+  quote: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  /** Set on a thread's first comment deleted after others replied; its body is blank */
+  deleted_at: string | null;
+}
+
+export interface NewComment {
+  body: string;
+  parent_id?: string | null;
+  flag_id?: string | null;
+  span_start?: number | null;
+  span_end?: number | null;
+}
+
+/** An analysis the user can see, with what anchors are checked against */
+export interface DiscussedAnalysis extends AnalysisAccess {
+  id: string;
+  source_text: string;
+}
+
+function commentError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/** The analysis, when `userId` can see it */
+export async function discussedAnalysis(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string
+): Promise<DiscussedAnalysis | null> {
+  const access = await analysisAccess(supabase, userId, analysisId);
+  if (!access) return null;
+
+  const { data: contract } = await supabase
+    .from('contracts')
+    .select('source_text')
+    .eq('id', access.contract_id)
+    .maybeSingle();
+  return { ...access, id: access.analysis_id, source_text: contract?.source_text || '' };
+}
+
+/** Everyone who can see the analysis: the organization's members, or the uploader */
+export async function analysisTeammates(supabase: SupabaseClient, analysis: DiscussedAnalysis): Promise<Teammate[]> {
+  if (analysis.organization_id) {
+    const members = await orgMembers(supabase, analysis.organization_id);
+    return members.map(({ user_id, email }) => ({ user_id, email }));
+  }
+  const emails = await userEmails(supabase, [analysis.user_id]);
+  return [...emails].map(([user_id, email]) => ({ user_id, email }));
+}
+
+/** Teammates @mentioned in `body`; addresses of anyone else are left as plain text */
+export function mentionedUserIds(body: string, teammates: Teammate[]): string[] {
+  const byEmail = new Map(teammates.filter(t => t.email).map(t => [t.email!.toLowerCase(), t.user_id]));
+  const ids = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const id = byEmail.get(match[1].toLowerCase());
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
+
+/** Comments on the analysis, oldest first (threads are put together by the client) */
+export async function listComments(supabase: SupabaseClient, analysisId: string): Promise<AnalysisComment[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select('id, analysis_id, user_id, parent_id, flag_id, span_start, span_end, quote, body, mentions, created_at, deleted_at')
+    .eq('analysis_id', analysisId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Comments fetch error:', error);
+    throw commentError('Failed to load comments', 'DB_ERROR');
+  }
+
+  const emails = await userEmails(supabase, (data || []).flatMap(c => c.user_id ? [c.user_id] : []));
+  return (data || []).map(c => ({ ...c, author: c.user_id ? emails.get(c.user_id) ?? null : null }) as AnalysisComment);
+}
+
+/**
+ * Adds a comment by `userId`. A reply joins the thread of its parent and takes the
+ * thread's anchor; a new thread needs a flag of the analysis or a span of its text
+ */
+export async function addComment(
+  supabase: SupabaseClient,
+  userId: string,
+  analysis: DiscussedAnalysis,
+  input: NewComment
+): Promise<AnalysisComment> {
+  if (!canEdit(analysis.role)) throw commentError('Viewers cannot comment', 'NOT_ALLOWED');
+  const body = (input.body || '').trim();
+  if (!body) throw commentError('Comment is empty', 'COMMENT_EMPTY');
+  if (body.length > COMMENT_MAX_CHARS) {
+    throw commentError(`Comments are limited to ${COMMENT_MAX_CHARS} characters`, 'COMMENT_TOO_LONG');
+  }
+
+  let anchor: Pick<AnalysisComment, 'parent_id' | 'flag_id' | 'span_start' | 'span_end' | 'quote'>;
+  if (input.parent_id) {
+    const { data: parent } = await supabase
+      .from('comments')
+      .select('id, parent_id, flag_id, span_start, span_end, quote')
+      .eq('id', input.parent_id)
+      .eq('analysis_id', analysis.id)
+      .maybeSingle();
+    if (!parent) throw commentError('Comment not found', 'PARENT_MISSING');
+    anchor = { ...parent, parent_id: parent.parent_id || parent.id };
+  } else if (input.flag_id) {
+    const { data: flag } = await supabase
+      .from('flags')
+      .select('id')
+      .eq('id', input.flag_id)
+      .eq('analysis_id', analysis.id)
+      .maybeSingle();
+    if (!flag) throw commentError('Flag not found', 'ANCHOR_INVALID');
+    anchor = { parent_id: null, flag_id: flag.id, span_start: null, span_end: null, quote: null };
+  } else {
+    const { span_start: start, span_end: end } = input;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start! < 0 || end! <= start! || end! > analysis.source_text.length) {
+      throw commentError('Select the text to comment on', 'ANCHOR_INVALID');
+    }
+    anchor = { parent_id: null, flag_id: null, span_start: start!, span_end: end!, quote: analysis.source_text.slice(start!, end!) };
+  }
+
+  const teammates = await analysisTeammates(supabase, analysis);
+  const { data: comment, error } = await supabase
+    .from('comments')
+    .insert({
+      analysis_id: analysis.id,
+      user_id: userId,
+      ...anchor,
+      body,
+      mentions: mentionedUserIds(body, teammates)
+    })
+    .select('id, analysis_id, user_id, parent_id, flag_id, span_start, span_end, quote, body, mentions, created_at, deleted_at')
+    .single();
+  if (error || !comment) {
+    console.error('Comment insert error:', error);
+    throw commentError('Failed to save comment', 'DB_ERROR');
+  }
+
+  const author = teammates.find(t => t.user_id === userId)?.email ?? null;
+  return { ...comment, author } as AnalysisComment;
+}
@@ -0,0 +1,363 @@
+/**
+ * Version comparison: what changed between two analyzed versions of a contract
+ * The texts are aligned section by section (clause tree when there is one, heading lines
+ * otherwise) and word-diffed within each section; flags are matched across the two
+ * analyses to show which were added, resolved or changed in severity.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { diffArrays, diffWords } from 'https://esm.sh/diff@8.0.2';
+import { findSections } from '../text/chunking.ts';
+import { normalizeForFingerprint } from '../text/fingerprint.ts';
+import type { ClauseNode } from '../text/outline.ts';
+import { analysisAccess } from '../orgs/access.ts';
+
+type Risk = 'low' | 'medium' | 'high';
+
+// Unmatched sections this similar (text or heading) are the same section renamed or renumbered
+const SECTION_MATCH_SIMILARITY = 0.5;
+// AI flags (no rule id) this similar are the same finding
+const FLAG_MATCH_SIMILARITY = 0.6;
+
+const RISK_RANK: Record<Risk, number> = { low: 0, medium: 1, high: 2 };
+
+export interface ComparedFlag {
+  id: string;
+  rule_id: string | null;
+  severity: Risk;
+  clause: string;
+  section: string | null;
+  rationale: string | null;
+  suggestion: string | null;
+}
+
+/** One side of a comparison: an analysis and the contract version it analyzed */
+export interface ComparedAnalysis {
+  analysis_id: string;
+  contract_id: string;
+  title: string | null;
+  version: number;
+  analyzed_at: string;
+  overall_risk: Risk;
+  source_text: string;
+  clause_tree: ClauseNode[] | null;
+  flags: ComparedFlag[];
+}
+
+export interface DiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export interface SectionDiff {
+  status: 'unchanged' | 'changed' | 'added' | 'removed';
+  /** "Section 7 — Indemnification" in each version (null where the section doesn't exist) */
+  base_label: string | null;
+  revised_label: string | null;
+  /** Word diff of the section (the whole text, unmarked, when unchanged) */
+  parts: DiffPart[];
+}
+
+export interface ContractComparison {
+  base: Omit<ComparedAnalysis, 'source_text' | 'clause_tree' | 'flags'>;
+  revised: Omit<ComparedAnalysis, 'source_text' | 'clause_tree' | 'flags'>;
+  risk: {
+    base: Risk;
+    revised: Risk;
+    direction: 'up' | 'down' | 'same';
+    /** Flags by severity in each version */
+    base_counts: Record<Risk, number>;
+    revised_counts: Record<Risk, number>;
+  };
+  sections: SectionDiff[];
+  section_stats: Record<SectionDiff['status'], number>;
+  flags: {
+    /** Raised on the revised version only */
+    added: ComparedFlag[];
+    /** Raised on the base version only: resolved by the revision */
+    removed: ComparedFlag[];
+    /** Raised on both, at a different severity */
+    changed: Array<{ base: ComparedFlag; revised: ComparedFlag }>;
+    unchanged: number;
+  };
+}
+
+interface Section {
+  number: string | null;
+  heading: string | null;
+  text: string;
+}
+
+const HEADING_NUMBER = /^(?:(?:article|section|clause)\s+)?((?:\d+(?:\.\d+)*|[ivxlc]+))[.):]?\s+(.*)$/i;
+
+/** Heading text without its number, in a form that survives case and punctuation edits */
+function headingKey(heading: string | null): string {
+  return heading ? normalizeForFingerprint(heading) : '';
+}
+
+function wordSimilarity(a: string, b: string): number {
+  const wa = new Set(normalizeForFingerprint(a).split(' ').filter(Boolean));
+  const wb = new Set(normalizeForFingerprint(b).split(' ').filter(Boolean));
+  if (wa.size === 0 && wb.size === 0) return 1;
+  let common = 0;
+  for (const w of wa) if (wb.has(w)) common++;
+  return common / (wa.size + wb.size - common);
+}
+
+function sectionLabelOf(section: Section): string | null {
+  const number = section.number?.replace(/\.$/, '');
+  if (number && section.heading) return `Section ${number} — ${section.heading}`;
+  if (number) return `Section ${number}`;
+  return section.heading;
+}
+
+/**
+ * The contract's top-level sections, covering the whole text in order
+ * Text before the first section is a preamble section without number or heading.
+ */
+function contractSections(text: string, tree: ClauseNode[] | null): Section[] {
+  if (tree?.length) {
+    // A single node wrapping everything (e.g. the document title) isn't a useful level
+    let nodes = tree;
+    while (nodes.length === 1 && nodes[0].children.length > 1) nodes = nodes[0].children;
+
+    const sections: Section[] = [];
+    if (text.slice(0, nodes[0].start).trim()) {
+      sections.push({ number: null, heading: null, text: text.slice(0, nodes[0].start) });
+    }
+    nodes.forEach((node, i) => {
+      const end = i + 1 < nodes.length ? nodes[i + 1].start : text.length;
+      sections.push({ number: node.number, heading: node.heading, text: text.slice(node.start, end) });
+    });
+    return sections;
+  }
+
+  return findSections(text).map((s) => {
+    const match = s.heading?.match(HEADING_NUMBER);
+    return {
+      number: match ? match[1] : null,
+      heading: match ? match[2].trim() || null : s.heading,
+      text: text.slice(s.start, s.end)
+    };
+  });
+}
+
+/** Same section in both versions: same heading, or same number where a heading is missing */
+function sameSection(a: Section, b: Section): boolean {
+  const ka = headingKey(a.heading);
+  const kb = headingKey(b.heading);
+  if (ka && kb) return ka === kb;
+  if (a.number || b.number) return a.number === b.number;
+  return !ka && !kb;
+}
+
+function sectionDiff(base: Section | null, revised: Section | null): SectionDiff {
+  const base_label = base ? sectionLabelOf(base) : null;
+  const revised_label = revised ? sectionLabelOf(revised) : null;
+  if (!revised) return { status: 'removed', base_label, revised_label, parts: [{ value: base!.text, removed: true }] };
+  if (!base) return { status: 'added', base_label, revised_label, parts: [{ value: revised.text, added: true }] };
+
+  if (base.text.replace(/\s+/g, ' ').trim() === revised.text.replace(/\s+/g, ' ').trim()) {
+    return { status: 'unchanged', base_label, revised_label, parts: [{ value: revised.text }] };
+  }
+  const parts = diffWords(base.text, revised.text).map((p) => ({
+    value: p.value,
+    ...(p.added ? { added: true } : {}),
+    ...(p.removed ? { removed: true } : {})
+  }));
+  return { status: 'changed', base_label, revised_label, parts };
+}
+
+/**
+ * Align the two versions' sections in order; sections that only line up by content
+ * (renamed or renumbered) are paired within each run of unmatched sections
+ */
+function alignSections(base: Section[], revised: Section[]): SectionDiff[] {
+  const result: SectionDiff[] = [];
+  let removed: Section[] = [];
+  let added: Section[] = [];
+
+  const flushUnmatched = () => {
+    for (const r of removed) {
+      const i = added.findIndex((a) =>
+        wordSimilarity(r.text, a.text) >= SECTION_MATCH_SIMILARITY ||
+        (!!r.heading && !!a.heading && wordSimilarity(r.heading, a.heading) >= SECTION_MATCH_SIMILARITY)
+      );
+      if (i === -1) {
+        result.push(sectionDiff(r, null));
+        continue;
+      }
+      // Sections added before the renamed one keep their place
+      added.splice(0, i).forEach((a) => result.push(sectionDiff(null, a)));
+      result.push(sectionDiff(r, added.shift()!));
+    }
+    added.forEach((a) => result.push(sectionDiff(null, a)));
+    removed = [];
+    added = [];
+  };
+
+  let bi = 0;
+  let ri = 0;
+  for (const change of diffArrays(base, revised, { comparator: sameSection })) {
+    const count = change.value.length;
+    if (change.removed) {
+      removed.push(...base.slice(bi, bi + count));
+      bi += count;
+    } else if (change.added) {
+      added.push(...revised.slice(ri, ri + count));
+      ri += count;
+    } else {
+      flushUnmatched();
+      for (let k = 0; k < count; k++) result.push(sectionDiff(base[bi + k], revised[ri + k]));
+      bi += count;
+      ri += count;
+    }
+  }
+  flushUnmatched();
+  return result;
+}
+
+/**
+ * Pair each base flag with the same finding on the revised version: same rule in the same
+ * section, then same rule anywhere, then (AI flags) a clause with mostly the same words
+ */
+function matchFlags(base: ComparedFlag[], revised: ComparedFlag[]): ContractComparison['flags'] {
+  const unmatched = new Set(revised);
+  const pairs: Array<{ base: ComparedFlag; revised: ComparedFlag }> = [];
+  const removed: ComparedFlag[] = [];
+
+  const passes: Array<(b: ComparedFlag, r: ComparedFlag) => boolean> = [
+    (b, r) => !!b.rule_id && b.rule_id === r.rule_id &&
+      (b.section === r.section || wordSimilarity(b.clause, r.clause) >= FLAG_MATCH_SIMILARITY),
+    (b, r) => !!b.rule_id && b.rule_id === r.rule_id,
+    (b, r) => !b.rule_id && !r.rule_id && wordSimilarity(b.clause, r.clause) >= FLAG_MATCH_SIMILARITY
+  ];
+
+  let pending = base;
+  for (const pass of passes) {
+    const next: ComparedFlag[] = [];
+    for (const b of pending) {
+      const r = [...unmatched].find((candidate) => pass(b, candidate));
+      if (r) {
+        unmatched.delete(r);
+        pairs.push({ base: b, revised: r });
+      } else {
+        next.push(b);
+      }
+    }
+    pending = next;
+  }
+  removed.push(...pending);
+
+  const changed = pairs.filter((p) => p.base.severity !== p.revised.severity);
+  return {
+    added: [...unmatched],
+    removed,
+    changed,
+    unchanged: pairs.length - changed.length
+  };
+}
+
+function severityCounts(flags: ComparedFlag[]): Record<Risk, number> {
+  const counts: Record<Risk, number> = { low: 0, medium: 0, high: 0 };
+  for (const f of flags) counts[f.severity] = (counts[f.severity] ?? 0) + 1;
+  return counts;
+}
+
+/**
+ * Compare two analyzed versions: `base` is the earlier one, `revised` the later
+ */
+export function compareAnalyses(base: ComparedAnalysis, revised: ComparedAnalysis): ContractComparison {
+  const sections = alignSections(
+    contractSections(base.source_text, base.clause_tree),
+    contractSections(revised.source_text, revised.clause_tree)
+  );
+  const section_stats = { unchanged: 0, changed: 0, added: 0, removed: 0 };
+  for (const s of sections) section_stats[s.status]++;
+
+  const rankDelta = RISK_RANK[revised.overall_risk] - RISK_RANK[base.overall_risk];
+  const summary = ({ source_text: _s, clause_tree: _t, flags: _f, ...rest }: ComparedAnalysis) => rest;
+
+  return {
+    base: summary(base),
+    revised: summary(revised),
+    risk: {
+      base: base.overall_risk,
+      revised: revised.overall_risk,
+      direction: rankDelta > 0 ? 'up' : rankDelta < 0 ? 'down' : 'same',
+      base_counts: severityCounts(base.flags),
+      revised_counts: severityCounts(revised.flags)
+    },
+    sections,
+    section_stats,
+    flags: matchFlags(base.flags, revised.flags)
+  };
+}
+
+/**
+ * An analysis the user can see, with its contract version's text and its flags
+ * Returns null when it doesn't exist or the user has no access to it.
+ */
+export async function loadComparedAnalysis(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string
+): Promise<(ComparedAnalysis & { family_id: string }) | null> {
+  if (!await analysisAccess(supabase, userId, analysisId)) return null;
+
+  const { data: analysis } = await supabase
+    .from('analyses')
+    .select('id, created_at, overall_risk, contract:contracts(id, title, version, family_id, source_text, clause_tree)')
+    .eq('id', analysisId)
+    .maybeSingle();
+  const contract = analysis?.contract as unknown as {
+    id: string;
+    title: string | null;
+    version: number | null;
+    family_id: string | null;
+    source_text: string | null;
+    clause_tree: ClauseNode[] | null;
+  } | null;
+  if (!analysis || !contract) return null;
+
+  const { data: flags } = await supabase
+    .from('flags')
+    .select('id, rule_id, severity, clause, section, rationale, suggestion')
+    .eq('analysis_id', analysisId);
+
+  return {
+    analysis_id: analysis.id,
+    contract_id: contract.id,
+    family_id: contract.family_id ?? contract.id,
+    title: contract.title,
+    version: contract.version ?? 1,
+    analyzed_at: analysis.created_at,
+    overall_risk: analysis.overall_risk as Risk,
+    source_text: contract.source_text || '',
+    clause_tree: contract.clause_tree,
+    flags: (flags || []) as ComparedFlag[]
+  };
+}
+
+/**
+ * Latest analysis of the closest earlier version of the same contract that was analyzed
+ * (versions share their workspace, so the user can see it when they can see `revised`)
+ */
+export async function previousVersionAnalysisId(
+  supabase: SupabaseClient,
+  revised: { family_id: string; version: number }
+): Promise<string | null> {
+  const { data: versions } = await supabase
+    .from('contracts')
+    .select('id, version, analyses(id, created_at)')
+    .or(`id.eq.${revised.family_id},family_id.eq.${revised.family_id}`)
+    .lt('version', revised.version)
+    .order('version', { ascending: false });
+
+  for (const v of (versions || []) as Array<{ analyses: Array<{ id: string; created_at: string }> | null }>) {
+    const latest = [...(v.analyses || [])].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    if (latest) return latest.id;
+  }
+  return null;
+}
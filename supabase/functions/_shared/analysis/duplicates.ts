@@ -0,0 +1,115 @@
+/**
+ * Duplicate contracts: finds an earlier analysis of the same contract (same file, same
+ * normalized text, or a near-identical text by MinHash) so it can be reused instead of
+ * analyzing, and paying for, the same contract again
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DUPLICATE_SCAN_LIMIT, DUPLICATE_SIMILARITY } from '../config/rules.ts';
+import { contractTextHash, minhashSignature, minhashSimilarity } from '../text/fingerprint.ts';
+
+export interface DuplicateMatch {
+  /** exact: same file or same normalized text; near: most of the text is the same */
+  kind: 'exact' | 'near';
+  contract_id: string;
+  analysis_id: string;
+  title: string | null;
+  analyzed_at: string;
+  /** Estimated share of text in common (1 for exact matches) */
+  similarity: number;
+}
+
+interface ContractRow {
+  id: string;
+  title: string | null;
+  minhash?: number[] | null;
+  analyses: Array<{ id: string; created_at: string }> | null;
+}
+
+/** Fingerprint columns stored on a new contract */
+export async function contractFingerprint(text: string): Promise<{ text_hash: string; minhash: number[] | null }> {
+  return { text_hash: await contractTextHash(text), minhash: minhashSignature(text) };
+}
+
+function latestAnalysis(row: ContractRow): { id: string; created_at: string } | null {
+  const analyses = [...(row.analyses || [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return analyses[0] ?? null;
+}
+
+/**
+ * The most recent analyzed contract matching `text` (or the uploaded file's hash) in the
+ * workspace the new contract goes to: the organization's, so teammates' uploads count and
+ * the match is one they can open, or else the user's personal contracts
+ * Contracts without a finished analysis don't count. Near-duplicates need the text
+ * (and `near` not set to false).
+ */
+export async function findDuplicate(
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string | null,
+  input: { text?: string | null; sha256?: string | null; near?: boolean }
+): Promise<DuplicateMatch | null> {
+  const hashes: string[] = [];
+  if (input.text) hashes.push(`text_hash.eq.${await contractTextHash(input.text)}`);
+  if (input.sha256 && /^[0-9a-f]{64}$/.test(input.sha256)) hashes.push(`sha256.eq.${input.sha256}`);
+  if (hashes.length === 0) return null;
+
+  let exactQuery = supabase
+    .from('contracts')
+    .select('id, title, analyses(id, created_at)');
+  exactQuery = organizationId
+    ? exactQuery.eq('organization_id', organizationId)
+    : exactQuery.is('organization_id', null).eq('user_id', userId);
+  const { data: exact, error } = await exactQuery
+    .or(hashes.join(','))
+    .order('created_at', { ascending: false })
+    .limit(10);
+  if (error) {
+    console.error('Duplicate lookup failed:', error);
+    return null;
+  }
+
+  for (const row of (exact || []) as ContractRow[]) {
+    const analysis = latestAnalysis(row);
+    if (analysis) {
+      return {
+        kind: 'exact',
+        contract_id: row.id,
+        analysis_id: analysis.id,
+        title: row.title,
+        analyzed_at: analysis.created_at,
+        similarity: 1
+      };
+    }
+  }
+
+  const signature = input.text && input.near !== false ? minhashSignature(input.text) : null;
+  if (!signature) return null;
+
+  let recentQuery = supabase
+    .from('contracts')
+    .select('id, title, minhash, analyses(id, created_at)');
+  recentQuery = organizationId
+    ? recentQuery.eq('organization_id', organizationId)
+    : recentQuery.is('organization_id', null).eq('user_id', userId);
+  const { data: recent } = await recentQuery
+    .not('minhash', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(DUPLICATE_SCAN_LIMIT);
+
+  let best: DuplicateMatch | null = null;
+  for (const row of (recent || []) as ContractRow[]) {
+    const similarity = minhashSimilarity(signature, row.minhash || []);
+    const analysis = latestAnalysis(row);
+    if (!analysis || similarity < DUPLICATE_SIMILARITY || (best && similarity <= best.similarity)) continue;
+    best = {
+      kind: 'near',
+      contract_id: row.id,
+      analysis_id: analysis.id,
+      title: row.title,
+      analyzed_at: analysis.created_at,
+      similarity
+    };
+  }
+  return best;
+}
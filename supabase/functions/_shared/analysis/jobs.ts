@@ -0,0 +1,185 @@
+/**
+ * Analysis jobs: contracts are analyzed in the background so a slow model never
+ * times out the request that asked for it
+ *
+ *   queued ──► extracting (uploaded files only) ──► analyzing ──► done
+ *                        └──────────────┴──────────────► failed
+ *
+ * analyze-contract and upload-extract enqueue a row in analysis_jobs and dispatch it to
+ * the analysis-worker function; clients follow the row (realtime or polling) until it
+ * reaches done (analysis_id set) or failed (error set). A cron schedule also calls the
+ * worker every minute to pick up jobs whose dispatch failed and fail abandoned ones.
+ *
+ * A job queued with contract_id set re-analyzes that existing contract (a new analysis of
+ * its saved text); one with version_of set saves its contract as that contract's next version.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ANALYSIS_JOB_STALE_MINUTES } from '../config/rules.ts';
+
+export type JobStatus = 'queued' | 'extracting' | 'analyzing' | 'done' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  user_id: string;
+  status: JobStatus;
+  progress: number;
+  title: string | null;
+  source_text: string | null;
+  storage_path: string | null;
+  file_name: string | null;
+  file_mime: string | null;
+  file_size: number | null;
+  file_sha256: string | null;
+  use_ai: boolean;
+  ai_provider: string | null;
+  /** Analyze even if the same contract was analyzed before */
+  rerun: boolean;
+  /** Contract whose family the new contract joins as its next version */
+  version_of: string | null;
+  /** Workspace the new contract is saved to (null: the user's personal workspace) */
+  organization_id: string | null;
+  contract_id: string | null;
+  analysis_id: string | null;
+  notes: string[] | null;
+  error: string | null;
+  error_code: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export type NewAnalysisJob = Pick<AnalysisJob, 'user_id' | 'title' | 'use_ai' | 'ai_provider'> &
+  Partial<Pick<AnalysisJob, 'source_text' | 'storage_path' | 'file_name' | 'file_mime' | 'file_size' | 'file_sha256' | 'rerun' | 'version_of' | 'organization_id' | 'contract_id' | 'notes'>>;
+
+/**
+ * Insert a queued job; a job carries text to analyze, an uploaded file to extract, or
+ * the existing contract to re-analyze (text jobs may still name the file the text came
+ * from, so the contract links to it)
+ */
+export async function enqueueAnalysisJob(supabase: SupabaseClient, job: NewAnalysisJob): Promise<AnalysisJob> {
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .insert({ ...job, status: 'queued', progress: 0 })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to queue analysis: ${error?.message || 'no row returned'}`);
+  }
+  return data as AnalysisJob;
+}
+
+/**
+ * Ask the analysis worker to pick up a job
+ * The worker acknowledges straight away and keeps working in the background, so this
+ * only waits for the hand-off. A failed hand-off leaves the job queued for the next sweep.
+ */
+export async function dispatchAnalysisJob(jobId: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/analysis-worker`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ job_id: jobId })
+    });
+    if (!res.ok) {
+      console.error(`Analysis worker rejected job ${jobId}: HTTP ${res.status}`);
+    }
+    await res.body?.cancel();
+    return res.ok;
+  } catch (error) {
+    console.error(`Could not dispatch analysis job ${jobId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Move a queued job into its first working state, atomically
+ * Returns null when another worker already took it (or it no longer exists).
+ */
+export async function claimAnalysisJob(supabase: SupabaseClient, jobId: string): Promise<AnalysisJob | null> {
+  const { data: queued } = await supabase
+    .from('analysis_jobs')
+    .select('storage_path, source_text, attempts')
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .maybeSingle();
+  if (!queued) return null;
+
+  const now = new Date().toISOString();
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .update({
+      status: queued.source_text === null && queued.storage_path ? 'extracting' : 'analyzing',
+      attempts: (queued.attempts ?? 0) + 1,
+      started_at: now,
+      updated_at: now
+    })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle();
+
+  return (data as AnalysisJob | null) ?? null;
+}
+
+/**
+ * Update a running job (status, progress, results); bumps updated_at so sweeps can
+ * tell a live job from one whose worker died
+ */
+export async function updateAnalysisJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  patch: Partial<Omit<AnalysisJob, 'id' | 'user_id' | 'created_at'>>
+): Promise<void> {
+  const now = new Date().toISOString();
+  const finished = patch.status === 'done' || patch.status === 'failed';
+  const { error } = await supabase
+    .from('analysis_jobs')
+    .update({ ...patch, updated_at: now, ...(finished ? { finished_at: now } : {}) })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error(`Failed to update analysis job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Oldest queued job ids, for sweeps that pick up jobs whose dispatch was lost
+ */
+export async function queuedAnalysisJobIds(supabase: SupabaseClient, limit: number): Promise<string[]> {
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .select('id')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
+/**
+ * Fail jobs stuck in a working state for longer than ANALYSIS_JOB_STALE_MINUTES
+ * (their worker was stopped mid-way); returns how many were failed
+ */
+export async function failStaleAnalysisJobs(supabase: SupabaseClient): Promise<number> {
+  const cutoff = new Date(Date.now() - ANALYSIS_JOB_STALE_MINUTES * 60 * 1000).toISOString();
+  const now = new Date().toISOString();
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .update({
+      status: 'failed',
+      error: 'The analysis took too long and was stopped. Please try again.',
+      error_code: 'JOB_TIMEOUT',
+      updated_at: now,
+      finished_at: now
+    })
+    .in('status', ['extracting', 'analyzing'])
+    .lt('updated_at', cutoff)
+    .select('id');
+  return data?.length ?? 0;
+}
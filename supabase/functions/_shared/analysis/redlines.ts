@@ -0,0 +1,140 @@
+/**
+ * Accepted redlines applied to the contract: each one replaces the text of its flag's
+ * span in source_text, word-diffed so that only the words that change are marked.
+ * Exports turn the marked parts into Word revisions (w:del / w:ins) that counsel can
+ * accept or reject one by one
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { diffWords } from 'https://esm.sh/diff@8.0.2';
+import { userEmails } from '../orgs/members.ts';
+import type { DiffPart } from './compare.ts';
+
+export interface AcceptedRedline {
+  flag_id: string;
+  /** The flagged clause as the analysis quoted it */
+  clause: string | null;
+  redline: string;
+  accepted_at: string;
+  accepted_by_email: string | null;
+}
+
+/** A stretch of the redlined contract; deleted and inserted parts carry their redline */
+export interface RedlinedPart extends DiffPart {
+  redline?: AcceptedRedline;
+}
+
+export interface RedlinedContract {
+  title: string | null;
+  version: number;
+  parts: RedlinedPart[];
+  /** Redlines applied to the text, in text order */
+  placed: AcceptedRedline[];
+  /** Redlines whose clause couldn't be located in the text, or overlaps one placed before it */
+  unplaced: AcceptedRedline[];
+}
+
+interface RedlinedFlag {
+  id: string;
+  clause: string | null;
+  span_start: number | null;
+  span_end: number | null;
+  span_match: string | null;
+  verified: boolean | null;
+  redline: string | null;
+  redline_accepted_at: string | null;
+  redline_accepted_by: string | null;
+}
+
+/**
+ * The span a redline replaces: a located clause (an unverified quote, or one found by
+ * keywords only, doesn't say which words to replace)
+ */
+function replacedSpan(flag: RedlinedFlag, textLength: number): { start: number; end: number } | null {
+  if (flag.verified === false || flag.span_match === 'keyword') return null;
+  if (typeof flag.span_start !== 'number' || typeof flag.span_end !== 'number') return null;
+  if (flag.span_start < 0 || flag.span_end <= flag.span_start || flag.span_end > textLength) return null;
+  return { start: flag.span_start, end: flag.span_end };
+}
+
+/** Word diff of `original` into `redline`, marked with the redline */
+export function redlineParts(original: string, redline: AcceptedRedline): RedlinedPart[] {
+  return diffWords(original, redline.redline).map((p) => ({
+    value: p.value,
+    ...(p.added ? { added: true, redline } : {}),
+    ...(p.removed ? { removed: true, redline } : {})
+  }));
+}
+
+/**
+ * `text` with the accepted redlines of `flags` in place. Where two redlined clauses
+ * overlap, the one starting first is applied
+ */
+function applyRedlines(
+  text: string,
+  flags: RedlinedFlag[],
+  emails: Map<string, string | null>
+): Pick<RedlinedContract, 'parts' | 'placed' | 'unplaced'> {
+  const located = flags
+    .filter(f => f.redline)
+    .map((f) => ({
+      span: replacedSpan(f, text.length),
+      redline: {
+        flag_id: f.id,
+        clause: f.clause,
+        redline: f.redline!,
+        accepted_at: f.redline_accepted_at || new Date().toISOString(),
+        accepted_by_email: f.redline_accepted_by ? emails.get(f.redline_accepted_by) ?? null : null
+      }
+    }))
+    .sort((a, b) => (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity) ||
+      a.redline.accepted_at.localeCompare(b.redline.accepted_at));
+
+  const parts: RedlinedPart[] = [];
+  const placed: AcceptedRedline[] = [];
+  const unplaced: AcceptedRedline[] = [];
+  let at = 0;
+
+  for (const { span, redline } of located) {
+    if (!span || span.start < at) {
+      unplaced.push(redline);
+      continue;
+    }
+    if (span.start > at) parts.push({ value: text.slice(at, span.start) });
+    parts.push(...redlineParts(text.slice(span.start, span.end), redline));
+    placed.push(redline);
+    at = span.end;
+  }
+  if (at < text.length) parts.push({ value: text.slice(at) });
+
+  return { parts, placed, unplaced };
+}
+
+/**
+ * The contract of an analysis with its accepted redlines applied, or null when the
+ * contract text isn't available. Callers check the user's access to the analysis
+ */
+export async function loadRedlinedContract(supabase: SupabaseClient, analysisId: string): Promise<RedlinedContract | null> {
+  const { data: analysis } = await supabase
+    .from('analyses')
+    .select('id, contract:contracts(title, version, source_text)')
+    .eq('id', analysisId)
+    .maybeSingle();
+  const contract = analysis?.contract as unknown as { title: string | null; version: number | null; source_text: string | null } | null;
+  if (!contract?.source_text) return null;
+
+  const { data: flags, error } = await supabase
+    .from('flags')
+    .select('id, clause, span_start, span_end, span_match, verified, redline, redline_accepted_at, redline_accepted_by')
+    .eq('analysis_id', analysisId)
+    .not('redline', 'is', null);
+  if (error) throw new Error(`Failed to load redlines: ${error.message}`);
+
+  const emails = await userEmails(supabase, (flags || []).flatMap(f => f.redline_accepted_by ? [f.redline_accepted_by] : []));
+
+  return {
+    title: contract.title,
+    version: contract.version ?? 1,
+    ...applyRedlines(contract.source_text, flags || [], emails)
+  };
+}
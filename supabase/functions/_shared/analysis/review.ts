@@ -0,0 +1,173 @@
+/**
+ * Flag review: reviewers mark each flag accepted, dismissed (a false positive), under
+ * negotiation or resolved, and the analysis' overall risk follows the flags still open.
+ * They can also accept a redline of the flagged clause, for the tracked changes export
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { FLAG_REDLINE_MAX_CHARS, FLAG_REVIEW_NOTE_MAX_CHARS } from '../config/rules.ts';
+import { analysisAccess, canEdit } from '../orgs/access.ts';
+
+type Risk = 'low' | 'medium' | 'high';
+
+export const FLAG_STATUSES = ['open', 'accepted', 'dismissed', 'negotiating', 'resolved'] as const;
+export type FlagStatus = typeof FLAG_STATUSES[number];
+
+// Still a risk to the user: not reviewed yet, or raised with the counterparty but not settled
+const OPEN_STATUSES: ReadonlySet<FlagStatus> = new Set(['open', 'negotiating']);
+
+const RISK_RANK: Record<Risk, number> = { low: 0, medium: 1, high: 2 };
+
+export interface ReviewedFlag {
+  id: string;
+  analysis_id: string;
+  rule_id: string | null;
+  severity: Risk;
+  status: FlagStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+export interface FlagRedline {
+  id: string;
+  analysis_id: string;
+  redline: string | null;
+  redline_accepted_at: string | null;
+  redline_accepted_by: string | null;
+}
+
+export interface FlagReview {
+  status: FlagStatus;
+  note?: string | null;
+}
+
+function reviewError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+export function isFlagStatus(value: unknown): value is FlagStatus {
+  return typeof value === 'string' && (FLAG_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Overall risk once flags are reviewed: the highest severity among open flags.
+ * Until anything is closed, the risk the analysis found (which the AI may rate above its flags)
+ */
+export function openFlagsRisk(analyzedRisk: Risk, flags: Array<Pick<ReviewedFlag, 'severity' | 'status'>>): Risk {
+  if (flags.every(f => f.status === 'open')) return analyzedRisk;
+
+  return flags
+    .filter(f => OPEN_STATUSES.has(f.status))
+    .reduce<Risk>((max, f) => (RISK_RANK[f.severity] > RISK_RANK[max] ? f.severity : max), 'low');
+}
+
+/** Flags are reviewed by the analysis' owner, or an organization's reviewers and owners */
+async function requireReviewer(supabase: SupabaseClient, userId: string, flagId: string): Promise<void> {
+  const { data: reviewed } = await supabase
+    .from('flags')
+    .select('analysis_id')
+    .eq('id', flagId)
+    .maybeSingle();
+  const access = reviewed ? await analysisAccess(supabase, userId, reviewed.analysis_id) : null;
+  if (!access) throw reviewError('Flag not found', 'FLAG_MISSING');
+  if (!canEdit(access.role)) throw reviewError('Viewers cannot review flags', 'NOT_ALLOWED');
+}
+
+/**
+ * Records a review of a flag the user can review and recomputes the analysis' overall risk.
+ * Reopening a flag clears its review; the note is kept so the history isn't lost
+ */
+export async function reviewFlag(
+  supabase: SupabaseClient,
+  userId: string,
+  flagId: string,
+  review: FlagReview
+): Promise<{ flag: ReviewedFlag; overall_risk: Risk }> {
+  const note = typeof review.note === 'string' ? review.note.trim() : null;
+  if (note && note.length > FLAG_REVIEW_NOTE_MAX_CHARS) {
+    throw reviewError(`Notes are limited to ${FLAG_REVIEW_NOTE_MAX_CHARS} characters`, 'NOTE_TOO_LONG');
+  }
+
+  await requireReviewer(supabase, userId, flagId);
+
+  const reopened = review.status === 'open';
+  const { data: flag, error: fErr } = await supabase
+    .from('flags')
+    .update({
+      status: review.status,
+      ...(review.note !== undefined ? { review_note: note || null } : {}),
+      reviewed_at: reopened ? null : new Date().toISOString(),
+      reviewed_by: reopened ? null : userId
+    })
+    .eq('id', flagId)
+    .select('id, analysis_id, rule_id, severity, status, review_note, reviewed_at, reviewed_by')
+    .maybeSingle();
+
+  if (fErr) {
+    console.error('Flag review update error:', fErr);
+    throw reviewError('Failed to save review', 'DB_ERROR');
+  }
+  if (!flag) throw reviewError('Flag not found', 'FLAG_MISSING');
+
+  const [{ data: analysis, error: aErr }, { data: flags, error: lErr }] = await Promise.all([
+    supabase.from('analyses').select('overall_risk, analyzed_risk').eq('id', flag.analysis_id).single(),
+    supabase.from('flags').select('severity, status').eq('analysis_id', flag.analysis_id)
+  ]);
+  if (aErr || lErr || !analysis) {
+    console.error('Flag review reload error:', aErr || lErr);
+    throw reviewError('Failed to update overall risk', 'DB_ERROR');
+  }
+
+  const overall_risk = openFlagsRisk((analysis.analyzed_risk || analysis.overall_risk) as Risk, flags || []);
+  if (overall_risk !== analysis.overall_risk) {
+    const { error: uErr } = await supabase
+      .from('analyses')
+      .update({ overall_risk })
+      .eq('id', flag.analysis_id);
+    if (uErr) {
+      console.error('Overall risk update error:', uErr);
+      throw reviewError('Failed to update overall risk', 'DB_ERROR');
+    }
+  }
+
+  return { flag: flag as ReviewedFlag, overall_risk };
+}
+
+/**
+ * Accepts `redline` as the rewrite of the flagged clause, replacing any accepted before;
+ * null (or blank) withdraws it. The rewrite is kept as given, the export diffs it
+ * against the clause's text in the contract
+ */
+export async function acceptRedline(
+  supabase: SupabaseClient,
+  userId: string,
+  flagId: string,
+  redline: string | null
+): Promise<FlagRedline> {
+  const accepted = redline?.trim() ? redline : null;
+  if (accepted && accepted.length > FLAG_REDLINE_MAX_CHARS) {
+    throw reviewError(`Redlines are limited to ${FLAG_REDLINE_MAX_CHARS} characters`, 'REDLINE_TOO_LONG');
+  }
+
+  await requireReviewer(supabase, userId, flagId);
+
+  const { data: flag, error } = await supabase
+    .from('flags')
+    .update({
+      redline: accepted,
+      redline_accepted_at: accepted ? new Date().toISOString() : null,
+      redline_accepted_by: accepted ? userId : null
+    })
+    .eq('id', flagId)
+    .select('id, analysis_id, redline, redline_accepted_at, redline_accepted_by')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Flag redline update error:', error);
+    throw reviewError('Failed to save redline', 'DB_ERROR');
+  }
+  if (!flag) throw reviewError('Flag not found', 'FLAG_MISSING');
+
+  return flag as FlagRedline;
+}
@@ -0,0 +1,396 @@
+/**
+ * Contract analysis pipeline: save the contract, run the rule-based analyzer and
+ * (optionally) AI, merge the two, and persist the analysis and its flags
+ * Runs inside the analysis worker; see ./jobs.ts for the job lifecycle.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runChunkedAIAnalysis, type ChunkedAnalysisResult } from '../ai/chunked.ts';
+import { groundAIFlags } from '../ai/grounding.ts';
+import type { AIProviderId } from '../ai/index.ts';
+import { ensureSafeInput, formatModerationMessage } from '../ai/moderation.ts';
+import { runRuleAnalyzer } from '../ai/rule-analyzer.ts';
+import { contractFingerprint } from './duplicates.ts';
+import { anchorFlag, type SpanMatch } from '../text/clauses.ts';
+import { sectionLabel, type ClauseNode } from '../text/outline.ts';
+import { AI_UNGROUNDED_FLAGS } from '../config/rules.ts';
+import { logEvent } from '../obs/logger.ts';
+
+export interface Flag {
+  clause: string;
+  severity: 'low' | 'medium' | 'high';
+  rationale: string;
+  suggestion: string;
+  rule_id?: string;
+  rule_version?: number;
+  rule_pack?: string;
+  rule_pack_version?: string;
+  span_start?: number | null;
+  span_end?: number | null;
+  context?: string;
+  keywords?: string[];
+  span_match?: SpanMatch | null;
+  /** false for AI flags whose quoted clause could not be found in the source text */
+  verified?: boolean;
+  /** Where the flag sits in the contract's clause tree ("Section 9.2 — Limitation of Liability") */
+  section?: string | null;
+}
+
+/** An uploaded file in the contracts bucket that a contract's text came from */
+export interface StoredFile {
+  storage_path: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  sha256: string | null;
+}
+
+export interface AnalysisInput {
+  req_id: string;
+  userId: string;
+  title: string | null;
+  text: string;
+  /** Numbered sections of the text, when it was extracted from a structured file */
+  clauseTree?: ClauseNode[] | null;
+  /** The original upload, kept for download and deleted with the user's data */
+  file?: StoredFile | null;
+  /** Re-analyze this existing contract (its text is `text`) instead of saving a new one */
+  contractId?: string | null;
+  /** Save the contract as the next version of this contract's family */
+  versionOf?: string | null;
+  /** Organization whose workspace the new contract is saved to (versions join their family's) */
+  organizationId?: string | null;
+  useAI: boolean;
+  aiProvider: AIProviderId | null;
+}
+
+export interface AnalysisOutput {
+  contract_id: string;
+  analysis_id: string;
+  overall_risk: 'low' | 'medium' | 'high';
+  summary: string;
+  flags: Flag[];
+  flags_ai: Flag[];
+  flags_rule: Flag[];
+  aiRan: boolean;
+  aiFallbackUsed: boolean;
+  aiProvider: AIProviderId | null;
+}
+
+/** Pipeline failure; `code` is stored on the job and `message` shown to the user */
+export type AnalysisError = Error & { code: string };
+
+function analysisError(message: string, code: string): AnalysisError {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Family and number of a new version of `contractId`: the family is named by its first
+ * version, and the new version comes after the highest one saved so far
+ */
+async function nextVersion(
+  supabase: SupabaseClient,
+  contractId: string
+): Promise<{ family_id: string; version: number; organization_id: string | null }> {
+  const { data: base } = await supabase
+    .from('contracts')
+    .select('id, family_id, organization_id')
+    .eq('id', contractId)
+    .maybeSingle();
+  if (!base) {
+    throw analysisError('The contract this is a new version of no longer exists', 'CONTRACT_MISSING');
+  }
+
+  const familyId: string = base.family_id ?? base.id;
+  const { data: latest } = await supabase
+    .from('contracts')
+    .select('version')
+    .or(`id.eq.${familyId},family_id.eq.${familyId}`)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return { family_id: familyId, version: (latest?.version ?? 1) + 1, organization_id: base.organization_id };
+}
+
+/**
+ * Save the contract being analyzed, or return the id of the existing one being re-analyzed
+ */
+async function saveContract(supabase: SupabaseClient, input: AnalysisInput): Promise<string> {
+  const { userId, title, text, clauseTree, file, contractId, versionOf, organizationId } = input;
+  if (contractId) return contractId;
+
+  // Fingerprinted, so later uploads of the same contract are recognised
+  const fingerprint = await contractFingerprint(text);
+  const insert = async () => await supabase
+    .from('contracts')
+    .insert({
+      user_id: userId,
+      title: title || null,
+      source_text: text,
+      ...fingerprint,
+      organization_id: organizationId ?? null,
+      ...(versionOf ? await nextVersion(supabase, versionOf) : {}),
+      clause_tree: clauseTree?.length ? clauseTree : null,
+      storage_path: file?.storage_path ?? null,
+      mime_type: file?.mime_type ?? null,
+      size_bytes: file?.size_bytes ?? null,
+      sha256: file?.sha256 ?? null
+    })
+    .select('id')
+    .single();
+
+  // A version saved to the same family meanwhile took the number (unique per family); take the next
+  let { data: contract, error: cErr } = await insert();
+  for (let attempt = 1; versionOf && cErr?.code === '23505' && attempt < 3; attempt++) {
+    ({ data: contract, error: cErr } = await insert());
+  }
+
+  if (cErr || !contract) {
+    console.error('Contract insert error:', cErr);
+    throw analysisError('Failed to save contract', 'DB_ERROR');
+  }
+  return contract.id;
+}
+
+/**
+ * Analyze `input.text` and persist the results
+ * `onProgress` receives a rough 0-100 completion estimate as the work advances.
+ * Throws an AnalysisError when the text is blocked by moderation or nothing could be saved;
+ * AI failures fall back to the rule-based results.
+ */
+export async function runContractAnalysis(
+  supabase: SupabaseClient,
+  input: AnalysisInput,
+  onProgress?: (progress: number) => void
+): Promise<AnalysisOutput> {
+  const { req_id, userId, title, text: trimmedText, clauseTree, useAI, aiProvider } = input;
+  console.log(`Analyzing contract: ${title || 'Untitled'}, useAI: ${useAI}`);
+  console.log(`Text length: ${trimmedText.length} characters`);
+
+  // 3) Insert CONTRACT row first (or reuse the contract being re-analyzed)
+  const contract = { id: await saveContract(supabase, input) };
+  console.log(`${input.contractId ? 'Re-analyzing' : 'Contract saved with'} ID: ${contract.id}`);
+
+  // 4) Run RULE-BASED analyzer
+  const ruleBased = await runRuleAnalyzer(trimmedText);
+  onProgress?.(15);
+
+  // 5) Optionally run AI analysis
+  const aiRequested = useAI === true;
+  let aiRan = false;
+  let aiFallbackUsed = false;
+  let aiResult: ChunkedAnalysisResult | null = null;
+  const ruleFlags = ruleBased.flags; // Keep original rule-based flags
+  let aiFlags: Flag[] = []; // Keep AI flags separate
+  let aiUngrounded = 0;
+  let result;
+
+  if (aiRequested) {
+    logEvent('ai_attempt', { req_id, ai_provider: aiProvider });
+
+    // Check if the text is meaningful enough for AI analysis
+    const isPlaceholder = trimmedText.includes('Please copy and paste your contract text below') ||
+                         trimmedText.includes('extraction is not yet implemented') ||
+                         trimmedText.includes('extraction failed') ||
+                         trimmedText.length < 50; // Reduced from 100 to 50
+
+    if (isPlaceholder) {
+      console.log('AI analysis skipped - text appears to be placeholder or too short');
+      logEvent('ai_skipped', { req_id, reason: 'placeholder_text' });
+      // Continue without AI analysis - use rule-based only
+      result = { ...ruleBased, ruleFlags, aiFlags: [] };
+    } else {
+      try {
+        await ensureSafeInput(trimmedText, aiProvider ?? undefined);
+        // AI is most of the work: report it as 15% → 90%
+        aiResult = await runChunkedAIAnalysis(trimmedText, aiProvider ?? undefined, (finished, total) =>
+          onProgress?.(15 + Math.round((75 * finished) / total))
+        );
+        aiRan = true;
+
+        // Check every AI quote against the submitted text before it reaches the report
+        const grounding = groundAIFlags(aiResult.flags);
+        aiUngrounded = grounding.ungrounded;
+        aiFlags = grounding.flags; // Store AI flags separately
+        if (aiUngrounded > 0) {
+          console.warn(`${aiUngrounded} of ${aiResult.flags.length} AI flags not found in the source text (${AI_UNGROUNDED_FLAGS})`);
+        }
+
+        logEvent('ai_success', {
+          req_id,
+          ai_provider: aiResult?.meta?.provider || null,
+          ai_model: aiResult?.meta?.model || null,
+          ai_tokens_in: aiResult?.meta?.tokens_in || null,
+          ai_tokens_out: aiResult?.meta?.tokens_out || null,
+          ai_latency_ms: aiResult?.meta?.latency_ms || null,
+          ai_chunks: aiResult?.chunks || null,
+          ai_flags: aiResult.flags.length,
+          ai_ungrounded_flags: aiUngrounded
+        });
+
+        // Merge results
+        // a) Flags de-dup (prefer AI severity on conflicts)
+        const norm = (s: string): string => s.toLowerCase().replace(/\s+/g, ' ').slice(0, 140);
+
+        const pickSeverity = (a: string, b: string): 'low' | 'medium' | 'high' => {
+          const rank = { low: 0, medium: 1, high: 2 };
+          // prefer AI on tie or conflict
+          return rank[b as keyof typeof rank] >= rank[a as keyof typeof rank] ? b as 'low' | 'medium' | 'high' : a as 'low' | 'medium' | 'high';
+        };
+
+        const byKey = new Map(); // key = normalized snippet
+        for (const f of ruleBased.flags) {
+          // Several rules (or occurrences) can share a sentence; keep each of them
+          let k = norm(f.clause);
+          if (byKey.has(k)) k = `${k}#${f.rule_id}@${f.span_start}`;
+          byKey.set(k, { ...f });
+        }
+        for (const f of aiFlags) {
+          const k = norm(f.clause);
+          if (!byKey.has(k)) {
+            byKey.set(k, { ...f });
+          } else {
+            const prev = byKey.get(k);
+            // The longer quote wins (unless the AI one wasn't found in the text), together
+            // with its own anchor so the stored span matches it
+            const quote = f.clause.length > prev.clause.length && f.verified !== false ? f : prev;
+            byKey.set(k, {
+              ...prev,
+              clause: quote.clause,
+              span_start: quote.span_start,
+              span_end: quote.span_end,
+              context: quote.context,
+              keywords: quote.keywords,
+              span_match: quote.span_match,
+              verified: quote.verified,
+              severity: pickSeverity(prev.severity, f.severity),
+              rationale: f.rationale || prev.rationale,
+              suggestion: f.suggestion || prev.suggestion
+            });
+          }
+        }
+        const mergedFlags = Array.from(byKey.values());
+
+        // b) Overall risk = max(ruleBased, ai)
+        const rank = { low: 0, medium: 1, high: 2 };
+        const overall_risk = (rank[aiResult.overall_risk as keyof typeof rank] > rank[ruleBased.overall_risk as keyof typeof rank])
+          ? aiResult.overall_risk
+          : ruleBased.overall_risk;
+
+        // c) Summary prefer AI
+        const summary = aiResult.summary || ruleBased.summary;
+
+        result = { overall_risk, summary, flags: mergedFlags, ai: { ...aiResult, flags: aiFlags }, ruleFlags, aiFlags };
+      } catch (err) {
+        const e = err as { code?: string; categories?: string[] };
+        logEvent('ai_failure', { req_id, error_code: e?.code || 'AI_ERROR' });
+
+        if (e?.code === 'CONTENT_BLOCKED') {
+          throw analysisError(formatModerationMessage(e.categories || []), 'CONTENT_BLOCKED');
+        }
+        console.error('AI analysis failed', err);
+        aiFallbackUsed = true;
+        // Fallback to rule-based results
+        result = { ...ruleBased, ruleFlags, aiFlags: [] };
+      }
+    }
+  } else {
+    // AI was not requested; keep defaults (false/false)
+    result = { ...ruleBased, ruleFlags, aiFlags: [] };
+  }
+
+  // 6) Insert ANALYSIS row
+  const { overall_risk, summary } = result;
+
+  // Anchor every flag to its position in the stored source text
+  // (AI flags from a chunked analysis are already anchored within their chunk)
+  const flags: Flag[] = result.flags
+    .map((f: Flag) => (f.span_match !== undefined ? f : { ...f, ...anchorFlag(trimmedText, f) }))
+    .map((f: Flag) => ({
+      ...f,
+      section: clauseTree?.length && typeof f.span_start === 'number' ? sectionLabel(clauseTree, f.span_start) : null
+    }));
+
+  const aiMeta = aiRan && aiResult?.meta ? aiResult.meta : null;
+
+  const { data: analysis, error: aErr } = await supabase
+    .from('analyses')
+    .insert({
+      user_id: userId,
+      contract_id: contract.id,
+      overall_risk,
+      analyzed_risk: overall_risk,
+      summary,
+      ai_provider:   aiMeta ? aiMeta.provider : null,
+      ai_model:      aiMeta ? (aiMeta.model ?? null) : null,
+      ai_tokens_in:  aiMeta ? (aiMeta.tokens_in ?? null) : null,
+      ai_tokens_out: aiMeta ? (aiMeta.tokens_out ?? null) : null,
+      ai_latency_ms: aiMeta ? (aiMeta.latency_ms ?? null) : null,
+      ai_raw:        aiMeta ? (aiMeta.raw ?? null) : null,
+      ai_fallback_used: aiFallbackUsed,
+      ai_ungrounded_flags: aiRan ? aiUngrounded : null
+    })
+    .select()
+    .single();
+
+  if (aErr || !analysis) {
+    console.error('Analysis insert error:', aErr);
+    throw analysisError('Failed to save analysis', 'DB_ERROR');
+  }
+
+  console.log(`Analysis saved with ID: ${analysis.id}`);
+  logEvent('analyze_persisted', {
+    req_id,
+    user_id: userId,
+    contract_id: contract.id,
+    analysis_id: analysis.id
+  });
+  onProgress?.(95);
+
+  // 7) Bulk insert FLAGS
+  if (flags.length > 0) {
+    const rows = flags.map(f => ({
+      user_id: userId,
+      analysis_id: analysis.id,
+      clause: f.clause,
+      severity: f.severity,
+      rationale: f.rationale,
+      suggestion: f.suggestion,
+      span_start: f.span_start,
+      span_end: f.span_end,
+      context: f.context || null,
+      keywords: f.keywords?.length ? f.keywords : null,
+      span_match: f.span_match,
+      // Rule flags (and AI flags merged into them) are located by construction
+      verified: f.verified ?? true,
+      section: f.section ?? null,
+      rule_id: f.rule_id ?? null,
+      rule_version: f.rule_version ?? null,
+      rule_pack: f.rule_pack ?? null,
+      rule_pack_version: f.rule_pack_version ?? null
+    }));
+
+    const { error: fErr } = await supabase.from('flags').insert(rows);
+    if (fErr) {
+      console.error('Flag insert error', fErr);
+    } else {
+      const unanchored = flags.filter(f => f.span_match === null).length;
+      console.log(`${flags.length} flags saved (${unanchored} without a source span)`);
+    }
+  }
+
+  console.log(`Analysis complete: ${overall_risk} risk, ${flags.length} flags, AI: ${aiRan}, fallback: ${aiFallbackUsed}`);
+
+  return {
+    contract_id: contract.id,
+    analysis_id: analysis.id,
+    overall_risk,
+    summary,
+    flags,
+    flags_ai: aiRan ? aiFlags : [],
+    flags_rule: ruleFlags || [],
+    aiRan,
+    aiFallbackUsed,
+    aiProvider: aiRan ? aiProvider : null
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * Share links: read-only access to one analysis for people without an account.
+ * A link's token carries its id and expiry signed with SHARE_LINK_SECRET, so it can't be
+ * guessed or extended; the share_links row is what lets it be revoked.
+ * Recipients see the analysis as it came out: reviews, notes and comments stay internal
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SHARE_LINK_DEFAULT_DAYS, SHARE_LINK_MAX_DAYS } from '../config/rules.ts';
+import { getRequiredEnv } from '../env-utils.ts';
+import { analysisAccess, canEdit } from '../orgs/access.ts';
+import { userEmails } from '../orgs/members.ts';
+
+// Most recent opens listed per link
+const VIEWS_LISTED = 50;
+
+// Longest user agent kept in the access log
+const USER_AGENT_MAX_CHARS = 300;
+
+const SHARE_LINK_COLUMNS = 'id, analysis_id, created_by, hide_suggestions, hide_source_text, expires_at, revoked_at, created_at';
+
+// What a recipient sees of a flag (no review status, note or reviewer)
+const SHARED_FLAG_COLUMNS = 'id, clause, severity, rationale, suggestion, keywords, context, section, span_start, span_end, span_match, verified';
+
+type Risk = 'low' | 'medium' | 'high';
+
+export interface ShareOptions {
+  expires_in_days?: number;
+  hide_suggestions?: boolean;
+  hide_source_text?: boolean;
+}
+
+export interface ShareLinkView {
+  viewed_at: string;
+  user_agent: string | null;
+}
+
+export interface ShareLink {
+  id: string;
+  analysis_id: string;
+  created_by_email: string | null;
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  /** Token for the link's URL; null once the link no longer opens */
+  token: string | null;
+  view_count: number;
+  /** Most recent opens, newest first */
+  views: ShareLinkView[];
+}
+
+export interface SharedFlag {
+  id: string;
+  clause: string | null;
+  severity: Risk;
+  rationale: string | null;
+  /** null when the link hides suggestions */
+  suggestion: string | null;
+  keywords: string[] | null;
+  /** null when the link hides the contract text */
+  context: string | null;
+  section: string | null;
+  span_start: number | null;
+  span_end: number | null;
+  span_match: string | null;
+  verified: boolean | null;
+}
+
+export interface SharedReport {
+  analysis: {
+    id: string;
+    overall_risk: Risk;
+    summary: string | null;
+    created_at: string;
+    ai_provider: string | null;
+    ai_model: string | null;
+    ai_fallback_used: boolean | null;
+    contract: {
+      title: string | null;
+      version: number;
+      /** null when the link hides the contract text */
+      source_text: string | null;
+    };
+  };
+  flags: SharedFlag[];
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+  expires_at: string;
+}
+
+interface ShareLinkRow {
+  id: string;
+  analysis_id: string;
+  created_by: string | null;
+  hide_suggestions: boolean;
+  hide_source_text: boolean;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+function shareError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+const encoder = new TextEncoder();
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function linkSigningKey(): Promise<CryptoKey> {
+  signingKey ??= crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getRequiredEnv('SHARE_LINK_SECRET')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+  return signingKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+const expirySeconds = (expiresAt: string) => Math.floor(Date.parse(expiresAt) / 1000);
+
+/** "<link id>.<expiry, unix seconds>.<signature>" */
+async function signToken(linkId: string, expiresAt: string): Promise<string> {
+  const payload = `${linkId}.${expirySeconds(expiresAt)}`;
+  const signature = await crypto.subtle.sign('HMAC', await linkSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The link id and expiry a token was signed for, or null if it wasn't signed by us */
+async function readToken(token: string): Promise<{ linkId: string; expires: number } | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !/^\d+$/.test(parts[1])) return null;
+
+  const signature = fromBase64Url(parts[2]);
+  if (!signature) return null;
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await linkSigningKey(),
+    signature,
+    encoder.encode(`${parts[0]}.${parts[1]}`)
+  );
+  return valid ? { linkId: parts[0], expires: Number(parts[1]) } : null;
+}
+
+const isActive = (link: ShareLinkRow) => !link.revoked_at && Date.parse(link.expires_at) > Date.now();
+
+/** Sharing is for those who can work on the analysis, not its viewers */
+async function requireSharer(supabase: SupabaseClient, userId: string, analysisId: string): Promise<void> {
+  const access = await analysisAccess(supabase, userId, analysisId);
+  if (!access) throw shareError('Analysis not found', 'NOT_FOUND');
+  if (!canEdit(access.role)) throw shareError('Viewers cannot share reports', 'NOT_ALLOWED');
+}
+
+async function describeLinks(supabase: SupabaseClient, links: ShareLinkRow[]): Promise<ShareLink[]> {
+  const emails = await userEmails(supabase, links.flatMap(l => l.created_by ? [l.created_by] : []));
+
+  return Promise.all(links.map(async (link) => {
+    const { data: views, count } = await supabase
+      .from('share_link_views')
+      .select('viewed_at, user_agent', { count: 'exact' })
+      .eq('share_link_id', link.id)
+      .order('viewed_at', { ascending: false })
+      .limit(VIEWS_LISTED);
+
+    const { created_by, ...rest } = link;
+    return {
+      ...rest,
+      created_by_email: created_by ? emails.get(created_by) ?? null : null,
+      token: isActive(link) ? await signToken(link.id, link.expires_at) : null,
+      view_count: count ?? 0,
+      views: views || []
+    };
+  }));
+}
+
+/** Links to an analysis, newest first */
+export async function listShareLinks(supabase: SupabaseClient, userId: string, analysisId: string): Promise<ShareLink[]> {
+  await requireSharer(supabase, userId, analysisId);
+
+  const { data, error } = await supabase
+    .from('share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('analysis_id', analysisId)
+    .order('created_at', { ascending: false });
+  if (error) throw shareError(`Failed to load share links: ${error.message}`, 'DB_ERROR');
+
+  return describeLinks(supabase, data || []);
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string,
+  options: ShareOptions
+): Promise<ShareLink> {
+  await requireSharer(supabase, userId, analysisId);
+
+  const days = options.expires_in_days ?? SHARE_LINK_DEFAULT_DAYS;
+  if (typeof days !== 'number' || !(days > 0) || days > SHARE_LINK_MAX_DAYS) {
+    throw shareError(`A link can last up to ${SHARE_LINK_MAX_DAYS} days`, 'INVALID');
+  }
+  // Whole seconds, as in the token
+  const expiresAt = new Date(Math.floor((Date.now() + days * 24 * 60 * 60 * 1000) / 1000) * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('share_links')
+    .insert({
+      analysis_id: analysisId,
+      created_by: userId,
+      hide_suggestions: options.hide_suggestions === true,
+      hide_source_text: options.hide_source_text === true,
+      expires_at: expiresAt
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+  if (error || !data) throw shareError(`Failed to create share link: ${error?.message}`, 'DB_ERROR');
+
+  const [link] = await describeLinks(supabase, [data]);
+  return link;
+}
+
+/** Stops a link from opening; revoking it again changes nothing */
+export async function revokeShareLink(supabase: SupabaseClient, userId: string, linkId: string): Promise<ShareLink> {
+  const { data: link } = await supabase
+    .from('share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('id', linkId)
+    .maybeSingle();
+  if (!link) throw shareError('Share link not found', 'NOT_FOUND');
+  await requireSharer(supabase, userId, link.analysis_id);
+
+  if (link.revoked_at) return (await describeLinks(supabase, [link]))[0];
+
+  const { data, error } = await supabase
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: userId })
+    .eq('id', linkId)
+    .select(SHARE_LINK_COLUMNS)
+    .single();
+  if (error || !data) throw shareError(`Failed to revoke share link: ${error?.message}`, 'DB_ERROR');
+
+  return (await describeLinks(supabase, [data]))[0];
+}
+
+/**
+ * The report a token opens, without what the link hides. Records the open in the
+ * link's access log. Expired and revoked links are told apart from invalid ones (GONE)
+ */
+export async function openSharedReport(
+  supabase: SupabaseClient,
+  token: string,
+  userAgent: string | null
+): Promise<{ link: ShareLinkRow; report: SharedReport }> {
+  const signed = await readToken(token);
+  if (!signed) throw shareError('This link is not valid', 'NOT_FOUND');
+
+  const { data: link } = await supabase
+    .from('share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('id', signed.linkId)
+    .maybeSingle();
+  if (!link || expirySeconds(link.expires_at) !== signed.expires) {
+    throw shareError('This link is not valid', 'NOT_FOUND');
+  }
+  if (link.revoked_at) throw shareError('This link has been revoked', 'GONE');
+  if (!isActive(link)) throw shareError('This link has expired', 'GONE');
+
+  const { data: analysis } = await supabase
+    .from('analyses')
+    .select('id, overall_risk, analyzed_risk, summary, created_at, ai_provider, ai_model, ai_fallback_used, contract:contracts(title, version, source_text)')
+    .eq('id', link.analysis_id)
+    .maybeSingle();
+  if (!analysis) throw shareError('This report no longer exists', 'GONE');
+
+  const { data: flags, error: flagsError } = await supabase
+    .from('flags')
+    .select(SHARED_FLAG_COLUMNS)
+    .eq('analysis_id', link.analysis_id)
+    .order('severity', { ascending: false });
+  if (flagsError) throw shareError(`Failed to load flags: ${flagsError.message}`, 'DB_ERROR');
+
+  const { error: viewError } = await supabase
+    .from('share_link_views')
+    .insert({ share_link_id: link.id, user_agent: userAgent?.slice(0, USER_AGENT_MAX_CHARS) || null });
+  if (viewError) console.error('Failed to log share link view:', viewError);
+
+  const contract = analysis.contract as unknown as { title: string | null; version: number | null; source_text: string | null } | null;
+  const { analyzed_risk, ...shared } = analysis;
+
+  return {
+    link,
+    report: {
+      analysis: {
+        ...shared,
+        // As analyzed: the risk after internal review would give the review away
+        overall_risk: (analyzed_risk || analysis.overall_risk) as Risk,
+        contract: {
+          title: contract?.title ?? null,
+          version: contract?.version ?? 1,
+          source_text: link.hide_source_text ? null : contract?.source_text ?? null
+        }
+      },
+      flags: (flags || []).map(f => ({
+        ...f,
+        severity: f.severity as Risk,
+        suggestion: link.hide_suggestions ? null : f.suggestion,
+        // The text around a clause is part of the contract text
+        context: link.hide_source_text ? null : f.context
+      })),
+      hide_suggestions: link.hide_suggestions,
+      hide_source_text: link.hide_source_text,
+      expires_at: link.expires_at
+    }
+  };
+}
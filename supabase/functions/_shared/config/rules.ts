@@ -3,4 +3,74 @@
  */
 
 export const ANALYZE_COOLDOWN_SECONDS = Number(Deno.env.get('ANALYZE_COOLDOWN_SECONDS') || 60);
-export const MAX_ANALYZE_CHARS = Number(Deno.env.get('MAX_ANALYZE_CHARS') || 60000);
\ No newline at end of file
+
+// Analysis jobs still extracting/analyzing after this long are failed as abandoned
+export const ANALYSIS_JOB_STALE_MINUTES = Number(Deno.env.get('ANALYSIS_JOB_STALE_MINUTES') || 15);
+
+// Long contracts are analyzed by AI in section-aligned chunks of at most this many characters
+// (kept below the provider's own input cap so nothing is truncated)
+export const AI_CHUNK_CHARS = Number(Deno.env.get('AI_CHUNK_CHARS') || 50000);
+export const AI_CHUNK_CONCURRENCY = Number(Deno.env.get('AI_CHUNK_CONCURRENCY') || 3);
+
+// Longest contract text accepted for analysis; with AI_CHUNK_CHARS this bounds the AI calls per analysis
+export const MAX_ANALYZE_CHARS = Number(Deno.env.get('MAX_ANALYZE_CHARS') || 600000);
+
+// Comma-separated ids of the bundled rule packs the rule-based analyzer loads
+export const RULE_PACKS = (Deno.env.get('RULE_PACKS') || 'core')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+// Default AI provider per plan, as comma-separated plan:provider pairs (e.g. "free:local,pro:anthropic")
+export const AI_PLAN_PROVIDERS: Record<string, string> = Object.fromEntries(
+  (Deno.env.get('AI_PLAN_PROVIDERS') || '')
+    .split(',')
+    .map((pair) => pair.split(':').map((s) => s.trim().toLowerCase()))
+    .filter((pair) => pair.length === 2 && pair[0] && pair[1])
+);
+
+// Providers a single request may ask for explicitly
+export const AI_REQUEST_PROVIDERS = (Deno.env.get('AI_REQUEST_PROVIDERS') || 'openai,anthropic,local')
+  .split(',')
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+// What to do with AI flags whose quoted clause can't be found in the contract text:
+// 'mark' keeps them flagged as unverified, 'drop' leaves them out of the report
+export const AI_UNGROUNDED_FLAGS = (Deno.env.get('AI_UNGROUNDED_FLAGS') || 'mark').trim().toLowerCase() === 'drop'
+  ? 'drop'
+  : 'mark';
+
+// OCR of scanned PDFs and image uploads (Tesseract, run locally as WebAssembly)
+export const OCR_ENABLED = (Deno.env.get('OCR_ENABLED') || 'true').trim().toLowerCase() !== 'false';
+// Scanned pages beyond this are skipped (OCR takes a few seconds per page)
+export const OCR_MAX_PAGES = Number(Deno.env.get('OCR_MAX_PAGES') || 30);
+// Lines read with a confidence (0-100) below this are listed in the extraction notes
+export const OCR_MIN_CONFIDENCE = Number(Deno.env.get('OCR_MIN_CONFIDENCE') || 60);
+// English model from a pinned npm release (published versions never change), checked
+// against OCR_MODEL_SHA256 before it is loaded; set both when switching models
+export const OCR_MODEL_URL = Deno.env.get('OCR_MODEL_URL') ||
+  'https://cdn.jsdelivr.net/npm/@tesseract.js-data/eng@1.0.0/4.0.0_best_int/eng.traineddata.gz';
+export const OCR_MODEL_SHA256 = (Deno.env.get('OCR_MODEL_SHA256') ||
+  '45b4cb346724ac1774f1c36f42f182b887bcdb28ebe63e6fff90ac41f3fcff91').trim().toLowerCase();
+export const OCR_WASM_URL = Deno.env.get('OCR_WASM_URL') ||
+  'https://cdn.jsdelivr.net/npm/tesseract-wasm@0.10.0/dist/tesseract-core.wasm';
+
+// Duplicate detection: contracts whose MinHash fingerprints agree on at least this share
+// (0-1) count as near-duplicates of an earlier analysis
+export const DUPLICATE_SIMILARITY = Number(Deno.env.get('DUPLICATE_SIMILARITY') || 0.9);
+// Most recent contracts of the user compared for near-duplicates
+export const DUPLICATE_SCAN_LIMIT = Number(Deno.env.get('DUPLICATE_SCAN_LIMIT') || 200);
+
+// Longest reviewer note kept on a flag
+export const FLAG_REVIEW_NOTE_MAX_CHARS = Number(Deno.env.get('FLAG_REVIEW_NOTE_MAX_CHARS') || 2000);
+
+// Longest accepted redline (rewritten clause) kept on a flag
+export const FLAG_REDLINE_MAX_CHARS = Number(Deno.env.get('FLAG_REDLINE_MAX_CHARS') || 10000);
+
+// Longest comment accepted in a discussion thread
+export const COMMENT_MAX_CHARS = Number(Deno.env.get('COMMENT_MAX_CHARS') || 5000);
+
+// Share links to a report: lifetime when none is asked for, and the longest allowed
+export const SHARE_LINK_DEFAULT_DAYS = Number(Deno.env.get('SHARE_LINK_DEFAULT_DAYS') || 7);
+export const SHARE_LINK_MAX_DAYS = Number(Deno.env.get('SHARE_LINK_MAX_DAYS') || 90);
@@ -0,0 +1,408 @@
+/**
+ * PDF version of the analysis report, with the DOCX export's content: a cover with the
+ * risk badge, contents, summary, issues and accepted redlines, and numbered pages.
+ * Drawn with pdf-lib and its standard fonts, so it renders inside an edge function without
+ * a browser; those fonts only cover Western European text (WinAnsi), other characters are
+ * written as their closest match or "?"
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'https://esm.sh/pdf-lib@1.17.1';
+import { diffWords } from 'https://esm.sh/diff@8.0.2';
+
+type Risk = 'low' | 'medium' | 'high';
+
+export interface PdfReportFlag {
+  severity: Risk;
+  section: string | null;
+  clause: string | null;
+  rationale: string | null;
+  suggestion: string | null;
+  /** Rewrite of the clause accepted in review */
+  redline: string | null;
+}
+
+export interface PdfReport {
+  title: string;
+  analyzed_at: string;
+  overall_risk: Risk | null;
+  summary: string | null;
+  flags: PdfReportFlag[];
+}
+
+// A4, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Body text stays clear of the running header and the page number
+const CONTENT_TOP = PAGE_HEIGHT - MARGIN - 20;
+const CONTENT_BOTTOM = MARGIN + 20;
+const TOC_LINE_HEIGHT = 18;
+
+const BRAND = rgb(0.231, 0.510, 0.965);
+const TEXT = rgb(0.067, 0.094, 0.153);
+const MUTED = rgb(0.420, 0.447, 0.502);
+const WHITE = rgb(1, 1, 1);
+// As the DOCX export marks them
+const DELETED = rgb(0.863, 0.149, 0.149);
+const INSERTED = rgb(0.086, 0.639, 0.290);
+
+const RISK_COLORS: Record<Risk, RGB> = {
+  high: rgb(0.863, 0.149, 0.149),
+  medium: rgb(0.851, 0.467, 0.024),
+  low: rgb(0.086, 0.639, 0.290)
+};
+
+const DISCLAIMER = 'Generated by ClauseWise - AI Contract Analysis. This is not legal advice.';
+
+// Characters outside WinAnsi that have a plain equivalent
+const SUBSTITUTES: Record<string, string> = {
+  '‐': '-', '‑': '-', '‒': '-', '−': '-',
+  '←': '<-', '→': '->', '↔': '<->', '≤': '<=', '≥': '>=', '≠': '!=',
+  'Ł': 'L', 'ł': 'l', 'Đ': 'D', 'đ': 'd', 'ı': 'i', '′': "'", '″': '"', '✓': 'v', '✕': 'x', '●': '•', '▪': '•'
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  mono: PDFFont;
+}
+
+interface Style {
+  font: PDFFont;
+  size: number;
+  color?: RGB;
+  strike?: boolean;
+  underline?: boolean;
+}
+
+interface Span {
+  text: string;
+  style: Style;
+}
+
+interface Token {
+  text: string;
+  style: Style;
+  width: number;
+  space: boolean;
+}
+
+interface TocEntry {
+  title: string;
+  level: number;
+  /** Index of the page the section starts on */
+  page: number;
+}
+
+/** Text as the standard fonts can write it */
+function encoder(font: PDFFont): (text: string) => string {
+  const supported = new Set(font.getCharacterSet());
+  const encode = (c: string): string => {
+    if (c === '\n' || supported.has(c.codePointAt(0)!)) return c;
+    if (SUBSTITUTES[c]) return SUBSTITUTES[c];
+    // Accented letters WinAnsi lacks ("č", "ł") lose the accent
+    const base = c.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    return base && Array.from(base).every(b => supported.has(b.codePointAt(0)!)) ? base : '?';
+  };
+  return (text) => Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, ' '), encode).join('');
+}
+
+/**
+ * Lines of `spans` fitting in `width`. Words are kept whole unless longer than a line;
+ * runs of whitespace count as one space and "\n" starts a new line
+ */
+function wrap(spans: Span[], width: number, encode: (text: string) => string): Token[][] {
+  const lines: Token[][] = [[]];
+  let x = 0;
+  const breakLine = () => {
+    const line = lines[lines.length - 1];
+    while (line.length > 0 && line[line.length - 1].space) line.pop();
+    lines.push([]);
+    x = 0;
+  };
+  const place = (text: string, style: Style, space: boolean) => {
+    const tokenWidth = style.font.widthOfTextAtSize(text, style.size);
+    lines[lines.length - 1].push({ text, style, width: tokenWidth, space });
+    x += tokenWidth;
+  };
+
+  for (const { text, style } of spans) {
+    encode(text).split('\n').forEach((part, i) => {
+      if (i > 0) breakLine();
+      for (const word of part.split(/(\s+)/)) {
+        if (!word) continue;
+        if (/^\s+$/.test(word)) {
+          if (lines[lines.length - 1].length > 0) place(' ', style, true);
+          continue;
+        }
+        if (x + style.font.widthOfTextAtSize(word, style.size) > width && lines[lines.length - 1].length > 0) {
+          breakLine();
+        }
+        let rest = word;
+        while (style.font.widthOfTextAtSize(rest, style.size) > width) {
+          let fits = 1;
+          while (fits < rest.length && style.font.widthOfTextAtSize(rest.slice(0, fits + 1), style.size) <= width) fits++;
+          place(rest.slice(0, fits), style, false);
+          breakLine();
+          rest = rest.slice(fits);
+        }
+        place(rest, style, false);
+      }
+    });
+  }
+  const last = lines[lines.length - 1];
+  while (last.length > 0 && last[last.length - 1].space) last.pop();
+  return lines;
+}
+
+/** Draws a wrapped line, each run of one style as a single string so it copies as text */
+function drawTokens(page: PDFPage, line: Token[], x: number, y: number) {
+  for (let i = 0; i < line.length;) {
+    const style = line[i].style;
+    const { font, size, color = TEXT, strike, underline } = style;
+    let text = '';
+    let width = 0;
+    for (; i < line.length && line[i].style === style; i++) {
+      text += line[i].text;
+      width += line[i].width;
+    }
+    if (text.trim()) page.drawText(text, { x, y, size, font, color });
+    if (strike) {
+      page.drawLine({ start: { x, y: y + size * 0.3 }, end: { x: x + width, y: y + size * 0.3 }, thickness: 0.7, color });
+    }
+    if (underline) {
+      page.drawLine({ start: { x, y: y - 1.5 }, end: { x: x + width, y: y - 1.5 }, thickness: 0.7, color });
+    }
+    x += width;
+  }
+}
+
+/**
+ * Flowing layout over as many pages as the content needs, keeping track of where each
+ * section starts for the contents
+ */
+function createLayout(pdf: PDFDocument, encode: (text: string) => string) {
+  const pages: PDFPage[] = [];
+  const toc: TocEntry[] = [];
+  let page: PDFPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = CONTENT_TOP;
+  };
+
+  /** Starts a new page unless `height` still fits on this one */
+  const keep = (height: number) => {
+    if (y - height < CONTENT_BOTTOM) newPage();
+  };
+
+  const paragraph = (spans: Span[], { indent = 0, after = 8, leading = 1.4 } = {}) => {
+    for (const line of wrap(spans, CONTENT_WIDTH - indent, encode)) {
+      const size = Math.max(spans[0]?.style.size ?? 10, ...line.map(t => t.style.size));
+      keep(size * leading);
+      y -= size * leading;
+      drawTokens(page, line, MARGIN + indent, y);
+    }
+    y -= after;
+  };
+
+  /** A heading listed in the contents, kept on the page with what follows it */
+  const heading = (title: string, style: Style, level: number, { before = 12, keepWith = 60 } = {}) => {
+    if (y < CONTENT_TOP) y -= before;
+    keep(style.size * 1.4 + keepWith);
+    toc.push({ title, level, page: pages.length - 1 });
+    paragraph([{ text: title, style }], { after: 6 });
+  };
+
+  return { pages, toc, newPage, paragraph, heading };
+}
+
+/** Cover: brand band, report title, contract, risk badge and issue counts */
+function drawCover(page: PDFPage, report: PdfReport, fonts: Fonts, encode: (text: string) => string) {
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 130, width: PAGE_WIDTH, height: 130, color: BRAND });
+  page.drawText('ClauseWise', { x: MARGIN, y: PAGE_HEIGHT - 78, size: 30, font: fonts.bold, color: WHITE });
+  page.drawText('AI Contract Analysis', { x: MARGIN, y: PAGE_HEIGHT - 100, size: 12, font: fonts.regular, color: WHITE });
+
+  let y = PAGE_HEIGHT - 210;
+  page.drawText('Contract Risk Report', { x: MARGIN, y, size: 26, font: fonts.bold, color: TEXT });
+  y -= 20;
+  for (const line of wrap([{ text: report.title, style: { font: fonts.regular, size: 16 } }], CONTENT_WIDTH, encode)) {
+    y -= 22;
+    drawTokens(page, line, MARGIN, y);
+  }
+  y -= 22;
+  page.drawText(encode(`Analysis Date: ${new Date(report.analyzed_at).toLocaleDateString()}`), {
+    x: MARGIN, y, size: 11, font: fonts.regular, color: MUTED
+  });
+
+  // Risk badge
+  const label = `${report.overall_risk?.toUpperCase() || 'UNKNOWN'} RISK`;
+  const labelWidth = fonts.bold.widthOfTextAtSize(label, 16);
+  y -= 62;
+  page.drawRectangle({ x: MARGIN, y, width: labelWidth + 32, height: 34, color: report.overall_risk ? RISK_COLORS[report.overall_risk] : MUTED });
+  page.drawText(label, { x: MARGIN + 16, y: y + 11, size: 16, font: fonts.bold, color: WHITE });
+  page.drawText('Overall Risk', { x: MARGIN + labelWidth + 48, y: y + 12, size: 12, font: fonts.regular, color: MUTED });
+
+  const count = (severity: Risk) => report.flags.filter(f => f.severity === severity).length;
+  const issues = report.flags.length === 1 ? '1 issue' : `${report.flags.length} issues`;
+  y -= 34;
+  page.drawText(`${issues} found: ${count('high')} high, ${count('medium')} medium, ${count('low')} low`, {
+    x: MARGIN, y, size: 12, font: fonts.regular, color: TEXT
+  });
+
+  page.drawText(DISCLAIMER, { x: MARGIN, y: MARGIN, size: 9, font: fonts.italic, color: MUTED });
+}
+
+/** Contents on the pages reserved for them, with dot leaders to each page number */
+function drawContents(pages: PDFPage[], toc: TocEntry[], fonts: Fonts, encode: (text: string) => string) {
+  let pageIndex = 0;
+  let y = CONTENT_TOP - 24;
+  pages[0].drawText('Contents', { x: MARGIN, y, size: 20, font: fonts.bold, color: TEXT });
+  y -= 16;
+
+  for (const entry of toc) {
+    if (y - TOC_LINE_HEIGHT < CONTENT_BOTTOM) {
+      pageIndex++;
+      y = CONTENT_TOP;
+    }
+    y -= TOC_LINE_HEIGHT;
+    const font = entry.level === 1 ? fonts.bold : fonts.regular;
+    const size = entry.level === 1 ? 11 : 10;
+    const indent = (entry.level - 1) * 16;
+    const number = String(entry.page + 1);
+    const numberWidth = font.widthOfTextAtSize(number, size);
+
+    // Titles too long for the line are cut short
+    let title = encode(entry.title);
+    const room = CONTENT_WIDTH - indent - numberWidth - 24;
+    if (font.widthOfTextAtSize(title, size) > room) {
+      while (title && font.widthOfTextAtSize(`${title}...`, size) > room) title = title.slice(0, -1);
+      title = `${title.trimEnd()}...`;
+    }
+    const page = pages[pageIndex];
+    page.drawText(title, { x: MARGIN + indent, y, size, font, color: TEXT });
+
+    const dotsStart = MARGIN + indent + font.widthOfTextAtSize(title, size) + 6;
+    const dotsEnd = PAGE_WIDTH - MARGIN - numberWidth - 6;
+    const dotWidth = fonts.regular.widthOfTextAtSize('.', size);
+    if (dotsEnd > dotsStart) {
+      page.drawText('.'.repeat(Math.floor((dotsEnd - dotsStart) / dotWidth)), {
+        x: dotsStart, y, size, font: fonts.regular, color: MUTED
+      });
+    }
+    page.drawText(number, { x: PAGE_WIDTH - MARGIN - numberWidth, y, size, font, color: TEXT });
+  }
+}
+
+/** Running header and "Page n of N" on every page but the cover */
+function drawPageFurniture(pages: PDFPage[], title: string, fonts: Fonts, encode: (text: string) => string) {
+  let shortTitle = encode(title);
+  while (shortTitle.length > 1 && fonts.regular.widthOfTextAtSize(shortTitle, 9) > CONTENT_WIDTH - 120) {
+    shortTitle = shortTitle.slice(0, -1);
+  }
+  if (shortTitle !== encode(title)) shortTitle = `${shortTitle.trimEnd()}...`;
+
+  pages.forEach((page, i) => {
+    if (i === 0) return;
+    const top = PAGE_HEIGHT - MARGIN + 4;
+    page.drawText('ClauseWise', { x: MARGIN, y: top, size: 10, font: fonts.bold, color: BRAND });
+    page.drawText(shortTitle, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(shortTitle, 9), y: top, size: 9, font: fonts.regular, color: MUTED
+    });
+    page.drawLine({ start: { x: MARGIN, y: top - 6 }, end: { x: PAGE_WIDTH - MARGIN, y: top - 6 }, thickness: 0.5, color: BRAND });
+
+    const number = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(DISCLAIMER, { x: MARGIN, y: MARGIN - 10, size: 8, font: fonts.italic, color: MUTED });
+    page.drawText(number, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(number, 9), y: MARGIN - 10, size: 9, font: fonts.regular, color: MUTED
+    });
+  });
+}
+
+export async function renderReportPdf(report: PdfReport): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`ClauseWise Report - ${report.title}`);
+  pdf.setProducer('ClauseWise');
+  pdf.setCreator('ClauseWise');
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    mono: await pdf.embedFont(StandardFonts.Courier)
+  };
+  const encode = encoder(fonts.regular);
+  const body: Style = { font: fonts.regular, size: 10.5 };
+  const h1: Style = { font: fonts.bold, size: 18, color: BRAND };
+  const h2: Style = { font: fonts.bold, size: 12.5 };
+
+  const layout = createLayout(pdf, encode);
+  layout.newPage();
+
+  // The contents go after the cover; their length is known before the rest is laid out
+  const tocLength = (report.summary ? 1 : 0) + 1 + report.flags.length + 1;
+  const tocPerPage = Math.floor((CONTENT_TOP - CONTENT_BOTTOM - 40) / TOC_LINE_HEIGHT);
+  const tocPageCount = Math.max(1, Math.ceil(tocLength / tocPerPage));
+  for (let i = 0; i < tocPageCount; i++) layout.newPage();
+  const tocPages = layout.pages.slice(1);
+
+  layout.newPage();
+  if (report.summary) {
+    layout.heading('Summary', h1, 1, { before: 0 });
+    for (const text of report.summary.split(/\n\s*\n/)) layout.paragraph([{ text, style: body }]);
+  }
+
+  if (report.flags.length > 0) {
+    layout.heading('Issues Found', h1, 1);
+    report.flags.forEach((flag, index) => {
+      const title = `${index + 1}. ${flag.severity.toUpperCase()} RISK${flag.section ? ` - ${flag.section}` : ''}`;
+      layout.heading(title, { ...h2, color: RISK_COLORS[flag.severity] }, 2, { before: 8 });
+      if (flag.clause) {
+        layout.paragraph([{ text: flag.clause, style: { font: fonts.mono, size: 9 } }], { indent: 12, leading: 1.35 });
+      }
+      if (flag.rationale) {
+        layout.paragraph([
+          { text: 'Why this matters: ', style: { ...body, font: fonts.bold } },
+          { text: flag.rationale, style: body }
+        ]);
+      }
+      if (flag.suggestion) {
+        layout.paragraph([
+          { text: 'Suggested approach: ', style: { ...body, font: fonts.bold } },
+          { text: flag.suggestion, style: body }
+        ], { after: 12 });
+      }
+    });
+  } else {
+    layout.heading('No Issues Found', h1, 1);
+    layout.paragraph([{ text: "Great news! Our analysis didn't find any obvious red flags in this contract.", style: body }]);
+  }
+
+  // The redlines accepted during review, deletions struck through and insertions underlined
+  layout.heading('Proposed Redlines', h1, 1);
+  if (!report.flags.some(f => f.redline)) {
+    layout.paragraph([{ text: 'No redlines have been accepted for this contract yet.', style: { ...body, font: fonts.italic } }]);
+  }
+  report.flags.forEach((flag, index) => {
+    if (!flag.redline) return;
+    layout.paragraph([{ text: `${index + 1}. Clause Redline`, style: h2 }], { after: 4 });
+    layout.paragraph(diffWords(flag.clause || '', flag.redline).map((part) => ({
+      text: part.value,
+      style: part.removed
+        ? { ...body, color: DELETED, strike: true }
+        : part.added
+          ? { ...body, color: INSERTED, underline: true }
+          : body
+    })), { after: 12 });
+  });
+
+  drawCover(layout.pages[0], report, fonts, encode);
+  drawContents(tocPages, layout.toc, fonts, encode);
+  drawPageFurniture(layout.pages, report.title, fonts, encode);
+
+  return pdf.save();
+}
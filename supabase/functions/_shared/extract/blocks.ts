@@ -0,0 +1,241 @@
+/**
+ * Document blocks → flat text and clause tree
+ * Format readers (DOCX, ODT, RTF, HTML, Markdown) turn a document into paragraphs (with
+ * list numbers, heading levels and bold runs) and tables; buildTree lays them out as the
+ * flat contract text and nests them into numbered sections.
+ */
+
+import type { ClauseNode } from '../text/outline.ts';
+
+/** Text and clause tree of a structured document, with anything the user should know */
+export interface StructuredText {
+  text: string;
+  clauseTree: ClauseNode[];
+  notes: string[];
+}
+
+export interface Run {
+  text: string;
+  bold: boolean;
+}
+
+/** A paragraph or table in document order */
+export type Block =
+  | { kind: 'paragraph'; number: string | null; depth: number | null; isHeading: boolean; isTitle: boolean; runs: Run[] }
+  | { kind: 'table'; rows: string[][] };
+
+// Block depths: headings use their outline level (0-8); numbered paragraphs (plus their
+// list level) sit below any heading
+export const NUMBERED_DEPTH = 10;
+// Short bold or all-caps lines act as headings between styled headings and numbered clauses
+export const PSEUDO_HEADING_DEPTH = 9;
+const MAX_HEADING_CHARS = 100;
+
+function toRoman(n: number): string {
+  const table: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ];
+  let out = '';
+  for (const [value, letters] of table) {
+    while (n >= value) {
+      out += letters;
+      n -= value;
+    }
+  }
+  return out;
+}
+
+function toLetters(n: number): string {
+  // Word repeats the letter past z: a…z, aa…zz
+  const letter = String.fromCharCode(97 + ((n - 1) % 26));
+  return letter.repeat(Math.floor((n - 1) / 26) + 1);
+}
+
+/**
+ * A list counter in a Word number format (decimal, lowerLetter, upperRoman, …)
+ */
+export function formatCounter(n: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetters(n);
+    case 'upperLetter': return toLetters(n).toUpperCase();
+    case 'lowerRoman': return toRoman(n);
+    case 'upperRoman': return toRoman(n).toUpperCase();
+    case 'decimalZero': return String(n).padStart(2, '0');
+    case 'none': return '';
+    default: return String(n);
+  }
+}
+
+export function runsText(runs: Run[]): string {
+  return runs.map((r) => r.text).join('').replace(/[ \t]+/g, ' ').trim();
+}
+
+// Typed-in section numbers: "9.", "9.2", "9.2.1"
+const MANUAL_NUMBER = /^(\d{1,3}(?:\.\d{1,3})*\.?)\s+(?=\S)/;
+const SUB_NUMBER = /^\(?([a-z]{1,3}|[ivx]{1,5})[.)]$/i;
+
+/**
+ * Split a numbered paragraph into a heading and body: heading styles, a leading bold
+ * phrase ("Limitation of Liability. The Supplier…"), or a short line on its own
+ */
+function splitHeading(runs: Run[], isHeading: boolean): { heading: string | null; body: string } {
+  const text = runsText(runs);
+  if (isHeading) return { heading: text, body: '' };
+
+  const leading: string[] = [];
+  for (const run of runs) {
+    if (!run.bold && run.text.trim()) break;
+    leading.push(run.text);
+  }
+  const boldText = leading.join('').replace(/\s+/g, ' ').trim();
+  if (boldText && boldText.length <= MAX_HEADING_CHARS) {
+    const rest = text.slice(text.indexOf(boldText) + boldText.length).trim();
+    return { heading: boldText.replace(/[\s.:—–-]+$/, ''), body: rest };
+  }
+  if (text.length <= 80 && !/[.;,:]$/.test(text)) return { heading: text, body: '' };
+  return { heading: null, body: text };
+}
+
+function isPseudoHeading(runs: Run[]): boolean {
+  const text = runsText(runs);
+  if (!text || text.length > 80 || /[.;,:]$/.test(text)) return false;
+  const allBold = runs.every((r) => r.bold || !r.text.trim());
+  const allCaps = /[A-Z]/.test(text) && text === text.toUpperCase();
+  return allBold || allCaps;
+}
+
+/**
+ * Build the flat text and the clause tree from the blocks
+ */
+export function buildTree(blocks: Block[]): { text: string; clauseTree: ClauseNode[] } {
+  const roots: ClauseNode[] = [];
+  const stack: Array<{ node: ClauseNode; depth: number }> = [];
+  let text = '';
+
+  const append = (chunk: string): { start: number; end: number } => {
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += chunk;
+    // Every open section now extends to here
+    for (const open of stack) open.node.end = text.length;
+    return { start, end: text.length };
+  };
+
+  const open = (node: ClauseNode, depth: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) stack.pop();
+    const parent = stack[stack.length - 1]?.node;
+    node.level = stack.length + 1;
+    // "(b)" under "12.3" is section 12.3(b)
+    if (node.number && parent?.number && SUB_NUMBER.test(node.number)) {
+      const sub = node.number.replace(/^\(?/, '(').replace(/[.)]$/, ')');
+      node.number = `${parent.number.replace(/\.$/, '')}${sub}`;
+    }
+    (parent ? parent.children : roots).push(node);
+    stack.push({ node, depth });
+  };
+
+  const newNode = (number: string | null, heading: string | null, body: string): ClauseNode =>
+    ({ number, heading, body, level: 1, start: 0, end: 0, children: [] });
+
+  // A document opening with its only top-level heading is using it as a title
+  const first = blocks[0];
+  const titled = first?.kind === 'paragraph' && first.isHeading && first.depth === 0 &&
+    !blocks.some((b, i) => i > 0 && b.kind === 'paragraph' && b.isHeading && b.depth === 0)
+    ? [{ ...first, isHeading: false, isTitle: true, depth: null }, ...blocks.slice(1)]
+    : blocks;
+
+  for (const block of titled) {
+    if (block.kind === 'table') {
+      const range = append(block.rows.map((row) => row.join(' | ')).join('\n'));
+      const current = stack[stack.length - 1]?.node;
+      if (current) {
+        current.tables = [...(current.tables ?? []), block.rows];
+      } else {
+        const node = newNode(null, null, '');
+        node.tables = [block.rows];
+        node.start = range.start;
+        node.end = range.end;
+        roots.push(node);
+      }
+      continue;
+    }
+
+    const content = runsText(block.runs);
+    let { number, depth } = block;
+    let runs = block.runs;
+    let line = number ? `${number} ${content}` : content;
+
+    // Numbers typed into a heading ("1. Definitions") belong to the section, not its name
+    if (!number && block.isHeading) {
+      const manual = content.match(MANUAL_NUMBER);
+      if (manual) {
+        number = manual[1];
+        runs = trimRuns(block.runs, manual[0].length);
+      }
+    }
+
+    // Numbers typed into the text rather than produced by Word's numbering
+    // (an unstyled title line at the very top is the document's name, not a heading)
+    if (!number && depth === null && !block.isTitle) {
+      const manual = content.match(MANUAL_NUMBER);
+      if (manual) {
+        number = manual[1];
+        depth = NUMBERED_DEPTH + number.replace(/\.$/, '').split('.').length - 1;
+        const skip = manual[0].length;
+        runs = trimRuns(block.runs, skip);
+        line = content;
+      } else if (text && isPseudoHeading(block.runs)) {
+        depth = PSEUDO_HEADING_DEPTH;
+      }
+    }
+
+    if (depth === null) {
+      // Body text of the current section (or preamble before the first one)
+      const range = append(line);
+      const current = stack[stack.length - 1]?.node;
+      if (current) {
+        current.body = current.body ? `${current.body}\n\n${content}` : content;
+      } else {
+        const last = roots[roots.length - 1];
+        if (last && !last.number && !last.heading && last.end === range.start - 2) {
+          last.body = last.body ? `${last.body}\n\n${content}` : content;
+          last.end = range.end;
+        } else {
+          roots.push({ ...newNode(null, null, content), start: range.start, end: range.end });
+        }
+      }
+      continue;
+    }
+
+    const { heading, body } = number || block.isHeading
+      ? splitHeading(runs, block.isHeading)
+      : { heading: content, body: '' };
+    const node = newNode(number, heading, body);
+    open(node, depth);
+    const range = append(line);
+    node.start = range.start;
+    node.end = range.end;
+  }
+
+  return { text, clauseTree: roots };
+}
+
+/**
+ * Drop the first `chars` characters of a paragraph's runs (a typed-in number)
+ */
+function trimRuns(runs: Run[], chars: number): Run[] {
+  const out: Run[] = [];
+  let toSkip = chars;
+  for (const run of runs) {
+    // Runs are compared after whitespace collapsing; leading whitespace doesn't count
+    const text = out.length === 0 && toSkip > 0 ? run.text.replace(/^\s+/, '') : run.text;
+    if (toSkip >= text.length) {
+      toSkip -= text.length;
+      continue;
+    }
+    out.push({ ...run, text: text.slice(toSkip) });
+    toSkip = 0;
+  }
+  return out;
+}
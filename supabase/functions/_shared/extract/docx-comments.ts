@@ -0,0 +1,381 @@
+/**
+ * Word comments added to an uploaded DOCX, leaving everything else in the package as it was
+ * Flags point into the extracted text (see docx.ts), which Word's own markup doesn't keep
+ * offsets for: the flagged text is found again in the document's paragraphs, read the same
+ * way (tracked changes accepted, whitespace collapsed), and the runs around it are split so
+ * that the comment covers exactly that text.
+ */
+
+import { first, textContent, type XmlNode } from './xml.ts';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const COMMENTS_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments';
+const COMMENTS_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml';
+
+export interface CommentRun {
+  text: string;
+  bold?: boolean;
+}
+
+export interface DocxComment {
+  /** Offsets of the commented text in the extracted contract text; null when unknown */
+  span: { start: number; end: number } | null;
+  /** What the comment is about, quoted in the comment when its text can't be found */
+  quote: string;
+  author: string;
+  initials: string;
+  /** ISO date */
+  date: string;
+  /** The comment's paragraphs */
+  paragraphs: CommentRun[][];
+}
+
+// DOM surface used to edit the parts (xmldom)
+interface XmlElement extends XmlNode {
+  ownerDocument: XmlDocument;
+  parentNode: XmlElement | null;
+  nextSibling: XmlElement | null;
+  firstChild: XmlElement | null;
+  textContent: string | null;
+  setAttribute(name: string, value: string): void;
+  appendChild(node: XmlNode): XmlNode;
+  removeChild(node: XmlNode): XmlNode;
+  insertBefore(node: XmlNode, before: XmlNode | null): XmlNode;
+  cloneNode(deep: boolean): XmlElement;
+  getElementsByTagName(name: string): ArrayLike<XmlElement>;
+}
+
+interface XmlDocument extends XmlElement {
+  documentElement: XmlElement;
+  createElementNS(namespace: string, name: string): XmlElement;
+  createElement(name: string): XmlElement;
+  createTextNode(text: string): XmlNode;
+}
+
+/** A character of a paragraph's text: the run child it comes from, and where in it */
+interface TextChar {
+  node: XmlElement;
+  offset: number;
+}
+
+interface DocParagraph {
+  text: string;
+  chars: TextChar[];
+}
+
+/** Where a mark goes: before `before` in `parent` (at the end when null) */
+interface InsertPoint {
+  parent: XmlElement;
+  before: XmlElement | null;
+}
+
+/**
+ * Characters of a paragraph as extraction reads them: deleted text skipped, spaces and
+ * tabs collapsed, leading whitespace dropped
+ */
+function readParagraph(p: XmlElement): DocParagraph {
+  const paragraph: DocParagraph = { text: '', chars: [] };
+  const push = (c: string, node: XmlElement, offset: number) => {
+    if (c === ' ' || c === '\t') {
+      if (!paragraph.text || paragraph.text.endsWith(' ')) return;
+      c = ' ';
+    }
+    paragraph.text += c;
+    paragraph.chars.push({ node, offset });
+  };
+
+  const visit = (node: XmlElement) => {
+    for (const child of Array.from(node.childNodes) as XmlElement[]) {
+      switch (child.nodeName) {
+        case 'w:del':
+        case 'w:moveFrom':
+        case 'w:pPr':
+        case 'w:rPr':
+          break;
+        case 'w:r':
+          for (const part of Array.from(child.childNodes) as XmlElement[]) {
+            if (part.nodeName === 'w:t') {
+              const text = textContent(part);
+              for (let i = 0; i < text.length; i++) push(text[i], part, i);
+            } else if (part.nodeName === 'w:tab') push('\t', part, 0);
+            else if (part.nodeName === 'w:br' || part.nodeName === 'w:cr') push('\n', part, 0);
+            else if (part.nodeName === 'w:noBreakHyphen') push('-', part, 0);
+          }
+          break;
+        default:
+          if (child.nodeType === 1) visit(child);
+      }
+    }
+  };
+  visit(p);
+  return paragraph;
+}
+
+/** Position in the document's paragraphs */
+interface DocPosition {
+  paragraph: number;
+  index: number;
+}
+
+/**
+ * Lines of the flagged text as they appear in single paragraphs: the extracted text
+ * separates paragraphs with blank lines and table cells with " | "
+ */
+function quoteSegments(quote: string): string[] {
+  return quote.split(/\n+| \| /).map(s => s.replace(/[ \t]+/g, ' ').trim()).filter(Boolean);
+}
+
+function countOccurrences(text: string, search: string, before: number): number {
+  let count = 0;
+  for (let at = text.indexOf(search); at !== -1 && at < before; at = text.indexOf(search, at + search.length)) count++;
+  return count;
+}
+
+/** The `occurrence`-th match of `search` from `from` on (or the first, if there aren't that many) */
+function findInParagraphs(
+  paragraphs: DocParagraph[],
+  search: string,
+  from: DocPosition = { paragraph: 0, index: 0 },
+  occurrence = 0
+): DocPosition | null {
+  let found: DocPosition | null = null;
+  let seen = 0;
+  for (let p = from.paragraph; p < paragraphs.length; p++) {
+    const text = paragraphs[p].text;
+    let at = text.indexOf(search, p === from.paragraph ? from.index : 0);
+    while (at !== -1) {
+      found ??= { paragraph: p, index: at };
+      if (seen++ === occurrence) return { paragraph: p, index: at };
+      at = text.indexOf(search, at + search.length);
+    }
+  }
+  return found;
+}
+
+/**
+ * Start and end of the flagged text in the document. Numbers Word adds to list paragraphs
+ * are in the extracted text but not in the runs, so a first line that isn't found is
+ * tried again without its first word
+ */
+function locate(paragraphs: DocParagraph[], source: string, span: { start: number; end: number }): [DocPosition, DocPosition] | null {
+  const segments = quoteSegments(source.slice(span.start, span.end));
+  if (segments.length === 0) return null;
+
+  let head = segments[0];
+  let start = findInParagraphs(paragraphs, head, undefined, countOccurrences(source, head, span.start));
+  if (!start && /\s/.test(head)) {
+    head = head.slice(head.search(/\s/) + 1);
+    start = findInParagraphs(paragraphs, head, undefined, countOccurrences(source, head, span.start));
+  }
+  if (!start) return null;
+
+  if (segments.length === 1) {
+    return [start, { paragraph: start.paragraph, index: start.index + head.length }];
+  }
+  const tail = segments[segments.length - 1];
+  const last = findInParagraphs(paragraphs, tail, { paragraph: start.paragraph, index: start.index + head.length });
+  return last ? [start, { paragraph: last.paragraph, index: last.index + tail.length }] : null;
+}
+
+function setText(t: XmlElement, text: string) {
+  while (t.firstChild) t.removeChild(t.firstChild);
+  t.appendChild(t.ownerDocument.createTextNode(text));
+  t.setAttribute('xml:space', 'preserve');
+}
+
+/**
+ * Splits the run holding `node` (a w:t, w:tab, …) at `offset` characters into it, so a
+ * mark can go between the two halves. Formatting (w:rPr) is copied to the second half
+ */
+function splitAt(node: XmlElement, offset: number): InsertPoint {
+  const run = node.parentNode!;
+  let next: XmlElement | null;
+  if (node.nodeName === 'w:t' && offset > 0 && offset < textContent(node).length) {
+    const text = textContent(node);
+    const rest = node.cloneNode(false);
+    setText(node, text.slice(0, offset));
+    setText(rest, text.slice(offset));
+    run.insertBefore(rest, node.nextSibling);
+    next = rest;
+  } else {
+    next = offset === 0 ? node : node.nextSibling;
+  }
+
+  // Nothing of the run before the split: the mark goes before the run
+  let before = next ? run.firstChild : null;
+  while (before && before.nodeName === 'w:rPr') before = before.nextSibling;
+  if (next && before === next) return { parent: run.parentNode!, before: run };
+  if (!next) return { parent: run.parentNode!, before: run.nextSibling };
+
+  const second = run.ownerDocument.createElementNS(W_NS, 'w:r');
+  const rPr = first(run, 'w:rPr') as XmlElement | null;
+  if (rPr) second.appendChild(rPr.cloneNode(true));
+  for (let moving: XmlElement | null = next; moving;) {
+    const following: XmlElement | null = moving.nextSibling;
+    second.appendChild(moving);
+    moving = following;
+  }
+  run.parentNode!.insertBefore(second, run.nextSibling);
+  return { parent: run.parentNode!, before: second };
+}
+
+function mark(doc: XmlDocument, name: string, id: number): XmlElement {
+  const element = doc.createElementNS(W_NS, name);
+  element.setAttribute('w:id', String(id));
+  return element;
+}
+
+function commentElement(doc: XmlDocument, id: number, comment: DocxComment, note: string | null): XmlElement {
+  const element = mark(doc, 'w:comment', id);
+  element.setAttribute('w:author', comment.author);
+  element.setAttribute('w:date', comment.date);
+  element.setAttribute('w:initials', comment.initials);
+
+  const paragraphs = note ? [[{ text: note }], ...comment.paragraphs] : comment.paragraphs;
+  paragraphs.forEach((runs, i) => {
+    const p = doc.createElementNS(W_NS, 'w:p');
+    if (i === 0) {
+      // Word puts the comment's mark at the start of its first paragraph
+      const ref = doc.createElementNS(W_NS, 'w:r');
+      ref.appendChild(doc.createElementNS(W_NS, 'w:annotationRef'));
+      p.appendChild(ref);
+    }
+    for (const run of runs) {
+      const r = doc.createElementNS(W_NS, 'w:r');
+      if (run.bold) {
+        const rPr = doc.createElementNS(W_NS, 'w:rPr');
+        rPr.appendChild(doc.createElementNS(W_NS, 'w:b'));
+        r.appendChild(rPr);
+      }
+      const t = doc.createElementNS(W_NS, 'w:t');
+      setText(t, run.text);
+      r.appendChild(t);
+      p.appendChild(r);
+    }
+    element.appendChild(p);
+  });
+  return element;
+}
+
+/** Target of the document's comments part, adding the relationship if there isn't one */
+function commentsTarget(rels: XmlDocument): string {
+  const relations = Array.from(rels.getElementsByTagName('Relationship'));
+  const existing = relations.find(r => r.getAttribute?.('Type') === COMMENTS_REL_TYPE);
+  if (existing) return existing.getAttribute?.('Target') || 'comments.xml';
+
+  const ids = new Set(relations.map(r => r.getAttribute?.('Id')));
+  let n = relations.length + 1;
+  while (ids.has(`rId${n}`)) n++;
+  const relation = rels.createElementNS('http://schemas.openxmlformats.org/package/2006/relationships', 'Relationship');
+  relation.setAttribute('Id', `rId${n}`);
+  relation.setAttribute('Type', COMMENTS_REL_TYPE);
+  relation.setAttribute('Target', 'comments.xml');
+  rels.documentElement.appendChild(relation);
+  return 'comments.xml';
+}
+
+/**
+ * `bytes` (a DOCX) with `comments` added, each on the text its span covers in `source`,
+ * the text extracted from that DOCX. Comments whose text can't be found are put on the
+ * start of the document and say so. Throws when the file isn't a readable DOCX package
+ */
+export async function addDocxComments(
+  bytes: Uint8Array,
+  source: string,
+  comments: DocxComment[]
+): Promise<{ bytes: Uint8Array; unplaced: number }> {
+  const { unzipSync, zipSync, strFromU8, strToU8 } = await import('https://esm.sh/fflate@0.8.2');
+  const { DOMParser, XMLSerializer } = await import('https://esm.sh/@xmldom/xmldom@0.8.10');
+
+  const files: Record<string, Uint8Array> = unzipSync(bytes);
+  const parse = (name: string) => files[name]
+    ? new DOMParser().parseFromString(strFromU8(files[name]), 'text/xml') as unknown as XmlDocument
+    : null;
+
+  const doc = parse('word/document.xml');
+  const body = first(first(doc, 'w:document'), 'w:body') as XmlElement | null;
+  if (!doc || !body) throw new Error('Not a Word document (word/document.xml missing)');
+
+  const rels = parse('word/_rels/document.xml.rels') ??
+    new DOMParser().parseFromString(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"/>',
+      'text/xml'
+    ) as unknown as XmlDocument;
+  const commentsPart = `word/${commentsTarget(rels).replace(/^\/?word\//, '').replace(/^\//, '')}`;
+  const commentsDoc = parse(commentsPart) ??
+    new DOMParser().parseFromString(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:comments xmlns:w="${W_NS}"/>`,
+      'text/xml'
+    ) as unknown as XmlDocument;
+
+  // New comment ids follow any the document already has
+  let nextId = Array.from(commentsDoc.getElementsByTagName('w:comment'))
+    .reduce((max, c) => Math.max(max, Number(c.getAttribute?.('w:id')) + 1 || max), 0);
+
+  const paragraphs = Array.from(body.getElementsByTagName('w:p')).map(readParagraph);
+  const firstText = paragraphs.find(p => p.chars.length > 0);
+
+  // Marks are placed from the end of the document backwards, so splitting a run never
+  // moves text that a mark still to be placed points at
+  const marks: Array<{ at: DocPosition; end: boolean; id: number }> = [];
+  let unplaced = 0;
+
+  for (const comment of comments) {
+    const id = nextId++;
+    const range = comment.span ? locate(paragraphs, source, comment.span) : null;
+    commentsDoc.documentElement.appendChild(
+      commentElement(commentsDoc, id, comment, range ? null : `Not found in this document: “${comment.quote}”`)
+    );
+    if (!range) unplaced++;
+    const top = { paragraph: firstText ? paragraphs.indexOf(firstText) : -1, index: 0 };
+    const [start, end] = range ?? [top, top];
+    if (start.paragraph < 0) continue;
+    marks.push({ at: start, end: false, id }, { at: end, end: true, id });
+  }
+
+  marks.sort((a, b) => b.at.paragraph - a.at.paragraph || b.at.index - a.at.index || Number(a.end) - Number(b.end));
+  for (const { at, end, id } of marks) {
+    const paragraph = paragraphs[at.paragraph];
+    // A start goes before its character, an end after the last one it covers
+    const point = end
+      ? at.index > 0
+        ? splitAt(paragraph.chars[at.index - 1].node, paragraph.chars[at.index - 1].offset + 1)
+        : splitAt(paragraph.chars[0].node, 0)
+      : at.index < paragraph.chars.length
+        ? splitAt(paragraph.chars[at.index].node, paragraph.chars[at.index].offset)
+        : splitAt(paragraph.chars[at.index - 1].node, paragraph.chars[at.index - 1].offset + 1);
+
+    if (end) {
+      const reference = doc.createElementNS(W_NS, 'w:r');
+      reference.appendChild(mark(doc, 'w:commentReference', id));
+      point.parent.insertBefore(mark(doc, 'w:commentRangeEnd', id), point.before);
+      point.parent.insertBefore(reference, point.before);
+    } else {
+      point.parent.insertBefore(mark(doc, 'w:commentRangeStart', id), point.before);
+    }
+  }
+
+  // Declare the comments part if the document had none
+  const types = parse('[Content_Types].xml');
+  if (types && !Array.from(types.getElementsByTagName('Override')).some(o => o.getAttribute?.('PartName') === `/${commentsPart}`)) {
+    const override = types.createElementNS('http://schemas.openxmlformats.org/package/2006/content-types', 'Override');
+    override.setAttribute('PartName', `/${commentsPart}`);
+    override.setAttribute('ContentType', COMMENTS_CONTENT_TYPE);
+    types.documentElement.appendChild(override);
+  }
+
+  const serialize = (node: XmlDocument) => strToU8(new XMLSerializer().serializeToString(node as never));
+  files['word/document.xml'] = serialize(doc);
+  files['word/_rels/document.xml.rels'] = serialize(rels);
+  files[commentsPart] = serialize(commentsDoc);
+  if (types) files['[Content_Types].xml'] = serialize(types);
+
+  return { bytes: zipSync(files), unplaced };
+}
+
+/** Whether a stored upload is a Word document this can add comments to */
+export function isDocxUpload(storagePath: string, mimeType: string | null): boolean {
+  return mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    storagePath.toLowerCase().endsWith('.docx');
+}
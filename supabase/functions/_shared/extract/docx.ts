@@ -0,0 +1,259 @@
+/**
+ * Structured DOCX extraction
+ * Reads word/document.xml directly instead of flattening it with mammoth, so that list
+ * numbering ("12.3(b)"), headings and tables survive. Produces the flat contract text
+ * (paragraphs separated by a blank line, numbers written out as Word shows them) and a
+ * clause tree over it. Tracked changes are read as if accepted.
+ */
+
+import {
+  buildTree,
+  formatCounter,
+  NUMBERED_DEPTH,
+  runsText,
+  type Block,
+  type Run,
+  type StructuredText
+} from './blocks.ts';
+import { elements, first, readXmlParts, textContent, type XmlNode } from './xml.ts';
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+interface ParagraphStyle {
+  basedOn: string | null;
+  numId: string | null;
+  ilvl: number | null;
+  outlineLevel: number | null;
+  /** Title/Subtitle: the document's name, not a section */
+  isTitle: boolean;
+}
+
+function val(node: XmlNode | null): string | null {
+  return node?.getAttribute?.('w:val') ?? null;
+}
+
+function isOn(node: XmlNode | null): boolean {
+  if (!node) return false;
+  const v = val(node);
+  return v === null || !['0', 'false', 'off'].includes(v);
+}
+
+/**
+ * numId → its nine list levels, from word/numbering.xml
+ */
+function parseNumbering(doc: XmlNode | null): Map<string, NumberingLevel[]> {
+  const result = new Map<string, NumberingLevel[]>();
+  const root = first(doc, 'w:numbering');
+  if (!root) return result;
+
+  const abstracts = new Map<string, NumberingLevel[]>();
+  for (const abs of elements(root, 'w:abstractNum')) {
+    const levels: NumberingLevel[] = [];
+    for (const lvl of elements(abs, 'w:lvl')) {
+      const ilvl = Number(lvl.getAttribute?.('w:ilvl') ?? 0);
+      levels[ilvl] = {
+        start: Number(val(first(lvl, 'w:start')) ?? 1),
+        format: val(first(lvl, 'w:numFmt')) ?? 'decimal',
+        text: val(first(lvl, 'w:lvlText')) ?? ''
+      };
+    }
+    abstracts.set(abs.getAttribute?.('w:abstractNumId') ?? '', levels);
+  }
+
+  for (const num of elements(root, 'w:num')) {
+    const levels = [...(abstracts.get(val(first(num, 'w:abstractNumId')) ?? '') ?? [])];
+    for (const override of elements(num, 'w:lvlOverride')) {
+      const ilvl = Number(override.getAttribute?.('w:ilvl') ?? 0);
+      const start = val(first(override, 'w:startOverride'));
+      if (start !== null && levels[ilvl]) levels[ilvl] = { ...levels[ilvl], start: Number(start) };
+    }
+    result.set(num.getAttribute?.('w:numId') ?? '', levels);
+  }
+  return result;
+}
+
+/**
+ * Paragraph styles that carry numbering or an outline level, from word/styles.xml
+ * "Heading N" styles get outline level N-1 even when the file doesn't say so.
+ */
+function parseStyles(doc: XmlNode | null): Map<string, ParagraphStyle> {
+  const result = new Map<string, ParagraphStyle>();
+  const root = first(doc, 'w:styles');
+  if (!root) return result;
+
+  for (const style of elements(root, 'w:style')) {
+    if (style.getAttribute?.('w:type') !== 'paragraph') continue;
+    const pPr = first(style, 'w:pPr');
+    const numPr = first(pPr, 'w:numPr');
+    const name = val(first(style, 'w:name')) ?? '';
+    const headingMatch = name.match(/^heading (\d)$/i);
+    const outline = val(first(pPr, 'w:outlineLvl'));
+    result.set(style.getAttribute?.('w:styleId') ?? '', {
+      basedOn: val(first(style, 'w:basedOn')),
+      numId: val(first(numPr, 'w:numId')),
+      ilvl: numPr ? Number(val(first(numPr, 'w:ilvl')) ?? 0) : null,
+      outlineLevel: outline !== null ? Number(outline) : headingMatch ? Number(headingMatch[1]) - 1 : null,
+      isTitle: /^(title|subtitle)$/i.test(name)
+    });
+  }
+  return result;
+}
+
+/**
+ * A style's numbering and outline level, following basedOn
+ */
+function resolveStyle(styles: Map<string, ParagraphStyle>, styleId: string | null): ParagraphStyle {
+  const resolved: ParagraphStyle = { basedOn: null, numId: null, ilvl: null, outlineLevel: null, isTitle: false };
+  const seen = new Set<string>();
+  let id = styleId;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    const style = styles.get(id);
+    if (!style) break;
+    if (resolved.numId === null && style.numId !== null) {
+      resolved.numId = style.numId;
+      resolved.ilvl = style.ilvl;
+    }
+    if (resolved.outlineLevel === null) resolved.outlineLevel = style.outlineLevel;
+    if (id === styleId) resolved.isTitle = style.isTitle;
+    id = style.basedOn;
+  }
+  return resolved;
+}
+
+interface Counts {
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * Text runs of a paragraph (or any container), with accepted tracked changes
+ */
+function collectRuns(node: XmlNode, counts: Counts, bold = false, out: Run[] = []): Run[] {
+  for (const child of Array.from(node.childNodes)) {
+    switch (child.nodeName) {
+      case 'w:del':
+      case 'w:moveFrom':
+        counts.deletions++;
+        break;
+      case 'w:ins':
+      case 'w:moveTo':
+        counts.insertions++;
+        collectRuns(child, counts, bold, out);
+        break;
+      case 'w:r': {
+        const rPr = first(child, 'w:rPr');
+        const runBold = bold || isOn(first(rPr, 'w:b'));
+        let text = '';
+        for (const part of Array.from(child.childNodes)) {
+          if (part.nodeName === 'w:t') text += textContent(part);
+          else if (part.nodeName === 'w:tab') text += '\t';
+          else if (part.nodeName === 'w:br' || part.nodeName === 'w:cr') text += '\n';
+          else if (part.nodeName === 'w:noBreakHyphen') text += '-';
+        }
+        if (text) out.push({ text, bold: runBold });
+        break;
+      }
+      case 'w:pPr':
+      case 'w:rPr':
+      case 'w:instrText':
+        break;
+      default:
+        if (child.nodeType === 1) collectRuns(child, counts, bold, out);
+    }
+  }
+  return out;
+}
+
+/**
+ * Flatten the document body into paragraphs (with their list numbers) and tables
+ */
+function readBlocks(
+  body: XmlNode,
+  numbering: Map<string, NumberingLevel[]>,
+  styles: Map<string, ParagraphStyle>,
+  counts: Counts
+): Block[] {
+  const blocks: Block[] = [];
+  const counters = new Map<string, number[]>();
+
+  const listNumber = (numId: string, ilvl: number): string | null => {
+    const levels = numbering.get(numId);
+    const level = levels?.[ilvl];
+    if (!levels || !level || level.format === 'bullet') return null;
+    const values = counters.get(numId) ?? [];
+    values[ilvl] = (values[ilvl] ?? level.start - 1) + 1;
+    values.length = ilvl + 1; // restart deeper levels
+    counters.set(numId, values);
+    const rendered = level.text.replace(/%(\d)/g, (_, n) => {
+      const i = Number(n) - 1;
+      return formatCounter(values[i] ?? levels[i]?.start ?? 1, levels[i]?.format ?? 'decimal');
+    });
+    return rendered.trim() || null;
+  };
+
+  const visit = (container: XmlNode) => {
+    for (const node of Array.from(container.childNodes)) {
+      if (node.nodeName === 'w:p') {
+        const pPr = first(node, 'w:pPr');
+        const style = resolveStyle(styles, val(first(pPr, 'w:pStyle')));
+        const numPr = first(pPr, 'w:numPr');
+        const numId = numPr ? val(first(numPr, 'w:numId')) : style.numId;
+        const ilvl = numPr ? Number(val(first(numPr, 'w:ilvl')) ?? style.ilvl ?? 0) : style.ilvl ?? 0;
+        const outline = val(first(pPr, 'w:outlineLvl'));
+        const outlineLevel = outline !== null ? Number(outline) : style.outlineLevel;
+
+        const runs = collectRuns(node, counts);
+        if (!runsText(runs)) continue;
+        // numId 0 switches numbering off for this paragraph
+        const number = numId && numId !== '0' ? listNumber(numId, ilvl) : null;
+        const isHeading = outlineLevel !== null && outlineLevel < 9;
+        const depth = isHeading ? outlineLevel : number ? NUMBERED_DEPTH + ilvl : null;
+        blocks.push({ kind: 'paragraph', number, depth, isHeading, isTitle: style.isTitle, runs });
+      } else if (node.nodeName === 'w:tbl') {
+        const rows = elements(node, 'w:tr').map((tr) =>
+          elements(tr, 'w:tc').map((tc) =>
+            elements(tc, 'w:p').map((p) => runsText(collectRuns(p, counts))).filter(Boolean).join('\n')
+          )
+        );
+        if (rows.some((row) => row.some(Boolean))) blocks.push({ kind: 'table', rows });
+      } else if (node.nodeName === 'w:sdt') {
+        const content = first(node, 'w:sdtContent');
+        if (content) visit(content);
+      } else if (node.nodeName === 'w:ins' || node.nodeName === 'w:customXml' || node.nodeName === 'w:smartTag') {
+        visit(node);
+      }
+    }
+  };
+  visit(body);
+  return blocks;
+}
+
+/**
+ * Extract a DOCX file's text and clause tree
+ * Throws when the file isn't a readable DOCX package.
+ */
+export async function extractDocxStructure(bytes: Uint8Array): Promise<StructuredText> {
+  const parts = await readXmlParts(bytes, ['word/document.xml', 'word/numbering.xml', 'word/styles.xml']);
+  if (!parts['word/document.xml']) throw new Error('Not a Word document (word/document.xml missing)');
+
+  const body = first(first(parts['word/document.xml'], 'w:document'), 'w:body');
+  if (!body) throw new Error('Word document has no body');
+
+  const counts: Counts = { insertions: 0, deletions: 0 };
+  const blocks = readBlocks(body, parseNumbering(parts['word/numbering.xml']), parseStyles(parts['word/styles.xml']), counts);
+  const { text, clauseTree } = buildTree(blocks);
+
+  const notes: string[] = [];
+  if (counts.insertions > 0 || counts.deletions > 0) {
+    notes.push(
+      `This document has tracked changes (${counts.insertions} insertion${counts.insertions === 1 ? '' : 's'}, ` +
+      `${counts.deletions} deletion${counts.deletions === 1 ? '' : 's'}); the text was read with all changes accepted`
+    );
+  }
+  return { text, clauseTree, notes };
+}
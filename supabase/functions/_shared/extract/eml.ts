@@ -0,0 +1,178 @@
+/**
+ * Email (EML / RFC 822) parsing
+ * Contracts often arrive as an email with the document attached: the parser returns the
+ * message body (plain text, or HTML when that's all there is) and the attachments as files,
+ * so extraction can read the attached contract and fall back to the body.
+ */
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  date: string;
+  /** The text/plain body, when the message has one */
+  text: string | null;
+  /** The text/html body, when there's no plain text alternative */
+  html: string | null;
+  attachments: File[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: Uint8Array;
+}
+
+const MAX_DEPTH = 10;
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
+
+function fromLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | null): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeBase64(text: string): Uint8Array {
+  // Line breaks and stray characters are dropped; padding is restored (a lone leftover char can't decode)
+  let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  try {
+    return fromLatin1(atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '=')));
+  } catch {
+    return new Uint8Array();
+  }
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  return fromLatin1(
+    text
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+/**
+ * RFC 2047 encoded words: "=?UTF-8?B?…?=" and "=?ISO-8859-1?Q?…?="
+ */
+function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, data) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(data)
+        : decodeQuotedPrintable(data.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/**
+ * A header parameter (charset, boundary, filename), including RFC 2231 "name*=utf-8''…"
+ */
+function param(header: string | undefined, name: string): string | null {
+  if (!header) return null;
+  const extended = header.match(new RegExp(`;\\s*${name}\\*(?:0\\*)?=([^;]+)`, 'i'));
+  if (extended) {
+    const [, charset, value] = extended[1].trim().match(/^([^']*)'[^']*'(.*)$/) ?? [null, null, extended[1].trim()];
+    const bytes = (value ?? '').replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return decodeCharset(fromLatin1(bytes), charset || 'utf-8');
+  }
+  const plain = header.match(new RegExp(`;\\s*${name}=("([^"]*)"|[^;\\s]+)`, 'i'));
+  return plain ? decodeWords(plain[2] ?? plain[1]) : null;
+}
+
+/**
+ * Split a message (or part) into its unfolded headers and raw body
+ */
+function parsePart(raw: string): MimePart {
+  const split = raw.search(/\r?\n\r?\n/);
+  const head = split >= 0 ? raw.slice(0, split) : raw;
+  const body = split >= 0 ? raw.slice(split).replace(/^\r?\n\r?\n/, '') : '';
+
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins (Received: headers repeat; the ones we read don't)
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body: fromLatin1(body) };
+}
+
+function decodeBody(part: MimePart): Uint8Array {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') return decodeBase64(latin1(part.body));
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(latin1(part.body));
+  return part.body;
+}
+
+/**
+ * Walk the MIME tree, collecting the first plain text and HTML bodies and any attachments
+ */
+function walk(part: MimePart, email: ParsedEmail, depth: number) {
+  const contentType = part.headers.get('content-type') ?? 'text/plain';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = part.headers.get('content-disposition') ?? '';
+  const filename = param(disposition, 'filename') ?? param(contentType, 'name');
+
+  if (type.startsWith('multipart/') && depth < MAX_DEPTH) {
+    const boundary = param(contentType, 'boundary');
+    if (!boundary) return;
+    const raw = latin1(part.body);
+    const delimiter = `--${boundary}`;
+    const sections = raw.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      walk(parsePart(section.replace(/^[ \t]*\r?\n/, '')), email, depth + 1);
+    }
+    return;
+  }
+
+  if (filename || /^attachment/i.test(disposition)) {
+    email.attachments.push(new File([decodeBody(part)], filename ?? 'attachment', { type }));
+    return;
+  }
+  if (type === 'message/rfc822' && depth < MAX_DEPTH) {
+    walk(parsePart(latin1(decodeBody(part))), email, depth + 1);
+    return;
+  }
+  if (type === 'text/plain' && email.text === null) {
+    email.text = decodeCharset(decodeBody(part), param(contentType, 'charset')).trim();
+  } else if (type === 'text/html' && email.html === null) {
+    email.html = decodeCharset(decodeBody(part), param(contentType, 'charset'));
+  }
+}
+
+/**
+ * Parse an .eml file into its headers, body and attachments
+ */
+export function parseEmail(bytes: Uint8Array): ParsedEmail {
+  const message = parsePart(latin1(bytes));
+  if (!message.headers.has('from') && !message.headers.has('content-type') && !message.headers.has('subject')) {
+    throw new Error('Not an email message (no headers found)');
+  }
+  const email: ParsedEmail = {
+    subject: decodeWords(message.headers.get('subject') ?? ''),
+    from: decodeWords(message.headers.get('from') ?? ''),
+    date: message.headers.get('date') ?? '',
+    text: null,
+    html: null,
+    attachments: []
+  };
+  walk(message, email, 0);
+  if (email.text) email.html = null;
+  return email;
+}
@@ -0,0 +1,166 @@
+/**
+ * HTML extraction (contracts saved from web portals)
+ * Headings, ordered lists and tables become blocks for the clause tree; page furniture
+ * (navigation, scripts, forms) is skipped, and <main>/<article> is preferred when present.
+ */
+
+import { buildTree, formatCounter, NUMBERED_DEPTH, runsText, type Block, type Run, type StructuredText } from './blocks.ts';
+
+// Minimal DOM surface we use from deno-dom
+interface HtmlNode {
+  nodeName: string;
+  nodeType: number;
+  nodeValue: string | null;
+  childNodes: ArrayLike<HtmlNode>;
+  getAttribute?(name: string): string | null;
+}
+
+const SKIPPED = new Set([
+  'HEAD', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'NAV', 'HEADER', 'FOOTER', 'ASIDE',
+  'FORM', 'BUTTON', 'SELECT', 'OBJECT'
+]);
+const BLOCK = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'BLOCKQUOTE', 'PRE', 'ADDRESS', 'CENTER', 'DL', 'DT', 'DD',
+  'FIGURE', 'FIGCAPTION', 'HR', 'BODY', 'HTML'
+]);
+const HEADINGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+const LIST_TYPES: Record<string, string> = { a: 'lowerLetter', A: 'upperLetter', i: 'lowerRoman', I: 'upperRoman' };
+
+function children(node: HtmlNode): HtmlNode[] {
+  return Array.from(node.childNodes);
+}
+
+function find(node: HtmlNode, names: string[]): HtmlNode | null {
+  for (const child of children(node)) {
+    if (child.nodeType !== 1) continue;
+    if (names.includes(child.nodeName)) return child;
+    const found = find(child, names);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Walk the page into blocks; inline content between block elements forms paragraphs
+ */
+function readBlocks(root: HtmlNode): Block[] {
+  const blocks: Block[] = [];
+  let runs: Run[] = [];
+
+  const flush = (extra: Partial<Extract<Block, { kind: 'paragraph' }>> = {}) => {
+    if (runsText(runs)) {
+      blocks.push({ kind: 'paragraph', number: null, depth: null, isHeading: false, isTitle: false, runs, ...extra });
+    }
+    runs = [];
+  };
+
+  const inlineNode = (child: HtmlNode, bold: boolean, pre: boolean) => {
+    if (child.nodeType === 3) {
+      const text = pre ? child.nodeValue ?? '' : (child.nodeValue ?? '').replace(/\s+/g, ' ');
+      if (text) runs.push({ text, bold });
+    } else if (child.nodeType === 1 && !SKIPPED.has(child.nodeName)) {
+      if (child.nodeName === 'BR') runs.push({ text: '\n', bold });
+      else visit(child, bold || child.nodeName === 'B' || child.nodeName === 'STRONG', pre);
+    }
+  };
+
+  const inline = (node: HtmlNode, bold: boolean, pre: boolean) => {
+    for (const child of children(node)) inlineNode(child, bold, pre);
+  };
+
+  const list = (node: HtmlNode, level: number, bold: boolean) => {
+    const ordered = node.nodeName === 'OL';
+    const format = LIST_TYPES[node.getAttribute?.('type') ?? ''] ?? 'decimal';
+    let counter = Number(node.getAttribute?.('start') || 1) - 1;
+
+    for (const item of children(node)) {
+      if (item.nodeName !== 'LI') continue;
+      const value = item.getAttribute?.('value');
+      counter = value ? Number(value) : counter + 1;
+      flush();
+
+      // Only the item's first paragraph carries its number
+      let numbered = false;
+      const flushItem = () => {
+        if (!runsText(runs)) return;
+        flush(ordered && !numbered ? { number: `${formatCounter(counter, format)}.`, depth: NUMBERED_DEPTH + level } : {});
+        numbered = true;
+      };
+
+      for (const child of children(item)) {
+        if (child.nodeName === 'OL' || child.nodeName === 'UL') {
+          flushItem();
+          list(child, level + 1, bold);
+        } else if (child.nodeName === 'P' || child.nodeName === 'DIV') {
+          // <li><p>…</p></li>: the paragraph is the item's text
+          inline(child, bold, false);
+        } else {
+          inlineNode(child, bold, false);
+        }
+      }
+      flushItem();
+    }
+  };
+
+  const table = (node: HtmlNode) => {
+    const rows: string[][] = [];
+    const collect = (el: HtmlNode) => {
+      for (const child of children(el)) {
+        if (child.nodeName === 'TR') {
+          rows.push(children(child)
+            .filter((c) => c.nodeName === 'TD' || c.nodeName === 'TH')
+            .map((cell) => {
+              const saved = runs;
+              runs = [];
+              inline(cell, false, false);
+              const text = runsText(runs);
+              runs = saved;
+              return text;
+            }));
+        } else if (['THEAD', 'TBODY', 'TFOOT'].includes(child.nodeName)) {
+          collect(child);
+        }
+      }
+    };
+    collect(node);
+    if (rows.some((row) => row.some(Boolean))) blocks.push({ kind: 'table', rows });
+  };
+
+  function visit(node: HtmlNode, bold: boolean, pre: boolean) {
+    const name = node.nodeName;
+    if (HEADINGS.includes(name)) {
+      flush();
+      inline(node, false, false);
+      flush({ isHeading: true, depth: HEADINGS.indexOf(name) });
+    } else if (name === 'OL' || name === 'UL') {
+      flush();
+      list(node, 0, bold);
+    } else if (name === 'TABLE') {
+      flush();
+      table(node);
+    } else if (BLOCK.has(name) || name === 'LI') {
+      flush();
+      inline(node, bold, pre || name === 'PRE');
+      flush();
+    } else {
+      inline(node, bold, pre);
+    }
+  }
+
+  visit(root, false, false);
+  flush();
+  return blocks;
+}
+
+/**
+ * Extract an HTML page's text and clause tree
+ */
+export async function extractHtml(html: string): Promise<StructuredText> {
+  const { DOMParser } = await import('https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts');
+  const document = new DOMParser().parseFromString(html, 'text/html') as unknown as HtmlNode | null;
+  if (!document) throw new Error('Could not parse HTML');
+
+  const body = find(document, ['BODY']) ?? document;
+  const main = find(body, ['MAIN', 'ARTICLE']);
+  return { ...buildTree(readBlocks(main ?? body)), notes: [] };
+}
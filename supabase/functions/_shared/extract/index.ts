@@ -0,0 +1,300 @@
+/**
+ * Text extraction for uploaded contract files (PDF, DOCX, ODT, RTF, HTML, Markdown, TXT,
+ * EML emails with the contract attached, and scanned PNG/JPEG/TIFF via OCR)
+ * Used by upload-extract for immediate extraction and by the analysis worker for queued uploads.
+ * When extraction fails the text is a "Please copy and paste..." placeholder and `notes`
+ * explains what went wrong, so callers can ask the user to paste the text instead.
+ */
+
+import type { StructuredText } from './blocks.ts';
+import { extractDocxStructure } from './docx.ts';
+import { parseEmail } from './eml.ts';
+import { extractHtml } from './html.ts';
+import { extractMarkdown } from './markdown.ts';
+import { extractOdt } from './odt.ts';
+import { extractPdfText } from './pdf.ts';
+import { extractRtf } from './rtf.ts';
+import { OCR_IMAGE_EXTENSIONS, OCR_IMAGE_MIME_TYPES, ocrImageFile, ocrNotes } from './ocr.ts';
+import { OCR_ENABLED } from '../config/rules.ts';
+import type { ClauseNode } from '../text/outline.ts';
+
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+const RTF_MIME_TYPES = ['application/rtf', 'text/rtf'];
+const HTML_MIME_TYPES = ['text/html', 'application/xhtml+xml'];
+const MARKDOWN_MIME_TYPES = ['text/markdown', 'text/x-markdown'];
+const EMAIL_MIME_TYPE = 'message/rfc822';
+
+export const SUPPORTED_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ODT_MIME_TYPE,
+  ...RTF_MIME_TYPES,
+  ...HTML_MIME_TYPES,
+  ...MARKDOWN_MIME_TYPES,
+  EMAIL_MIME_TYPE,
+  'text/plain',
+  ...OCR_IMAGE_MIME_TYPES
+];
+export const SUPPORTED_EXTENSIONS = [
+  '.pdf', '.docx', '.odt', '.rtf', '.html', '.htm', '.md', '.markdown', '.eml', '.txt', ...OCR_IMAGE_EXTENSIONS
+];
+
+/** Where a page's text sits in the extracted text: [start, end) character offsets */
+export interface PageRange {
+  page: number;
+  start: number;
+  end: number;
+  /** OCR confidence (0-1), for pages read from a scan */
+  confidence?: number;
+}
+
+export interface ExtractionResult {
+  text: string;
+  notes: string[];
+  /** Page ranges, for formats with pages (PDF) */
+  pages?: PageRange[];
+  /** Numbered sections and headings, for structured formats (DOCX, ODT, RTF, HTML, Markdown) */
+  clauseTree?: ClauseNode[];
+}
+
+function extensionOf(name: string): string {
+  return '.' + name.split('.').pop()?.toLowerCase();
+}
+
+/**
+ * Whether a file looks like one we can extract, by MIME type or extension
+ */
+export function isSupportedFile(name: string, type: string): boolean {
+  return SUPPORTED_MIME_TYPES.includes(type) || SUPPORTED_EXTENSIONS.includes(extensionOf(name));
+}
+
+/**
+ * Whether extracted text is a failure placeholder (or too short to be worth analyzing)
+ */
+export function isPlaceholderText(text: string): boolean {
+  return text.includes('Please copy and paste your contract text below') ||
+    text.includes('extraction is not yet implemented') ||
+    text.includes('extraction failed') ||
+    text.trim().length < 100;
+}
+
+/**
+ * Run one of the structured readers, turning a failure or an empty result into the
+ * copy-and-paste placeholder
+ */
+async function extractStructured(label: string, read: () => Promise<StructuredText>): Promise<ExtractionResult> {
+  try {
+    const structured = await read();
+    if (structured.text.trim().length < 50) {
+      return {
+        text: `Please copy and paste your contract text below. ${label} text extraction found very little readable text.`,
+        notes: [...structured.notes, `${label} text extraction found very little readable text`]
+      };
+    }
+    console.log(`Successfully extracted ${structured.text.length} characters and ${structured.clauseTree.length} top-level sections from ${label}`);
+    return { text: structured.text, notes: structured.notes, clauseTree: structured.clauseTree };
+  } catch (error) {
+    console.error(`${label} processing error:`, error);
+    return {
+      text: `Please copy and paste your contract text below. ${label} text extraction failed.`,
+      notes: [`${label} text extraction failed - please copy and paste the text manually`]
+    };
+  }
+}
+
+/**
+ * An email: the longest readable attachment is the contract; otherwise the message body
+ */
+async function extractEmail(file: File): Promise<ExtractionResult> {
+  let email;
+  try {
+    email = parseEmail(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.error('Email processing error:', error);
+    return {
+      text: `Please copy and paste your contract text below. Email extraction failed.`,
+      notes: ["Email extraction failed - please save the attached contract and upload it directly"]
+    };
+  }
+
+  // Nested emails aren't opened, so a forwarding loop can't recurse forever
+  const candidates = email.attachments.filter((a) =>
+    isSupportedFile(a.name, a.type) && a.type !== EMAIL_MIME_TYPE && extensionOf(a.name) !== '.eml'
+  );
+  let best: { name: string; result: ExtractionResult } | null = null;
+  for (const attachment of candidates) {
+    const result = await extractText(attachment);
+    if (isPlaceholderText(result.text)) continue;
+    if (!best || result.text.length > best.result.text.length) best = { name: attachment.name, result };
+  }
+
+  const others = email.attachments.map((a) => a.name).filter((name) => name !== best?.name);
+  const othersNote = others.length > 0
+    ? [`The email has other attachments that were not analyzed: ${others.join(', ')}`]
+    : [];
+
+  if (best) {
+    return {
+      ...best.result,
+      notes: [`Extracted from the attachment "${best.name}"`, ...best.result.notes, ...othersNote]
+    };
+  }
+
+  // HTML-only messages are read like an uploaded web page
+  const html = email.text ? null : email.html;
+  const body: ExtractionResult = html
+    ? await extractStructured('Email', () => extractHtml(html))
+    : { text: email.text ?? '', notes: [] };
+  if (isPlaceholderText(body.text)) {
+    return {
+      text: `Please copy and paste your contract text below. The email has no readable contract attached.`,
+      notes: [
+        candidates.length > 0
+          ? "None of the email's attachments could be read - please upload the contract directly"
+          : "The email has no contract attached (PDF, DOCX, ODT, RTF, HTML, Markdown or TXT) - please upload the contract directly",
+        ...othersNote
+      ]
+    };
+  }
+  return {
+    ...body,
+    notes: [`No contract attachment found; the text is the body of the email${email.subject ? ` "${email.subject}"` : ''}`, ...othersNote]
+  };
+}
+
+/**
+ * Extract plain text from an uploaded file
+ */
+export async function extractText(file: File): Promise<ExtractionResult> {
+  let extractedText = '';
+  let pages: PageRange[] | undefined;
+  let clauseTree: ClauseNode[] | undefined;
+  const notes: string[] = [];
+  const fileExtension = extensionOf(file.name);
+  // Set by the formats read through extractStructured/extractEmail
+  let result: ExtractionResult | null = null;
+
+  // Markdown, RTF and emails are often sent as text/plain; their extension decides
+  if (fileExtension === '.txt' || (file.type === 'text/plain' && !SUPPORTED_EXTENSIONS.includes(fileExtension))) {
+    // Simple text file - read directly
+    extractedText = await file.text();
+    
+    // Check if text is empty or very short (might be corrupted file)
+    if (!extractedText.trim()) {
+      notes.push("No text content found in the file");
+    } else if (extractedText.trim().length < 50) {
+      notes.push("File contains very little text - please verify this is the correct file");
+    }
+  } else if (file.type === 'application/pdf' || fileExtension === '.pdf') {
+    try {
+      const pdf = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+      notes.push(...pdf.notes);
+
+      if (pdf.text.trim().length > 50) {
+        extractedText = pdf.text;
+        pages = pdf.pages;
+        console.log(`Successfully extracted ${extractedText.length} characters from ${pdf.pages.length} PDF pages`);
+      } else if (pdf.imageOnlyPages.length > 0) {
+        extractedText = `Please copy and paste your contract text below. This looks like a scanned/image PDF and OCR could not read it.`;
+        notes.push(OCR_ENABLED
+          ? "This appears to be a scanned/image PDF, but OCR found no readable text - please check the scan quality"
+          : "This appears to be a scanned/image PDF and OCR is turned off");
+      } else {
+        extractedText = `Please copy and paste your contract text below. The PDF contains text but our extraction couldn't parse it properly.`;
+        notes.push("PDF contains text but extraction was unsuccessful - please copy/paste manually");
+      }
+    } catch (error) {
+      console.error('PDF processing error:', error);
+      // Fallback to manual input
+      extractedText = `Please copy and paste your contract text below. PDF text extraction failed.`;
+      notes.push((error as { code?: string }).code === 'PDF_PASSWORD'
+        ? "This PDF is password-protected - remove the password and upload it again, or paste the text"
+        : "PDF text extraction failed - please copy and paste the text manually");
+    }
+  } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || fileExtension === '.docx') {
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+
+      // Structured extraction keeps numbering and headings; mammoth is the fallback
+      let structured = null;
+      try {
+        structured = await extractDocxStructure(new Uint8Array(arrayBuffer));
+      } catch (structureError) {
+        console.log('Structured DOCX extraction failed, using raw text:', (structureError as Error)?.message || structureError);
+      }
+
+      if (structured && structured.text.trim().length >= 50) {
+        extractedText = structured.text;
+        clauseTree = structured.clauseTree;
+        notes.push(...structured.notes);
+        console.log(`Successfully extracted ${extractedText.length} characters and ${clauseTree.length} top-level sections from DOCX`);
+      } else {
+        // Extract text from DOCX using mammoth library
+        const mammoth = await import('https://esm.sh/mammoth@1.11.0');
+        const result = await mammoth.extractRawText({ arrayBuffer });
+
+        extractedText = result.value;
+
+        // Check if text extraction was successful
+        if (!extractedText || extractedText.trim().length < 50) {
+          extractedText = `Please copy and paste your contract text below. DOCX text extraction found very little readable text.`;
+          notes.push("DOCX text extraction found very little readable text");
+        } else {
+          console.log(`Successfully extracted ${extractedText.length} characters from DOCX`);
+        }
+
+        // Add any messages from mammoth
+        if (result.messages && result.messages.length > 0) {
+          console.log('Mammoth messages:', result.messages);
+        }
+      }
+    } catch (error) {
+      console.error('DOCX processing error:', error);
+      // Fallback to manual input
+      extractedText = `Please copy and paste your contract text below. DOCX text extraction failed: ${(error as Error).message}`;
+      notes.push("DOCX text extraction failed - please copy and paste the text manually");
+    }
+  } else if (file.type === ODT_MIME_TYPE || fileExtension === '.odt') {
+    result = await extractStructured('ODT', async () => extractOdt(new Uint8Array(await file.arrayBuffer())));
+  } else if (RTF_MIME_TYPES.includes(file.type) || fileExtension === '.rtf') {
+    result = await extractStructured('RTF', async () => extractRtf(new TextDecoder('windows-1252').decode(await file.arrayBuffer())));
+  } else if (HTML_MIME_TYPES.includes(file.type) || fileExtension === '.html' || fileExtension === '.htm') {
+    result = await extractStructured('HTML', async () => extractHtml(await file.text()));
+  } else if (MARKDOWN_MIME_TYPES.includes(file.type) || fileExtension === '.md' || fileExtension === '.markdown') {
+    result = await extractStructured('Markdown', async () => extractMarkdown(await file.text()));
+  } else if (file.type === EMAIL_MIME_TYPE || fileExtension === '.eml') {
+    result = await extractEmail(file);
+  } else if (OCR_IMAGE_MIME_TYPES.includes(file.type) || OCR_IMAGE_EXTENSIONS.includes(fileExtension)) {
+    if (!OCR_ENABLED) {
+      extractedText = `Please copy and paste your contract text below. Image uploads need OCR, which is turned off.`;
+      notes.push("Image uploads need OCR, which is turned off - please upload a PDF or DOCX, or paste the text");
+    } else {
+      try {
+        const ocr = await ocrImageFile(new Uint8Array(await file.arrayBuffer()));
+
+        if (ocr.text.length > 50) {
+          extractedText = ocr.text;
+          pages = [{ page: 1, start: 0, end: ocr.text.length, confidence: ocr.confidence }];
+          notes.push(...ocrNotes([ocr]));
+          console.log(`Successfully extracted ${extractedText.length} characters from image by OCR (${Math.round(ocr.confidence * 100)}% confidence)`);
+        } else {
+          extractedText = `Please copy and paste your contract text below. OCR found very little readable text in this image.`;
+          notes.push("OCR found very little readable text in this image - please check the scan quality");
+        }
+      } catch (error) {
+        console.error('Image OCR error:', error);
+        extractedText = `Please copy and paste your contract text below. Image text extraction failed.`;
+        notes.push("Image text extraction failed - please copy and paste the text manually");
+      }
+    }
+  }
+
+  if (result) {
+    extractedText = result.text;
+    pages = result.pages;
+    clauseTree = result.clauseTree;
+    notes.push(...result.notes);
+  }
+
+  return { text: extractedText, notes, pages, clauseTree };
+}
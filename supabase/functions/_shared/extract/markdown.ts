@@ -0,0 +1,154 @@
+/**
+ * Markdown extraction: headings, numbered lists and tables become blocks for the clause
+ * tree; inline formatting is dropped except bold, which marks run-in headings
+ */
+
+import { buildTree, NUMBERED_DEPTH, type Block, type Run, type StructuredText } from './blocks.ts';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const ORDERED_ITEM = /^(\s*)(\d{1,9})([.)])\s+(.*)$/;
+const BULLET_ITEM = /^(\s*)[-*+]\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+type Paragraph = Extract<Block, { kind: 'paragraph' }>;
+
+/**
+ * Inline markdown → runs: **bold** and __bold__ kept as bold runs, other markup removed
+ */
+function inlineRuns(source: string): Run[] {
+  const plain = source
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/<[^>]+>/g, '');
+
+  const runs: Run[] = [];
+  const parts = plain.split(/(\*\*[^*]+\*\*|__[^_]+__)/);
+  for (const part of parts) {
+    if (!part) continue;
+    const bold = /^(\*\*|__).*(\*\*|__)$/.test(part);
+    const text = (bold ? part.slice(2, -2) : part)
+      .replace(/(^|\W)[*_]([^*_]+)[*_](?=\W|$)/g, '$1$2')
+      .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1');
+    runs.push({ text, bold });
+  }
+  return runs;
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Extract a Markdown document's text and clause tree
+ */
+export function extractMarkdown(source: string): StructuredText {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  // Ordered list counters per indent: markdown renumbers "1. 1. 1." as 1, 2, 3
+  const counters: number[] = [];
+
+  let paragraph: string[] = [];
+  let table: string[][] = [];
+
+  const paragraphBlock = (text: string, extra: Partial<Paragraph> = {}): Paragraph =>
+    ({ kind: 'paragraph', number: null, depth: null, isHeading: false, isTitle: false, runs: inlineRuns(text), ...extra });
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraphBlock(paragraph.join(' ')));
+      paragraph = [];
+    }
+    if (table.length > 0) {
+      blocks.push({ kind: 'table', rows: table });
+      table = [];
+    }
+  };
+
+  let i = 0;
+  // YAML front matter is metadata, not contract text
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) i = end + 1;
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i].replace(/^\s*>\s?/, '');
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      if (code.some((l) => l.trim())) blocks.push({ ...paragraphBlock(''), runs: [{ text: code.join('\n'), bold: false }] });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      if (paragraph.length > 0) flush();
+      if (!TABLE_SEPARATOR.test(line)) table.push(tableCells(line));
+      continue;
+    }
+    if (table.length > 0) flush();
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      flush();
+      counters.length = 0;
+      blocks.push(paragraphBlock(atx[2], { isHeading: true, depth: atx[1].length - 1 }));
+      continue;
+    }
+
+    // "Title\n=====": the paragraph so far is a heading (only single lines count)
+    const setext = line.match(SETEXT_UNDERLINE);
+    if (setext && paragraph.length === 1) {
+      blocks.push(paragraphBlock(paragraph[0], { isHeading: true, depth: setext[1][0] === '=' ? 0 : 1 }));
+      paragraph = [];
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_ITEM);
+    if (ordered) {
+      flush();
+      const level = Math.floor(ordered[1].replace(/\t/g, '    ').length / 2);
+      counters[level] = counters[level] === undefined ? Number(ordered[2]) : counters[level] + 1;
+      counters.length = level + 1;
+      blocks.push(paragraphBlock(ordered[4], { number: `${counters[level]}${ordered[3]}`, depth: NUMBERED_DEPTH + level }));
+      continue;
+    }
+
+    const bullet = line.match(BULLET_ITEM);
+    if (bullet) {
+      flush();
+      blocks.push(paragraphBlock(bullet[2]));
+      continue;
+    }
+
+    // Lazy continuation of a list item
+    const previous = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && previous?.kind === 'paragraph' && /^\s{2,}\S/.test(lines[i]) && !previous.isHeading) {
+      previous.runs.push(...inlineRuns(` ${line.trim()}`));
+      continue;
+    }
+
+    // Plain text ends any list; the next one starts counting again
+    counters.length = 0;
+    paragraph.push(line.trim());
+  }
+  flush();
+
+  return { ...buildTree(blocks), notes: [] };
+}
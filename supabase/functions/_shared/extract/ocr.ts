@@ -0,0 +1,152 @@
+/**
+ * OCR for scanned contracts (image uploads and image-only PDF pages)
+ * Tesseract compiled to WebAssembly (tesseract-wasm) runs inside the function, so scans
+ * never leave our infrastructure. PNG/JPEG/TIFF files are decoded with ImageScript;
+ * scanned PDF pages arrive as the page images pdf.js extracts (see ./pdf.ts).
+ */
+
+import { OCR_MIN_CONFIDENCE, OCR_MODEL_SHA256, OCR_MODEL_URL, OCR_WASM_URL } from '../config/rules.ts';
+
+/** Decoded pixels, 1 (grey), 3 (RGB) or 4 (RGBA) bytes per pixel */
+export interface RasterImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  channels: 1 | 3 | 4;
+}
+
+export interface OcrPage {
+  page: number;
+  text: string;
+  /** Mean word confidence, 0-1 */
+  confidence: number;
+  /** Lines read with less than OCR_MIN_CONFIDENCE */
+  lowConfidenceLines: string[];
+}
+
+interface TextItem {
+  text: string;
+  confidence: number;
+}
+
+interface OCREngine {
+  loadModel(model: ArrayBuffer | Uint8Array): void;
+  loadImage(image: { data: Uint8ClampedArray; width: number; height: number }): void;
+  getText(): string;
+  getTextBoxes(unit: 'word' | 'line'): TextItem[];
+  clearImage(): void;
+}
+
+export const OCR_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/tiff'];
+export const OCR_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+
+// The engine and model take a few seconds to load; keep them for the life of the worker
+let enginePromise: Promise<OCREngine> | null = null;
+
+async function fetchBytes(url: string, what: string): Promise<ArrayBuffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load OCR ${what}: HTTP ${res.status}`);
+  return await res.arrayBuffer();
+}
+
+/**
+ * The language model, refused unless it matches OCR_MODEL_SHA256 (gzipped models are
+ * checked as downloaded, then decompressed)
+ */
+async function fetchModel(): Promise<ArrayBuffer> {
+  const bytes = await fetchBytes(OCR_MODEL_URL, 'language model');
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const sha256 = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  if (sha256 !== OCR_MODEL_SHA256) {
+    throw new Error(`OCR language model checksum mismatch: expected ${OCR_MODEL_SHA256}, got ${sha256}`);
+  }
+  if (!new URL(OCR_MODEL_URL).pathname.endsWith('.gz')) return bytes;
+  return await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer();
+}
+
+function getEngine(): Promise<OCREngine> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      const { createOCREngine } = await import('https://esm.sh/tesseract-wasm@0.10.0');
+      const [wasmBinary, model] = await Promise.all([
+        fetchBytes(OCR_WASM_URL, 'engine'),
+        fetchModel()
+      ]);
+      const engine: OCREngine = await createOCREngine({ wasmBinary });
+      engine.loadModel(model);
+      return engine;
+    })();
+    // Let the next call retry instead of caching a failed load
+    enginePromise.catch(() => { enginePromise = null; });
+  }
+  return enginePromise;
+}
+
+function toRgba(image: RasterImage): Uint8ClampedArray {
+  if (image.channels === 4) return new Uint8ClampedArray(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  const pixels = image.width * image.height;
+  const rgba = new Uint8ClampedArray(pixels * 4);
+  for (let i = 0; i < pixels; i++) {
+    const src = i * image.channels;
+    rgba[i * 4] = image.data[src];
+    rgba[i * 4 + 1] = image.data[image.channels === 3 ? src + 1 : src];
+    rgba[i * 4 + 2] = image.data[image.channels === 3 ? src + 2 : src];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * OCR one page image
+ */
+export async function ocrImage(image: RasterImage, page = 1): Promise<OcrPage> {
+  const engine = await getEngine();
+  engine.loadImage({ data: toRgba(image), width: image.width, height: image.height });
+  try {
+    const text = engine.getText().replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    const words = engine.getTextBoxes('word').filter((w) => w.text.trim());
+    const lines = engine.getTextBoxes('line').filter((l) => l.text.trim());
+
+    // Long words weigh more than stray specks read as punctuation
+    const weight = words.reduce((sum, w) => sum + w.text.length, 0);
+    const confidence = weight > 0 ? words.reduce((sum, w) => sum + w.confidence * w.text.length, 0) / weight : 0;
+    const lowConfidenceLines = lines
+      .filter((l) => l.confidence * 100 < OCR_MIN_CONFIDENCE)
+      .map((l) => l.text.trim());
+
+    return { page, text, confidence, lowConfidenceLines };
+  } finally {
+    engine.clearImage();
+  }
+}
+
+/**
+ * Decode and OCR a PNG, JPEG or TIFF upload
+ */
+export async function ocrImageFile(bytes: Uint8Array): Promise<OcrPage> {
+  const { Image } = await import('https://deno.land/x/imagescript@1.3.0/mod.ts');
+  const image = await Image.decode(bytes);
+  return await ocrImage({ data: image.bitmap, width: image.width, height: image.height, channels: 4 });
+}
+
+/**
+ * Notes telling the user how well OCR went and which lines to double-check
+ */
+export function ocrNotes(pages: OcrPage[]): string[] {
+  if (pages.length === 0) return [];
+  const notes: string[] = [];
+  const mean = pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length;
+  notes.push(
+    `Text was read by OCR from ${pages.length} scanned page${pages.length > 1 ? 's' : ''} ` +
+    `(${Math.round(mean * 100)}% average confidence) - check quoted clauses against the original`
+  );
+  for (const p of pages) {
+    if (p.lowConfidenceLines.length === 0) continue;
+    const example = p.lowConfidenceLines[0].length > 60 ? `${p.lowConfidenceLines[0].slice(0, 60)}…` : p.lowConfidenceLines[0];
+    notes.push(
+      `Page ${p.page}: ${p.lowConfidenceLines.length} line${p.lowConfidenceLines.length > 1 ? 's' : ''} ` +
+      `read with low confidence, e.g. "${example}"`
+    );
+  }
+  return notes;
+}
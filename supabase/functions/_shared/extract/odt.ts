@@ -0,0 +1,276 @@
+/**
+ * OpenDocument text (ODT) extraction
+ * Reads content.xml: text:h headings, text:list numbering (from the list styles, or the
+ * text:number LibreOffice writes out), tables and bold spans become blocks for the
+ * clause tree. Tracked changes are read as if accepted.
+ */
+
+import { buildTree, formatCounter, NUMBERED_DEPTH, runsText, type Block, type Run, type StructuredText } from './blocks.ts';
+import { elements, first, readXmlParts, textContent, type XmlNode } from './xml.ts';
+
+interface ListLevel {
+  numbered: boolean;
+  format: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  /** How many levels the number shows ("1.2.3" shows 3) */
+  displayLevels: number;
+}
+
+interface TextStyle {
+  bold: boolean;
+  parent: string | null;
+}
+
+// ODF style:num-format → the Word formats formatCounter knows
+const NUM_FORMATS: Record<string, string> = { '1': 'decimal', a: 'lowerLetter', A: 'upperLetter', i: 'lowerRoman', I: 'upperRoman' };
+
+function attr(node: XmlNode | null, name: string): string | null {
+  return node?.getAttribute?.(name) || null;
+}
+
+/** The list number LibreOffice wrote into a paragraph (text:number), if any */
+function writtenNumber(node: XmlNode): string | null {
+  const number = first(node, 'text:number');
+  return number ? textContent(number).trim() || null : null;
+}
+
+/**
+ * Paragraph and text styles (automatic and named) with their bold flag
+ */
+function readTextStyles(...containers: Array<XmlNode | null>): Map<string, TextStyle> {
+  const styles = new Map<string, TextStyle>();
+  for (const container of containers) {
+    if (!container) continue;
+    for (const style of elements(container, 'style:style')) {
+      const props = first(style, 'style:text-properties');
+      const weight = attr(props, 'fo:font-weight');
+      styles.set(attr(style, 'style:name') ?? '', {
+        bold: weight === 'bold' || Number(weight) >= 600,
+        parent: attr(style, 'style:parent-style-name')
+      });
+    }
+  }
+  return styles;
+}
+
+function isBoldStyle(styles: Map<string, TextStyle>, name: string | null): boolean {
+  const seen = new Set<string>();
+  let id = name;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    const style = styles.get(id);
+    if (!style) return false;
+    if (style.bold) return true;
+    id = style.parent;
+  }
+  return false;
+}
+
+function isTitleStyle(styles: Map<string, TextStyle>, name: string | null): boolean {
+  const seen = new Set<string>();
+  let id = name;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    if (id === 'Title' || id === 'Subtitle') return true;
+    id = styles.get(id)?.parent ?? null;
+  }
+  return false;
+}
+
+/**
+ * List styles: name → levels (1-based text:level → index level-1)
+ */
+function readListStyles(...containers: Array<XmlNode | null>): Map<string, ListLevel[]> {
+  const lists = new Map<string, ListLevel[]>();
+  for (const container of containers) {
+    if (!container) continue;
+    for (const listStyle of elements(container, 'text:list-style')) {
+      const levels: ListLevel[] = [];
+      for (const level of Array.from(listStyle.childNodes)) {
+        if (level.nodeType !== 1) continue;
+        const index = Number(attr(level, 'text:level') ?? 1) - 1;
+        const numbered = level.nodeName === 'text:list-level-style-number';
+        levels[index] = {
+          numbered,
+          format: NUM_FORMATS[attr(level, 'style:num-format') ?? ''] ?? (numbered ? 'decimal' : 'none'),
+          prefix: attr(level, 'style:num-prefix') ?? '',
+          suffix: attr(level, 'style:num-suffix') ?? '',
+          start: Number(attr(level, 'text:start-value') ?? 1),
+          displayLevels: Number(attr(level, 'text:display-levels') ?? 1)
+        };
+      }
+      lists.set(attr(listStyle, 'style:name') ?? '', levels);
+    }
+  }
+  return lists;
+}
+
+/**
+ * Text runs of a paragraph; text:number is left out (it's read separately)
+ */
+function collectRuns(node: XmlNode, styles: Map<string, TextStyle>, bold: boolean, out: Run[] = []): Run[] {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === 3) {
+      const text = (child as unknown as { data: string }).data.replace(/\s+/g, ' ');
+      if (text) out.push({ text, bold });
+      continue;
+    }
+    switch (child.nodeName) {
+      case 'text:s':
+        out.push({ text: ' '.repeat(Number(attr(child, 'text:c') ?? 1)), bold });
+        break;
+      case 'text:tab':
+        out.push({ text: '\t', bold });
+        break;
+      case 'text:line-break':
+        out.push({ text: '\n', bold });
+        break;
+      case 'text:span':
+        collectRuns(child, styles, bold || isBoldStyle(styles, attr(child, 'text:style-name')), out);
+        break;
+      case 'text:number':
+      case 'text:note':
+      case 'office:annotation':
+      case 'text:tracked-changes':
+        break;
+      default:
+        if (child.nodeType === 1) collectRuns(child, styles, bold, out);
+    }
+  }
+  return out;
+}
+
+/**
+ * Flatten office:text into paragraphs, list items and tables
+ */
+function readBlocks(
+  text: XmlNode,
+  styles: Map<string, TextStyle>,
+  listStyles: Map<string, ListLevel[]>
+): Block[] {
+  const blocks: Block[] = [];
+  // Counters per list style, so a list that continues numbering picks up where it left off
+  const counters = new Map<string, number[]>();
+
+  const paragraph = (node: XmlNode, extra: Partial<Extract<Block, { kind: 'paragraph' }>> = {}) => {
+    const styleName = attr(node, 'text:style-name');
+    const runs = collectRuns(node, styles, isBoldStyle(styles, styleName));
+    if (!runsText(runs)) return;
+    blocks.push({
+      kind: 'paragraph',
+      number: null,
+      depth: null,
+      isHeading: false,
+      isTitle: isTitleStyle(styles, styleName),
+      runs,
+      ...extra
+    });
+  };
+
+  const listNumber = (styleName: string, level: number): string | null => {
+    const levels = listStyles.get(styleName);
+    const def = levels?.[level];
+    if (!levels || !def?.numbered) return null;
+    const values = counters.get(styleName) ?? [];
+    values[level] = (values[level] ?? def.start - 1) + 1;
+    values.length = level + 1;
+    counters.set(styleName, values);
+    const shown: string[] = [];
+    for (let i = Math.max(0, level - def.displayLevels + 1); i <= level; i++) {
+      shown.push(formatCounter(values[i] ?? levels[i]?.start ?? 1, levels[i]?.format ?? 'decimal'));
+    }
+    return `${def.prefix}${shown.join('.')}${def.suffix}`.trim() || null;
+  };
+
+  const list = (node: XmlNode, level: number, styleName: string | null) => {
+    const style = attr(node, 'text:style-name') ?? styleName;
+    if (level === 0 && style && attr(node, 'text:continue-numbering') !== 'true' && !attr(node, 'text:continue-list')) {
+      counters.delete(style);
+    }
+    for (const item of elements(node, 'text:list-item')) {
+      let numbered = false;
+      for (const child of Array.from(item.childNodes)) {
+        if (child.nodeName === 'text:list') {
+          list(child, level + 1, style);
+        } else if (child.nodeName === 'text:p' || child.nodeName === 'text:h') {
+          // The first paragraph of an item carries its number; LibreOffice may write it out
+          const number = numbered ? null : writtenNumber(child) ?? (style ? listNumber(style, level) : null);
+          numbered = true;
+          paragraph(child, number ? { number, depth: NUMBERED_DEPTH + level } : {});
+        }
+      }
+    }
+  };
+
+  const table = (node: XmlNode) => {
+    const rows: string[][] = [];
+    const collect = (el: XmlNode) => {
+      for (const child of Array.from(el.childNodes)) {
+        if (child.nodeName === 'table:table-row') {
+          rows.push(elements(child, 'table:table-cell').map((cell) =>
+            elements(cell, 'text:p').map((p) => runsText(collectRuns(p, styles, false))).filter(Boolean).join('\n')
+          ));
+        } else if (['table:table-header-rows', 'table:table-rows', 'table:table-row-group'].includes(child.nodeName)) {
+          collect(child);
+        }
+      }
+    };
+    collect(node);
+    if (rows.some((row) => row.some(Boolean))) blocks.push({ kind: 'table', rows });
+  };
+
+  const visit = (container: XmlNode) => {
+    for (const node of Array.from(container.childNodes)) {
+      switch (node.nodeName) {
+        case 'text:h': {
+          const outline = Number(attr(node, 'text:outline-level') ?? 1);
+          paragraph(node, { isHeading: true, depth: Math.min(outline, 9) - 1, number: writtenNumber(node) });
+          break;
+        }
+        case 'text:p':
+          paragraph(node);
+          break;
+        case 'text:list':
+          list(node, 0, null);
+          break;
+        case 'table:table':
+          table(node);
+          break;
+        case 'text:section':
+        case 'text:index-body':
+          visit(node);
+          break;
+      }
+    }
+  };
+  visit(text);
+  return blocks;
+}
+
+/**
+ * Extract an ODT file's text and clause tree
+ * Throws when the file isn't a readable OpenDocument package.
+ */
+export async function extractOdt(bytes: Uint8Array): Promise<StructuredText> {
+  const parts = await readXmlParts(bytes, ['content.xml', 'styles.xml']);
+  const content = first(parts['content.xml'], 'office:document-content');
+  const text = first(first(content, 'office:body'), 'office:text');
+  if (!text) throw new Error('Not an OpenDocument text file (office:text missing)');
+
+  const stylesRoot = first(parts['styles.xml'], 'office:document-styles');
+  const containers = [
+    first(content, 'office:automatic-styles'),
+    first(stylesRoot, 'office:styles'),
+    first(stylesRoot, 'office:automatic-styles')
+  ];
+  const blocks = readBlocks(text, readTextStyles(...containers), readListStyles(...containers));
+
+  const notes: string[] = [];
+  const changes = elements(first(text, 'text:tracked-changes') ?? text, 'text:changed-region').length;
+  if (changes > 0) {
+    notes.push(`This document has ${changes} tracked change${changes === 1 ? '' : 's'}; the text was read with all changes accepted`);
+  }
+  return { ...buildTree(blocks), notes };
+}
@@ -0,0 +1,336 @@
+/**
+ * PDF text extraction
+ * Decoding (compressed streams, font encodings, ToUnicode CMaps) is done by pdf.js, via the
+ * serverless build in unpdf. Layout is ours: positioned text items are put back into reading
+ * order (lines top to bottom, two-column pages column by column, blank lines between
+ * paragraphs) and pages are joined with a blank line, keeping each page's character range.
+ * Pages with no text layer (scans) are read by OCR from their page image.
+ */
+
+import type { PageRange } from './index.ts';
+import { ocrImage, ocrNotes, type OcrPage, type RasterImage } from './ocr.ts';
+import { OCR_ENABLED, OCR_MAX_PAGES } from '../config/rules.ts';
+
+/** A positioned run of text, as returned by pdf.js getTextContent() */
+export interface PdfTextItem {
+  str: string;
+  /** [a, b, c, d, e, f] text space → page space; (e, f) is the baseline origin */
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export interface PdfExtraction {
+  text: string;
+  pages: PageRange[];
+  notes: string[];
+  /** Pages (1-based) with no selectable text, usually scanned images */
+  imageOnlyPages: number[];
+  /** Scanned pages whose text was read by OCR */
+  ocrPages: OcrPage[];
+}
+
+interface Glyphs {
+  text: string;
+  x: number;
+  y: number;
+  end: number;
+  size: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  items: Glyphs[];
+}
+
+// Items whose baselines are within this fraction of the font size share a line
+const SAME_LINE = 0.5;
+// A horizontal gap wider than this fraction of the font size is a word break
+const WORD_GAP = 0.2;
+// A vertical gap this many times the usual line spacing starts a new paragraph
+const PARAGRAPH_GAP = 1.6;
+// Narrowest empty vertical strip (in points) taken as the gutter between two columns
+const MIN_GUTTER = 12;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function toGlyphs(items: PdfTextItem[]): Glyphs[] {
+  const out: Glyphs[] = [];
+  for (const item of items) {
+    if (!item.str) continue;
+    const [a, b, c, d, x, y] = item.transform;
+    const size = Math.hypot(c, d) || Math.hypot(a, b) || item.height || 10;
+    const prev = out[out.length - 1];
+    // Fake bold: the same run drawn twice a fraction of a point apart
+    if (prev && prev.text === item.str && Math.abs(prev.x - x) < size * 0.1 && Math.abs(prev.y - y) < size * 0.1) continue;
+    out.push({ text: item.str, x, y, end: x + item.width, size });
+  }
+  return out;
+}
+
+/**
+ * Group runs into lines, top of the page first
+ */
+function groupLines(glyphs: Glyphs[]): Line[] {
+  const sorted = [...glyphs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+  for (const g of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - g.y) <= SAME_LINE * Math.min(line.size, g.size)) {
+      line.items.push(g);
+      line.size = Math.max(line.size, g.size);
+    } else {
+      lines.push({ y: g.y, size: g.size, items: [g] });
+    }
+  }
+  for (const line of lines) line.items.sort((a, b) => a.x - b.x);
+  return lines;
+}
+
+/**
+ * Find the gutter of a two-column page: an empty vertical strip near the middle of the text
+ * with text on both sides of it on most lines. Returns its x position, or null.
+ */
+function findGutter(lines: Line[]): number | null {
+  const nonEmpty = lines.filter((l) => l.items.some((g) => g.text.trim()));
+  if (nonEmpty.length < 6) return null;
+
+  const left = Math.min(...nonEmpty.map((l) => l.items[0].x));
+  const right = Math.max(...nonEmpty.map((l) => l.items[l.items.length - 1].end));
+  const width = right - left;
+  if (width < MIN_GUTTER * 10) return null;
+
+  // How many lines cover each 2pt strip of the text area
+  const bins = Math.ceil(width / 2);
+  const coverage = new Array(bins).fill(0);
+  for (const line of nonEmpty) {
+    const covered = new Set<number>();
+    for (const g of line.items) {
+      if (!g.text.trim()) continue;
+      for (let i = Math.max(0, Math.floor((g.x - left) / 2)); i < Math.min(bins, Math.ceil((g.end - left) / 2)); i++) {
+        covered.add(i);
+      }
+    }
+    covered.forEach((i) => coverage[i]++);
+  }
+
+  // Widest run of (nearly) empty strips in the middle 30-70% of the page's text
+  const maxCovered = Math.max(1, Math.floor(nonEmpty.length * 0.1));
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  for (let i = 0; i <= bins; i++) {
+    const empty = i < bins && coverage[i] <= maxCovered;
+    if (empty && runStart === -1) runStart = i;
+    if (!empty && runStart !== -1) {
+      const center = left + ((runStart + i) / 2) * 2;
+      const inMiddle = center > left + width * 0.3 && center < left + width * 0.7;
+      if (inMiddle && (i - runStart) * 2 >= MIN_GUTTER && (!best || i - runStart > best.end - best.start)) {
+        best = { start: runStart, end: i };
+      }
+      runStart = -1;
+    }
+  }
+  if (!best) return null;
+
+  const gutter = left + ((best.start + best.end) / 2) * 2;
+  const twoSided = nonEmpty.filter((l) => l.items.some((g) => g.end <= gutter) && l.items.some((g) => g.x >= gutter));
+  return twoSided.length >= nonEmpty.length * 0.4 ? gutter : null;
+}
+
+/**
+ * Text of one line, with spaces where the runs are visibly apart
+ */
+function lineText(items: Glyphs[]): string {
+  let text = '';
+  let prev: Glyphs | null = null;
+  for (const g of items) {
+    if (prev) {
+      const gap = g.x - prev.end;
+      const spaced = /\s$/.test(text) || /^\s/.test(g.text);
+      if (!spaced && (gap > WORD_GAP * Math.min(prev.size, g.size) || g.x < prev.x)) text += ' ';
+    }
+    text += g.text;
+    prev = g;
+  }
+  return text.replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * Join lines, leaving a blank line where the vertical gap shows a paragraph break
+ */
+function joinLines(lines: Line[]): string {
+  const spacing = median(lines.slice(1).map((l, i) => lines[i].y - l.y).filter((d) => d > 0));
+  let text = '';
+  for (let i = 0; i < lines.length; i++) {
+    const content = lineText(lines[i].items);
+    if (!content) continue;
+    if (text) {
+      const gap = lines[i - 1] ? lines[i - 1].y - lines[i].y : 0;
+      text += spacing > 0 && gap > spacing * PARAGRAPH_GAP ? '\n\n' : '\n';
+    }
+    text += content;
+  }
+  return text;
+}
+
+/**
+ * Put one page's text items back into reading order
+ * On two-column pages the lines between full-width lines (titles, footers) are read as a
+ * block: the left column first, then the right.
+ */
+export function layoutPage(items: PdfTextItem[]): string {
+  const lines = groupLines(toGlyphs(items));
+  const gutter = findGutter(lines);
+  if (gutter === null) return joinLines(lines);
+
+  const blocks: string[] = [];
+  let leftCol: Line[] = [];
+  let rightCol: Line[] = [];
+  const flush = () => {
+    const text = [joinLines(leftCol), joinLines(rightCol)].filter(Boolean).join('\n\n');
+    if (text) blocks.push(text);
+    leftCol = [];
+    rightCol = [];
+  };
+
+  for (const line of lines) {
+    const spanning = line.items.some((g) => g.x < gutter && g.end > gutter && g.text.trim());
+    if (spanning) {
+      flush();
+      blocks.push(joinLines([line]));
+      continue;
+    }
+    const l = line.items.filter((g) => g.end <= gutter || g.x + (g.end - g.x) / 2 < gutter);
+    const r = line.items.filter((g) => !l.includes(g));
+    if (l.length > 0) leftCol.push({ ...line, items: l });
+    if (r.length > 0) rightCol.push({ ...line, items: r });
+  }
+  flush();
+  return blocks.join('\n\n');
+}
+
+/**
+ * Clean up characters that read badly in plain text
+ */
+function normalizePdfText(text: string): string {
+  return text
+    .replace(/\u00AD/g, '') // soft hyphens
+    .replace(/[\uFB00-\uFB06]/g, (ch) => ch.normalize('NFKC')) // ligatures (ﬁ → fi)
+    .split('\u0000').join('');
+}
+
+/**
+ * Join per-page texts with a blank line, recording each page's range in the result
+ */
+export function joinPages(pageTexts: string[]): { text: string; pages: PageRange[] } {
+  let text = '';
+  const pages: PageRange[] = [];
+  pageTexts.forEach((pageText, i) => {
+    if (text && pageText) text += '\n\n';
+    const start = text.length;
+    text += pageText;
+    pages.push({ page: i + 1, start, end: text.length });
+  });
+  return { text, pages };
+}
+
+/**
+ * The image a scanned page was made from: the largest image drawn on it
+ */
+async function pageImage(pdf: unknown, pageNumber: number): Promise<RasterImage | null> {
+  const { extractImages } = await import('https://esm.sh/unpdf@0.12.1');
+  const images: RasterImage[] = await extractImages(pdf, pageNumber);
+  let largest: RasterImage | null = null;
+  for (const image of images) {
+    if (!largest || image.width * image.height > largest.width * largest.height) largest = image;
+  }
+  // Logos and signatures aren't worth reading on their own
+  return largest && largest.width >= 300 && largest.height >= 300 ? largest : null;
+}
+
+/**
+ * Extract the text of a PDF, page by page, in reading order
+ * Scanned pages are OCRed (up to OCR_MAX_PAGES) unless `ocr` is false.
+ * Throws when the file can't be opened (code PDF_PASSWORD for password-protected files).
+ */
+export async function extractPdfText(bytes: Uint8Array, ocr = OCR_ENABLED): Promise<PdfExtraction> {
+  const { getDocumentProxy } = await import('https://esm.sh/unpdf@0.12.1');
+
+  let pdf;
+  try {
+    pdf = await getDocumentProxy(bytes);
+  } catch (error) {
+    if ((error as { name?: string })?.name === 'PasswordException') {
+      throw Object.assign(new Error('This PDF is password-protected'), { code: 'PDF_PASSWORD' });
+    }
+    throw error;
+  }
+
+  const pageTexts: string[] = [];
+  const imageOnlyPages: number[] = [];
+  const ocrPages: OcrPage[] = [];
+  let ocrSkipped = 0;
+  try {
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      const items = (content.items as Array<Partial<PdfTextItem>>).filter(
+        (item): item is PdfTextItem => typeof item.str === 'string' && Array.isArray(item.transform)
+      );
+      let text = normalizePdfText(layoutPage(items));
+
+      if (!text.trim() && ocr) {
+        if (ocrPages.length >= OCR_MAX_PAGES) {
+          ocrSkipped++;
+        } else {
+          const image = await pageImage(pdf, n);
+          if (image) {
+            const result = await ocrImage(image, n);
+            ocrPages.push(result);
+            text = result.text;
+          }
+        }
+      }
+
+      if (!text.trim()) imageOnlyPages.push(n);
+      pageTexts.push(text);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const joined = joinPages(pageTexts);
+  const { text } = joined;
+  const confidenceByPage = new Map(ocrPages.map((p) => [p.page, p.confidence]));
+  const pages = joined.pages.map((p) => (confidenceByPage.has(p.page) ? { ...p, confidence: confidenceByPage.get(p.page) } : p));
+
+  const notes: string[] = [...ocrNotes(ocrPages)];
+  if (ocrSkipped > 0) {
+    notes.push(`${ocrSkipped} more scanned page${ocrSkipped > 1 ? 's were' : ' was'} not read (OCR is limited to ${OCR_MAX_PAGES} pages)`);
+  }
+  if (text.trim() && imageOnlyPages.length > 0) {
+    const list = imageOnlyPages.length > 10
+      ? `${imageOnlyPages.length} pages`
+      : `Page${imageOnlyPages.length > 1 ? 's' : ''} ${imageOnlyPages.join(', ')}`;
+    notes.push(`${list} contain no readable text and were skipped`);
+  }
+  // Fonts without a Unicode mapping come out as control or private-use characters
+  let unreadable = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if ((code < 32 && code !== 9 && code !== 10 && code !== 13) || (code >= 0xE000 && code <= 0xF8FF) || code === 0xFFFD) {
+      unreadable++;
+    }
+  }
+  if (unreadable > text.length * 0.05) {
+    notes.push('Some text uses fonts without a Unicode mapping and may be garbled - please check it before analyzing');
+  }
+
+  return { text, pages, notes, imageOnlyPages, ocrPages };
+}
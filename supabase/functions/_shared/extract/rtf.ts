@@ -0,0 +1,291 @@
+/**
+ * RTF extraction
+ * A small tokenizer over the control words that matter for contract text: paragraphs,
+ * bold, list numbers (\listtext), heading styles/outline levels and table cells. Font and
+ * colour tables, pictures, headers/footers and other destinations are skipped.
+ */
+
+import { buildTree, NUMBERED_DEPTH, type Block, type Run, type StructuredText } from './blocks.ts';
+
+interface GroupState {
+  bold: boolean;
+  /** Inside a destination whose text isn't document content */
+  skip: boolean;
+  /** Inside \listtext / \pntext: the paragraph's rendered number */
+  listText: boolean;
+  /** Fallback characters to skip after \uN */
+  uc: number;
+}
+
+// Destinations whose content isn't part of the document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'themedata', 'colorschememapping', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'fldinst', 'xmlnstbl', 'latentstyles', 'datastore',
+  'filetbl', 'revtbl', 'pgdsctbl', 'mmathPr', 'shppict', 'nonshppict', 'bkmkstart', 'bkmkend'
+]);
+
+const CONTROL = /\\([a-zA-Z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([^\\{}\r\n]+)|[\r\n]+/g;
+
+/**
+ * The balanced "{…}" group starting at `start`, without its outer braces
+ */
+function groupAt(source: string, start: number): string {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') i++;
+    else if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) return source.slice(start + 1, i);
+  }
+  return source.slice(start + 1);
+}
+
+/**
+ * Paragraph style number → heading level ("heading N" → N-1, Title → -1), from the stylesheet
+ */
+function headingStyles(source: string): Map<number, number> {
+  const styles = new Map<number, number>();
+  const start = source.indexOf('{\\stylesheet');
+  if (start < 0) return styles;
+  const stylesheet = groupAt(source, start);
+  for (let i = stylesheet.indexOf('{'); i >= 0; i = stylesheet.indexOf('{', i + 1)) {
+    const entry = groupAt(stylesheet, i);
+    i += entry.length + 1;
+    const id = entry.match(/\\s(\d+)(?![\d])/);
+    if (!id) continue;
+    const name = entry
+      .replace(/\{[^{}]*\}/g, '')
+      .replace(/\\[a-zA-Z]+-?\d* ?/g, '')
+      .replace(/;\s*$/, '')
+      .trim();
+    const heading = name.match(/^heading (\d)$/i);
+    if (heading) styles.set(Number(id[1]), Number(heading[1]) - 1);
+    else if (/^(title|subtitle)$/i.test(name)) styles.set(Number(id[1]), -1);
+  }
+  return styles;
+}
+
+/**
+ * Extract an RTF document's text and clause tree
+ * The source is the file decoded as windows-1252 (RTF is 7-bit apart from the odd raw byte).
+ */
+export function extractRtf(source: string): StructuredText {
+  if (!source.startsWith('{\\rtf')) throw new Error('Not an RTF document');
+
+  const codepage = Number(source.match(/\\ansicpg(\d+)/)?.[1] ?? 1252);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(`windows-${codepage}`);
+  } catch {
+    decoder = new TextDecoder('windows-1252');
+  }
+  const headings = headingStyles(source);
+
+  const blocks: Block[] = [];
+  let runs: Run[] = [];
+  let listNumber = '';
+  let outlineLevel: number | null = null;
+  let styleLevel: number | null = null;
+  let listLevel = 0;
+  let inTable = false;
+  let row: string[] = [];
+  let rows: string[][] = [];
+  let cellRuns: Run[] = [];
+  let pendingBytes: number[] = [];
+  let skipFallback = 0;
+
+  let state: GroupState = { bold: false, skip: false, listText: false, uc: 1 };
+  const stack: GroupState[] = [];
+  // Set by "{\*" until the next control word names the destination
+  let starred = false;
+
+  const emitText = (text: string) => {
+    if (state.skip || !text) return;
+    if (state.listText) {
+      listNumber += text;
+      return;
+    }
+    (inTable ? cellRuns : runs).push({ text, bold: state.bold });
+  };
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    const text = decoder.decode(new Uint8Array(pendingBytes));
+    pendingBytes = [];
+    emitText(text);
+  };
+
+  const flushTable = () => {
+    if (rows.some((r) => r.some(Boolean))) blocks.push({ kind: 'table', rows });
+    rows = [];
+    row = [];
+  };
+
+  const endParagraph = () => {
+    flushBytes();
+    if (inTable) {
+      // A paragraph mark inside a cell is a line break in that cell
+      cellRuns.push({ text: '\n', bold: false });
+      return;
+    }
+    if (rows.length > 0) flushTable();
+    const number = listNumber.replace(/\t/g, '').trim() || null;
+    if (runs.map((r) => r.text).join('').trim()) {
+      const level = outlineLevel ?? (styleLevel !== null && styleLevel >= 0 ? styleLevel : null);
+      blocks.push({
+        kind: 'paragraph',
+        number,
+        depth: level ?? (number ? NUMBERED_DEPTH + listLevel : null),
+        isHeading: level !== null,
+        isTitle: styleLevel === -1,
+        runs
+      });
+    }
+    runs = [];
+    listNumber = '';
+  };
+
+  for (const match of source.matchAll(CONTROL)) {
+    const [, word, param, hex, symbol, brace, text] = match;
+
+    if (hex !== undefined) {
+      if (skipFallback > 0) {
+        skipFallback--;
+        continue;
+      }
+      pendingBytes.push(parseInt(hex, 16));
+      continue;
+    }
+    flushBytes();
+
+    if (brace === '{') {
+      stack.push(state);
+      state = { ...state };
+      continue;
+    }
+    if (brace === '}') {
+      state = stack.pop() ?? state;
+      starred = false;
+      continue;
+    }
+    if (state.skip) continue;
+    if (text !== undefined) {
+      if (skipFallback > 0) {
+        const skipped = Math.min(skipFallback, text.length);
+        skipFallback -= skipped;
+        emitText(text.slice(skipped));
+      } else {
+        emitText(text);
+      }
+      continue;
+    }
+    if (symbol !== undefined) {
+      if (symbol === '*') starred = true;
+      else if (symbol === '~') emitText(' ');
+      else if (symbol === '_') emitText('-');
+      else if (symbol === '\\' || symbol === '{' || symbol === '}') emitText(symbol);
+      else if (symbol === '\n' || symbol === '\r') endParagraph();
+      continue;
+    }
+    if (word === undefined) continue;
+
+    if (starred) {
+      starred = false;
+      // Unknown "{\*\dest …}" groups are optional content readers may ignore
+      if (word !== 'listtext' && word !== 'pntext') {
+        state.skip = true;
+        continue;
+      }
+    }
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    const n = param !== undefined ? Number(param) : null;
+    switch (word) {
+      case 'listtext':
+      case 'pntext':
+        state.listText = true;
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+        endParagraph();
+        break;
+      case 'line':
+        emitText('\n');
+        break;
+      case 'tab':
+        emitText('\t');
+        break;
+      case 'emdash':
+        emitText('—');
+        break;
+      case 'endash':
+        emitText('–');
+        break;
+      case 'lquote':
+        emitText('‘');
+        break;
+      case 'rquote':
+        emitText('’');
+        break;
+      case 'ldblquote':
+        emitText('“');
+        break;
+      case 'rdblquote':
+        emitText('”');
+        break;
+      case 'bullet':
+        emitText('•');
+        break;
+      case 'b':
+        state.bold = n !== 0;
+        break;
+      case 'plain':
+        state.bold = false;
+        break;
+      case 'uc':
+        state.uc = n ?? 1;
+        break;
+      case 'u':
+        if (n !== null) emitText(String.fromCharCode(n < 0 ? n + 65536 : n));
+        skipFallback = state.uc;
+        break;
+      case 'pard':
+        outlineLevel = null;
+        styleLevel = null;
+        listLevel = 0;
+        inTable = false;
+        break;
+      case 's':
+        styleLevel = n !== null && headings.has(n) ? headings.get(n) ?? null : null;
+        break;
+      case 'ilvl':
+        listLevel = n ?? 0;
+        break;
+      case 'outlinelevel':
+        outlineLevel = n !== null && n < 9 ? n : null;
+        break;
+      case 'intbl':
+        inTable = true;
+        break;
+      case 'cell':
+        row.push(cellRuns.map((r) => r.text).join('').replace(/[ \t]+/g, ' ').trim());
+        cellRuns = [];
+        break;
+      case 'row':
+        rows.push(row);
+        row = [];
+        inTable = false;
+        break;
+    }
+  }
+  flushBytes();
+  endParagraph();
+  flushTable();
+
+  return { ...buildTree(blocks), notes: [] };
+}
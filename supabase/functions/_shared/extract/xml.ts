@@ -0,0 +1,44 @@
+/**
+ * Helpers for the XML inside office documents (DOCX, ODT), parsed with xmldom
+ */
+
+// Minimal DOM surface we use from xmldom
+export interface XmlNode {
+  nodeName: string;
+  nodeType: number;
+  childNodes: ArrayLike<XmlNode>;
+  getAttribute?(name: string): string | null;
+}
+
+export function elements(node: XmlNode, name: string): XmlNode[] {
+  return Array.from(node.childNodes).filter((n) => n.nodeName === name);
+}
+
+export function first(node: XmlNode | null | undefined, name: string): XmlNode | null {
+  return node ? elements(node, name)[0] ?? null : null;
+}
+
+export function textContent(node: XmlNode): string {
+  let text = '';
+  for (const child of Array.from(node.childNodes)) {
+    text += child.nodeType === 3 ? (child as unknown as { data: string }).data : textContent(child);
+  }
+  return text;
+}
+
+/**
+ * Unzip an office document and parse the named XML parts (missing parts are null)
+ */
+export async function readXmlParts(bytes: Uint8Array, names: string[]): Promise<Record<string, XmlNode | null>> {
+  const { unzipSync, strFromU8 } = await import('https://esm.sh/fflate@0.8.2');
+  const { DOMParser } = await import('https://esm.sh/@xmldom/xmldom@0.8.10');
+
+  const files = unzipSync(bytes, { filter: (f: { name: string }) => names.includes(f.name) });
+  const parts: Record<string, XmlNode | null> = {};
+  for (const name of names) {
+    parts[name] = files[name]
+      ? new DOMParser().parseFromString(strFromU8(files[name]), 'text/xml') as unknown as XmlNode
+      : null;
+  }
+  return parts;
+}
@@ -14,12 +14,21 @@ const SAFE_KEYS = new Set([
   'ai_tokens_in',
   'ai_tokens_out', 
   'ai_latency_ms',
+  'ai_chunks',
+  'ai_flags',
+  'ai_ungrounded_flags',
   'error_code',
   'file_mime',
   'file_size',
   'storage_path',
   'analysis_id',
   'contract_id',
+  'job_id',
+  'duplicate_kind',
+  'rule_id',
+  'flag_status',
+  'org_action',
+  'share_link_id',
   'req_id'
 ]);
 
@@ -0,0 +1,92 @@
+/**
+ * Who may see and work on a contract: the uploader of a personal contract, or the members
+ * of the organization whose workspace it is in. Mirrors can_access_contract in the
+ * database, for functions that use the service role and so bypass row level security
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type OrgRole = 'owner' | 'reviewer' | 'viewer';
+
+export const ORG_ROLES: readonly OrgRole[] = ['owner', 'reviewer', 'viewer'];
+
+/** A contract as the user may use it; the uploader has the owner role on a personal one */
+export interface ContractAccess {
+  contract_id: string;
+  /** Uploader */
+  user_id: string;
+  /** Workspace: null for the uploader's personal workspace */
+  organization_id: string | null;
+  role: OrgRole;
+}
+
+export interface AnalysisAccess extends ContractAccess {
+  analysis_id: string;
+}
+
+export function isOrgRole(value: unknown): value is OrgRole {
+  return typeof value === 'string' && (ORG_ROLES as readonly string[]).includes(value);
+}
+
+/** Reviewers and owners analyze, review flags and comment; viewers only read */
+export function canEdit(role: OrgRole): boolean {
+  return role === 'owner' || role === 'reviewer';
+}
+
+/** The user's role in the organization, or null when not a member */
+export async function orgRole(supabase: SupabaseClient, userId: string, organizationId: string): Promise<OrgRole | null> {
+  const { data } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return isOrgRole(data?.role) ? data.role : null;
+}
+
+/** On a team contract only membership counts, so an uploader who was demoted or left has no say */
+async function roleOn(
+  supabase: SupabaseClient,
+  userId: string,
+  contract: { user_id: string; organization_id: string | null }
+): Promise<OrgRole | null> {
+  if (contract.organization_id) return await orgRole(supabase, userId, contract.organization_id);
+  return contract.user_id === userId ? 'owner' : null;
+}
+
+/** The contract, when the user can see it */
+export async function contractAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  contractId: string
+): Promise<ContractAccess | null> {
+  const { data: contract } = await supabase
+    .from('contracts')
+    .select('id, user_id, organization_id')
+    .eq('id', contractId)
+    .maybeSingle();
+  if (!contract) return null;
+
+  const role = await roleOn(supabase, userId, contract);
+  return role ? { contract_id: contract.id, user_id: contract.user_id, organization_id: contract.organization_id, role } : null;
+}
+
+/** The analysis, when the user can see its contract */
+export async function analysisAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string
+): Promise<AnalysisAccess | null> {
+  const { data: analysis } = await supabase
+    .from('analyses')
+    .select('id, contract:contracts(id, user_id, organization_id)')
+    .eq('id', analysisId)
+    .maybeSingle();
+  const contract = analysis?.contract as unknown as { id: string; user_id: string; organization_id: string | null } | null;
+  if (!analysis || !contract) return null;
+
+  const role = await roleOn(supabase, userId, contract);
+  return role
+    ? { analysis_id: analysis.id, contract_id: contract.id, user_id: contract.user_id, organization_id: contract.organization_id, role }
+    : null;
+}
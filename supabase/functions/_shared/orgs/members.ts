@@ -0,0 +1,265 @@
+/**
+ * Organizations and their members: creating one, inviting people by email, roles and
+ * leaving. Only owners manage members, and an organization always keeps an owner
+ */
+
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { orgRole, type OrgRole } from './access.ts';
+
+export interface OrgMember {
+  user_id: string;
+  email: string | null;
+  role: OrgRole;
+  joined_at: string;
+}
+
+export interface OrgInvite {
+  id: string;
+  organization_id: string;
+  organization_name?: string;
+  email: string;
+  role: OrgRole;
+  created_at: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  /** The user's role */
+  role: OrgRole;
+  members: OrgMember[];
+  /** Pending invites (owners only) */
+  invites: OrgInvite[];
+}
+
+function orgError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/** Email addresses of users, by id (null for users that no longer exist) */
+export async function userEmails(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string | null>> {
+  const unique = [...new Set(userIds)];
+  const users = await Promise.all(unique.map(async (id) => {
+    const { data } = await supabase.auth.admin.getUserById(id);
+    return [id, data?.user?.email ?? null] as const;
+  }));
+  return new Map(users);
+}
+
+/** Members of an organization with their email addresses */
+export async function orgMembers(supabase: SupabaseClient, organizationId: string): Promise<OrgMember[]> {
+  const { data } = await supabase
+    .from('organization_members')
+    .select('user_id, role, created_at')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  const emails = await userEmails(supabase, (data || []).map(m => m.user_id));
+  return (data || []).map(m => ({
+    user_id: m.user_id,
+    email: emails.get(m.user_id) ?? null,
+    role: m.role as OrgRole,
+    joined_at: m.created_at
+  }));
+}
+
+async function requireOwner(supabase: SupabaseClient, userId: string, organizationId: string): Promise<void> {
+  if (await orgRole(supabase, userId, organizationId) !== 'owner') {
+    throw orgError('Only owners can manage this organization', 'NOT_ALLOWED');
+  }
+}
+
+/** Never leave an organization without an owner */
+async function requireAnotherOwner(supabase: SupabaseClient, organizationId: string, memberId: string): Promise<void> {
+  const { count } = await supabase
+    .from('organization_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner')
+    .neq('user_id', memberId);
+  if (!count) throw orgError('An organization needs at least one other owner first', 'LAST_OWNER');
+}
+
+/** The user's organizations, and invites waiting for them */
+export async function listOrganizations(
+  supabase: SupabaseClient,
+  user: User
+): Promise<{ organizations: Organization[]; invites: OrgInvite[] }> {
+  const { data: memberships } = await supabase
+    .from('organization_members')
+    .select('role, organization:organizations(id, name)')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  const organizations = await Promise.all((memberships || []).map(async (m) => {
+    const org = m.organization as unknown as { id: string; name: string };
+    const role = m.role as OrgRole;
+    const { data: invites } = role === 'owner'
+      ? await supabase
+        .from('organization_invites')
+        .select('id, organization_id, email, role, created_at')
+        .eq('organization_id', org.id)
+        .order('created_at', { ascending: true })
+      : { data: [] };
+
+    return {
+      id: org.id,
+      name: org.name,
+      role,
+      members: await orgMembers(supabase, org.id),
+      invites: (invites || []) as OrgInvite[]
+    };
+  }));
+
+  const { data: invites } = user.email
+    ? await supabase
+      .from('organization_invites')
+      .select('id, organization_id, email, role, created_at, organization:organizations(name)')
+      .eq('email', normalizeEmail(user.email))
+    : { data: [] };
+
+  return {
+    organizations,
+    invites: (invites || []).map(({ organization, ...invite }) => ({
+      ...invite,
+      organization_name: (organization as unknown as { name: string } | null)?.name
+    }) as OrgInvite)
+  };
+}
+
+export async function createOrganization(supabase: SupabaseClient, userId: string, name: string): Promise<string> {
+  const trimmed = (name || '').trim();
+  if (!trimmed) throw orgError('Name the organization', 'INVALID');
+
+  const { data: org, error } = await supabase
+    .from('organizations')
+    .insert({ name: trimmed.slice(0, 100), created_by: userId })
+    .select('id')
+    .single();
+  if (error || !org) {
+    console.error('Organization insert error:', error);
+    throw orgError('Failed to create organization', 'DB_ERROR');
+  }
+
+  const { error: mErr } = await supabase
+    .from('organization_members')
+    .insert({ organization_id: org.id, user_id: userId, role: 'owner' });
+  if (mErr) {
+    console.error('Organization owner insert error:', mErr);
+    await supabase.from('organizations').delete().eq('id', org.id);
+    throw orgError('Failed to create organization', 'DB_ERROR');
+  }
+  return org.id;
+}
+
+/** Invite someone by email; inviting the same address again updates the role */
+export async function inviteMember(
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string,
+  email: string,
+  role: OrgRole
+): Promise<void> {
+  await requireOwner(supabase, userId, organizationId);
+  const address = normalizeEmail(email || '');
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) throw orgError('Enter a valid email address', 'INVALID');
+
+  const members = await orgMembers(supabase, organizationId);
+  if (members.some(m => m.email?.toLowerCase() === address)) {
+    throw orgError('This person is already a member', 'ALREADY_MEMBER');
+  }
+
+  const { error } = await supabase
+    .from('organization_invites')
+    .upsert({ organization_id: organizationId, email: address, role, invited_by: userId }, { onConflict: 'organization_id,email' });
+  if (error) {
+    console.error('Invite upsert error:', error);
+    throw orgError('Failed to invite', 'DB_ERROR');
+  }
+}
+
+/** Join the organization an invite sent to the user's email address is for */
+export async function acceptInvite(supabase: SupabaseClient, user: User, inviteId: string): Promise<string> {
+  const { data: invite } = await supabase
+    .from('organization_invites')
+    .select('id, organization_id, email, role')
+    .eq('id', inviteId)
+    .maybeSingle();
+  if (!invite || !user.email || invite.email !== normalizeEmail(user.email)) {
+    throw orgError('Invite not found', 'NOT_FOUND');
+  }
+
+  const { error } = await supabase
+    .from('organization_members')
+    .upsert({ organization_id: invite.organization_id, user_id: user.id, role: invite.role }, { onConflict: 'organization_id,user_id' });
+  if (error) {
+    console.error('Member insert error:', error);
+    throw orgError('Failed to join organization', 'DB_ERROR');
+  }
+
+  await supabase.from('organization_invites').delete().eq('id', invite.id);
+  return invite.organization_id;
+}
+
+/** Decline an invite (the invitee) or withdraw it (an owner) */
+export async function deleteInvite(supabase: SupabaseClient, user: User, inviteId: string): Promise<void> {
+  const { data: invite } = await supabase
+    .from('organization_invites')
+    .select('id, organization_id, email')
+    .eq('id', inviteId)
+    .maybeSingle();
+  if (!invite) throw orgError('Invite not found', 'NOT_FOUND');
+
+  if (!user.email || invite.email !== normalizeEmail(user.email)) {
+    await requireOwner(supabase, user.id, invite.organization_id);
+  }
+  await supabase.from('organization_invites').delete().eq('id', invite.id);
+}
+
+export async function setMemberRole(
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string,
+  memberId: string,
+  role: OrgRole
+): Promise<void> {
+  await requireOwner(supabase, userId, organizationId);
+  if (role !== 'owner') await requireAnotherOwner(supabase, organizationId, memberId);
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .update({ role })
+    .eq('organization_id', organizationId)
+    .eq('user_id', memberId)
+    .select('user_id');
+  if (error) {
+    console.error('Member role update error:', error);
+    throw orgError('Failed to change role', 'DB_ERROR');
+  }
+  if (!data?.length) throw orgError('Member not found', 'NOT_FOUND');
+}
+
+/** Remove a member (an owner), or leave the organization (any member) */
+export async function removeMember(
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string,
+  memberId: string
+): Promise<void> {
+  if (memberId !== userId) await requireOwner(supabase, userId, organizationId);
+  if (await orgRole(supabase, memberId, organizationId) === 'owner') {
+    await requireAnotherOwner(supabase, organizationId, memberId);
+  }
+
+  const { error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', memberId);
+  if (error) {
+    console.error('Member delete error:', error);
+    throw orgError('Failed to remove member', 'DB_ERROR');
+  }
+}
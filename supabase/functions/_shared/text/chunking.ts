@@ -0,0 +1,113 @@
+/**
+ * Splitting long contracts into analyzable chunks on section boundaries
+ * Each chunk keeps its offset in the full text so flags can be mapped back
+ */
+
+import { isHeadingLine } from './clause-context.ts';
+
+export interface TextChunk {
+  index: number;
+  /** Offset of the chunk in the full text */
+  start: number;
+  end: number;
+  text: string;
+  /** First heading in the chunk, if any ("7. INDEMNIFICATION") */
+  heading: string | null;
+}
+
+export interface Section {
+  start: number;
+  end: number;
+  heading: string | null;
+}
+
+/**
+ * Split the text at heading lines; text before the first heading is its own section
+ */
+export function findSections(text: string): Section[] {
+  const starts: Array<{ index: number; heading: string | null }> = [{ index: 0, heading: null }];
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (isHeadingLine(line)) {
+      if (offset === 0) starts[0].heading = line.trim();
+      else starts.push({ index: offset, heading: line.trim() });
+    }
+    offset += line.length + 1;
+  }
+
+  return starts.map((s, i) => ({
+    start: s.index,
+    end: i + 1 < starts.length ? starts[i + 1].index : text.length,
+    heading: s.heading
+  }));
+}
+
+/**
+ * Best place to cut `text` in [from, limit): a blank line, else a sentence end, else a line break
+ */
+function findCut(text: string, from: number, limit: number): number {
+  const window = text.substring(from, limit);
+  const minCut = Math.floor(window.length / 2);
+
+  const candidates = [/\n\s*\n/g, /[.!?;](?=\s)/g, /\n/g];
+  for (const re of candidates) {
+    let last = -1;
+    for (const m of window.matchAll(re)) {
+      const cut = m.index! + m[0].length;
+      if (cut >= minCut) last = cut;
+    }
+    if (last !== -1) return from + last;
+  }
+  return limit;
+}
+
+/**
+ * Split a contract into chunks of at most `maxChars`, cutting between sections where possible
+ * Consecutive small sections are packed together; a section longer than `maxChars` is cut at
+ * paragraph or sentence boundaries. Chunks cover the whole text with no gaps or overlap.
+ */
+export function splitIntoChunks(text: string, maxChars: number): TextChunk[] {
+  if (text.length <= maxChars) {
+    return [{ index: 0, start: 0, end: text.length, text, heading: null }];
+  }
+
+  // Break oversized sections first so every piece fits on its own
+  const pieces: Section[] = [];
+  for (const section of findSections(text)) {
+    let start = section.start;
+    let heading = section.heading;
+    while (section.end - start > maxChars) {
+      const cut = findCut(text, start, start + maxChars);
+      pieces.push({ start, end: cut, heading });
+      start = cut;
+      heading = heading ? `${heading} (cont.)` : null;
+    }
+    pieces.push({ start, end: section.end, heading });
+  }
+
+  // Pack pieces greedily into chunks
+  const chunks: TextChunk[] = [];
+  let current: Section | null = null;
+  for (const piece of pieces) {
+    if (current && piece.end - current.start <= maxChars) {
+      current.end = piece.end;
+      continue;
+    }
+    if (current) chunks.push(toChunk(text, current, chunks.length));
+    current = { ...piece };
+  }
+  if (current) chunks.push(toChunk(text, current, chunks.length));
+
+  return chunks;
+}
+
+function toChunk(text: string, section: Section, index: number): TextChunk {
+  return {
+    index,
+    start: section.start,
+    end: section.end,
+    text: text.substring(section.start, section.end),
+    heading: section.heading
+  };
+}
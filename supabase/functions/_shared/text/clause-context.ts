@@ -0,0 +1,187 @@
+/**
+ * Context analysis for rule matches: negation, party direction and clause structure
+ * Used by the rule-based analyzer to tell a real obligation apart from a heading,
+ * a definition, a negated mention, or a clause that protects the user
+ */
+
+export type MatchStructure = 'heading' | 'definition' | 'operative';
+export type PartyRole = 'user' | 'counterparty' | 'mutual';
+
+export interface MatchContext {
+  structure: MatchStructure;
+  /** A negation governs the clause ("shall not be required to indemnify") */
+  negated: boolean;
+  /** The negation qualifies the keyword itself ("no non-compete shall apply") */
+  excluded: boolean;
+  party: PartyRole | null;
+}
+
+// Role words for the freelancer (our user) and the hiring side
+const USER_PARTY_TERMS = [
+  'contractor', 'developer', 'freelancer', 'consultant', 'service provider', 'provider', 'designer', 'writer', 'you'
+];
+const COUNTERPARTY_TERMS = [
+  'client', 'company', 'customer', 'buyer', 'purchaser', 'employer', 'licensee'
+];
+const MUTUAL_TERMS = [
+  'each party', 'either party', 'both parties', 'the parties', 'each of the parties', 'mutual', 'mutually'
+];
+
+const NEGATION_WORDS = new Set(['no', 'not', 'never', 'neither', 'nor', 'none', 'without', "n't", 'cannot']);
+// Boilerplate that contains a negation word but does not negate anything
+const NEGATION_EXCEPTIONS = /\b(?:without limitation|not limited to|without prejudice|notwithstanding)\b/gi;
+const NEGATION_WINDOW_WORDS = 6;
+// Negators that, right before a keyword, rule out the concept altogether
+const TERM_NEGATORS = new Set(['no', 'without', 'neither', 'nor', 'none']);
+
+const DEFINITION_PATTERN = /["“][^"”]{1,80}["”]\s*(?:shall\s+)?(?:means?|includes?|refers?\s+to|has\s+the\s+meaning)\b/i;
+const OBLIGATION_VERBS = /\b(?:shall|will|must|may|agrees?|warrants?|acknowledges?)\b/i;
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termsPattern(terms: string[]): string {
+  // Longest first so "service provider" wins over "provider"
+  return [...terms].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+}
+
+const PARTY_RE = new RegExp(
+  `\\b(?:(${termsPattern(MUTUAL_TERMS)})|(${termsPattern(USER_PARTY_TERMS)})|(${termsPattern(COUNTERPARTY_TERMS)}))(?:'s|’s)?\\b`,
+  'gi'
+);
+
+interface PartyMention {
+  role: PartyRole;
+  index: number;
+  end: number;
+}
+
+function findPartyMentions(text: string): PartyMention[] {
+  const mentions: PartyMention[] = [];
+  for (const m of text.matchAll(PARTY_RE)) {
+    const role: PartyRole = m[1] ? 'mutual' : m[2] ? 'user' : 'counterparty';
+    mentions.push({ role, index: m.index!, end: m.index! + m[0].length });
+  }
+  return mentions;
+}
+
+// A mention acts as the subject when a modal/obligation verb follows ("Client may", "Developer agrees"),
+// or it is possessive ("Client's liability"); an agent ("created by Developer") never is
+const SUBJECT_FOLLOWER = /^\s*(?:(?:hereby|also|further|not)\s+)*(?:shall|will|may|must|agrees?|warrants?|covenants?|undertakes?|can|is|are)\b/i;
+
+function isSubjectMention(text: string, mention: PartyMention): boolean {
+  const before = text.substring(Math.max(0, mention.index - 12), mention.index);
+  if (/\bby\s+(?:the\s+)?$/i.test(before)) return false;
+  if (/['’]s$/i.test(text.substring(mention.index, mention.end))) return true;
+  return SUBJECT_FOLLOWER.test(text.substring(mention.end, mention.end + 40));
+}
+
+/**
+ * Bounds of the line containing `index`
+ */
+function lineAt(text: string, index: number): { start: number; end: number } {
+  const start = text.lastIndexOf('\n', index - 1) + 1;
+  const nl = text.indexOf('\n', index);
+  return { start, end: nl === -1 ? text.length : nl };
+}
+
+/**
+ * Whether a line looks like a section heading ("9. INDEMNIFICATION", "Section 4 – Term")
+ */
+export function isHeadingLine(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 80) return false;
+  if (OBLIGATION_VERBS.test(trimmed)) return false;
+
+  const withoutNumbering = trimmed.replace(/^(?:(?:section|article|clause)\s+)?[\dIVXivx]+(?:\.\d+)*[.)]?\s*[-–—:]?\s*/i, '');
+  if (/[.;,]$/.test(withoutNumbering)) return false;
+
+  const letters = withoutNumbering.replace(/[^A-Za-z]/g, '');
+  if (letters.length === 0) return false;
+  const upperRatio = letters.replace(/[^A-Z]/g, '').length / letters.length;
+  const numbered = withoutNumbering.length < trimmed.length;
+  const words = withoutNumbering.split(/\s+/).filter(Boolean).length;
+
+  return upperRatio > 0.8 || (numbered && words <= 8);
+}
+
+/**
+ * Negation scope for the keyword at `index`
+ * Looks back a few words within the same clause segment (stops at , ; : or a line break)
+ */
+function findNegation(text: string, index: number): { negated: boolean; excluded: boolean } {
+  const before = text.substring(Math.max(0, index - 120), index);
+  const segment = before.split(/[,;:\n()]/).pop() ?? '';
+  const cleaned = segment.replace(NEGATION_EXCEPTIONS, ' ');
+  const words = (cleaned.toLowerCase().replace(/n't\b/g, " n't").match(/[a-z']+/g) ?? []).slice(-NEGATION_WINDOW_WORDS);
+  const negated = words.some((w) => NEGATION_WORDS.has(w));
+  const excluded = words.length > 0 && TERM_NEGATORS.has(words[words.length - 1]);
+  return { negated, excluded };
+}
+
+/**
+ * The party a clause is about: the agent of a passive ("indemnified by the Developer"),
+ * else the nearest subject before the keyword, else the first subject after it.
+ * Returns null when no party is clearly the subject, so direction is never guessed.
+ */
+function findParty(clause: string, keywordOffset: number): PartyRole | null {
+  const mentions = findPartyMentions(clause);
+  if (mentions.length === 0) return null;
+
+  const passive = clause.substring(keywordOffset).match(/^[\w-]*ed\s+by\s+(?:the\s+)?/i);
+  if (passive) {
+    const agentIndex = keywordOffset + passive[0].length;
+    const agent = mentions.find((m) => m.index === agentIndex);
+    if (agent) return agent.role;
+  }
+
+  const subjects = mentions.filter((m) => isSubjectMention(clause, m));
+  const preceding = subjects.filter((m) => m.index < keywordOffset);
+  if (preceding.length > 0) return preceding[preceding.length - 1].role;
+  return subjects.find((m) => m.index >= keywordOffset)?.role ?? null;
+}
+
+/**
+ * Classify a keyword match within its sentence
+ * @param text - Full contract text
+ * @param span - Offsets of the sentence containing the match
+ * @param index - Offset of the matched keyword
+ */
+export function analyzeMatchContext(
+  text: string,
+  span: { start: number; end: number },
+  index: number
+): MatchContext {
+  const sentence = text.substring(span.start, span.end);
+  const line = lineAt(text, index);
+  const heading = isHeadingLine(text.substring(line.start, line.end));
+
+  let structure: MatchStructure = 'operative';
+  if (heading) {
+    structure = 'heading';
+  } else if (DEFINITION_PATTERN.test(sentence)) {
+    structure = 'definition';
+  }
+
+  // For a heading, the party is whoever the body under it talks about
+  const bodyStart = heading ? Math.min(line.end, span.end) : span.start;
+  const clause = text.substring(bodyStart, span.end);
+  const keywordOffset = heading ? 0 : index - bodyStart;
+
+  const negation = heading ? { negated: false, excluded: false } : findNegation(text, index);
+
+  return {
+    structure,
+    ...negation,
+    party: findParty(clause, keywordOffset)
+  };
+}
+
+/**
+ * Whether the sentence is nothing but a heading (e.g. a table-of-contents entry)
+ */
+export function isHeadingOnly(text: string, span: { start: number; end: number }): boolean {
+  const sentence = text.substring(span.start, span.end);
+  return sentence.split('\n').every((l) => !l.trim() || isHeadingLine(l));
+}
@@ -40,23 +40,122 @@ export function splitSentences(text: string): string[] {
   }).filter(sentence => sentence.trim().length > 0);
 }
 
+/**
+ * How a flag was located in the source text
+ * exact: verbatim (case-insensitive); fuzzy: after normalizing whitespace/quotes, via a
+ * long word run from the clause, or a passage containing nearly all of the clause's words;
+ * keyword: best sentence sharing the clause's risk keywords
+ */
+export type SpanMatch = 'exact' | 'fuzzy' | 'keyword';
+
+/**
+ * Lowercase, fold curly quotes/dashes and collapse whitespace, keeping a map from each
+ * normalized character back to its offset in the original string
+ */
+function normalizeWithMap(text: string): { norm: string; map: number[] } {
+  let norm = '';
+  const map: number[] = [];
+  let lastWasSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i].toLowerCase();
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      if (ch === '“' || ch === '”') ch = '"';
+      else if (ch === '‘' || ch === '’') ch = "'";
+      else if (ch === '–' || ch === '—') ch = '-';
+    }
+    norm += ch;
+    // toLowerCase can expand a character (e.g. "İ"), so map every produced unit
+    for (let k = 0; k < ch.length; k++) map.push(i);
+  }
+
+  return { norm, map };
+}
+
+/**
+ * Find `needle` in `source` ignoring case, whitespace runs and quote/dash styles
+ * Returns original-text offsets
+ */
+function findNormalized(source: string, needle: string): { start: number; end: number } | null {
+  const src = normalizeWithMap(source);
+  const ndl = normalizeWithMap(needle.trim()).norm;
+  if (!ndl) return null;
+
+  const idx = src.norm.indexOf(ndl);
+  if (idx === -1) return null;
+  return { start: src.map[idx], end: src.map[idx + ndl.length - 1] + 1 };
+}
+
+// Share of a clause's words a passage must contain to count as the same clause reworded
+const FUZZY_MIN_WORD_COVERAGE = 0.8;
+// Clauses shorter than this (in significant words) are too generic for word-overlap matching
+const FUZZY_MIN_WORDS = 5;
+
+function significantWords(text: string): string[] {
+  return text.toLowerCase()
+    .split(/\s+/)
+    .map(w => w.replace(/[^a-z0-9-]/g, ''))
+    .filter(w => w.length > 2);
+}
+
+/**
+ * Find the shortest run of up to three sentences containing nearly all of the clause's
+ * words, for quotes that were lightly reworded, elided or re-punctuated
+ * Returns original-text offsets
+ */
+function findByWordOverlap(source: string, clause: string): { start: number; end: number } | null {
+  const clauseWords = new Set(significantWords(clause));
+  if (clauseWords.size < FUZZY_MIN_WORDS) return null;
+
+  const sentences = splitSentences(source);
+  let best: { text: string; coverage: number } | null = null;
+  for (let i = 0; i < sentences.length; i++) {
+    for (let n = 1; n <= 3 && i + n <= sentences.length; n++) {
+      const text = sentences.slice(i, i + n).join(' ');
+      const windowWords = significantWords(text);
+      // A passage much longer than the clause would match almost anything
+      if (windowWords.length > clauseWords.size * 2) break;
+
+      const present = new Set(windowWords);
+      let shared = 0;
+      clauseWords.forEach(w => { if (present.has(w)) shared++; });
+      const coverage = shared / clauseWords.size;
+      if (coverage < FUZZY_MIN_WORD_COVERAGE) continue;
+
+      if (!best || coverage > best.coverage || (coverage === best.coverage && text.length < best.text.length)) {
+        best = { text, coverage };
+      }
+    }
+  }
+
+  // sbd collapses whitespace inside sentences, so locate the run leniently
+  return best ? findNormalized(source, best.text) : null;
+}
+
 /**
  * Extract span information for a clause within source text
  * @param source - Original contract text
  * @param clause - Clause text to find
- * @returns Span coordinates and context
+ * @returns Span coordinates, context and how the span was found (null when not found)
  */
 export function extractSpan(source: string, clause: string): { 
   start: number | null, 
   end: number | null, 
-  context: string 
+  context: string,
+  match: SpanMatch | null
 } {
   if (!source || !clause) {
-    return { start: null, end: null, context: '' };
+    return { start: null, end: null, context: '', match: null };
   }
 
   const sourceNorm = source.toLowerCase();
-  const clauseNorm = clause.trim().toLowerCase();
+  // Rule flags truncate long clauses with a trailing ellipsis
+  const clauseNorm = clause.trim().replace(/(\.\.\.|…)$/, '').trim().toLowerCase();
 
   // 1) Try exact case-insensitive match
   const exactIndex = sourceNorm.indexOf(clauseNorm);
@@ -64,49 +163,60 @@ export function extractSpan(source: string, clause: string): {
     const start = exactIndex;
     const end = exactIndex + clauseNorm.length;
     const context = getContext(source, start, end);
-    return { start, end, context };
+    return { start, end, context, match: 'exact' };
+  }
+
+  // 2) Try again ignoring whitespace, quote and dash differences
+  const normalized = findNormalized(source, clauseNorm);
+  if (normalized) {
+    return { ...normalized, context: getContext(source, normalized.start, normalized.end), match: 'fuzzy' };
   }
 
-  // 2) Try middle 12 words of clause
+  // 3) Try middle 12 words of clause
   const words = clauseNorm.split(/\s+/).filter(w => w.length > 0);
   if (words.length >= 12) {
     const startIdx = Math.floor((words.length - 12) / 2);
     const middleWords = words.slice(startIdx, startIdx + 12).join(' ');
-    const middleIndex = sourceNorm.indexOf(middleWords);
+    const middle = findNormalized(source, middleWords);
     
-    if (middleIndex !== -1) {
-      const start = middleIndex;
-      const end = middleIndex + middleWords.length;
-      const context = getContext(source, start, end);
-      return { start, end, context };
+    if (middle) {
+      const context = getContext(source, middle.start, middle.end);
+      return { ...middle, context, match: 'fuzzy' };
     }
   }
 
-  // 3) Fallback: find sentence with risk keywords
+  // 4) Try a short passage containing nearly all of the clause's words
+  const overlap = findByWordOverlap(source, clauseNorm);
+  if (overlap) {
+    return { ...overlap, context: getContext(source, overlap.start, overlap.end), match: 'fuzzy' };
+  }
+
+  // 5) Fallback: the sentence sharing the most words with the clause,
+  //    among those containing one of the clause's risk keywords
+  const clauseKeywords = RISK_KEYWORDS.filter(k => clauseNorm.includes(k));
+  const clauseWords = new Set(words.map(w => w.replace(/[^a-z0-9-]/g, '')).filter(w => w.length > 3));
   const sentences = splitSentences(source);
+  let best = -1;
+  let bestScore = 0;
   for (let i = 0; i < sentences.length; i++) {
     const sentence = sentences[i].toLowerCase();
-    const hasRiskKeyword = RISK_KEYWORDS.some(keyword => 
-      sentence.includes(keyword.toLowerCase())
-    );
-    
-    if (hasRiskKeyword) {
-      // Include current sentence ± one neighbor as context
-      const contextSentences = [];
-      if (i > 0) contextSentences.push(sentences[i - 1]);
-      contextSentences.push(sentences[i]);
-      if (i < sentences.length - 1) contextSentences.push(sentences[i + 1]);
-      
-      const context = contextSentences.join(' ').trim();
-      const contextIndex = source.indexOf(sentences[i]);
-      
-      if (contextIndex !== -1) {
-        return {
-          start: contextIndex,
-          end: contextIndex + sentences[i].length,
-          context
-        };
-      }
+    if (!clauseKeywords.some(keyword => sentence.includes(keyword))) continue;
+
+    const score = sentence.split(/\s+/).filter(w => clauseWords.has(w.replace(/[^a-z0-9-]/g, ''))).length;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+
+  if (best !== -1) {
+    // Include current sentence ± one neighbor as context
+    const contextSentences = sentences.slice(Math.max(0, best - 1), best + 2);
+    const context = contextSentences.join(' ').trim();
+    const located = findNormalized(source, sentences[best]);
+
+    if (located) {
+      return { ...located, context, match: 'keyword' };
     }
   }
 
@@ -114,7 +224,8 @@ export function extractSpan(source: string, clause: string): {
   return { 
     start: null, 
     end: null, 
-    context: clause.length > 200 ? clause.substring(0, 200) + '...' : clause
+    context: clause.length > 200 ? clause.substring(0, 200) + '...' : clause,
+    match: null
   };
 }
 
@@ -126,7 +237,7 @@ export function extractSpan(source: string, clause: string): {
  * @param padding - Characters to include before/after (default 150)
  * @returns Context string
  */
-function getContext(source: string, start: number, end: number, padding = 150): string {
+export function getContext(source: string, start: number, end: number, padding = 150): string {
   const contextStart = Math.max(0, start - padding);
   const contextEnd = Math.min(source.length, end + padding);
   let context = source.substring(contextStart, contextEnd);
@@ -222,4 +333,43 @@ export function riskKeywordsFor(flag: any): string[] {
   
   // Remove duplicates and return
   return [...new Set(keywords)];
-}
\ No newline at end of file
+}
+
+/**
+ * Anchor a flag to its position in the source text, ready for persisting on the flags table
+ * Flags that already carry offsets (rule-based flags) are exact by construction
+ * @param source - Contract text the flag was produced from
+ * @param flag - Flag with clause and optional offsets
+ * @returns Span columns, context, risk keywords and match quality
+ */
+export function anchorFlag(
+  source: string,
+  flag: { clause: string; severity?: string; rationale?: string; span_start?: number | null; span_end?: number | null }
+): {
+  span_start: number | null,
+  span_end: number | null,
+  context: string,
+  keywords: string[],
+  span_match: SpanMatch | null
+} {
+  const keywords = riskKeywordsFor(flag);
+
+  if (typeof flag.span_start === 'number' && typeof flag.span_end === 'number') {
+    return {
+      span_start: flag.span_start,
+      span_end: flag.span_end,
+      context: getContext(source, flag.span_start, flag.span_end),
+      keywords,
+      span_match: 'exact'
+    };
+  }
+
+  const span = extractSpan(source, flag.clause);
+  return {
+    span_start: span.start,
+    span_end: span.end,
+    context: span.context,
+    keywords,
+    span_match: span.match
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Contract fingerprints for duplicate detection
+ * A hash of the normalized text recognises the same contract pasted or re-saved with
+ * different whitespace, quotes or line breaks; a MinHash signature over word shingles
+ * estimates how much of the text two contracts share, for near-duplicates.
+ */
+
+// Words per shingle; long enough that unrelated contracts share few shingles
+const SHINGLE_WORDS = 5;
+// Signature length: the similarity estimate is within ~0.06 of the true value
+export const MINHASH_SIZE = 64;
+
+/**
+ * Text reduced to lowercase words and numbers separated by single spaces
+ * (formatting, punctuation and typographic variants don't change the hash)
+ */
+export function normalizeForFingerprint(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Hex SHA-256 of the normalized text
+ */
+export async function contractTextHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeForFingerprint(text)));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 32-bit FNV-1a
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer: spreads a seeded shingle hash over all 32 bits
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// One seed per hash function, fixed so signatures stored in the database stay comparable
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(0x9e3779b9 + i * 0x632be5ab));
+
+/**
+ * MinHash signature of the text's word shingles, as signed 32-bit integers (Postgres INTEGER[])
+ * Returns null for text too short to fingerprint.
+ */
+export function minhashSignature(text: string): number[] | null {
+  const words = normalizeForFingerprint(text).split(' ').filter(Boolean);
+  if (words.length === 0) return null;
+
+  const shingles = new Set<number>();
+  const count = Math.max(1, words.length - SHINGLE_WORDS + 1);
+  for (let i = 0; i < count; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const h = mix(shingle ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature.map((h) => h | 0);
+}
+
+/**
+ * Estimated share of shingles two contracts have in common (Jaccard similarity, 0-1)
+ */
+export function minhashSimilarity(a: number[], b: number[]): number {
+  const size = Math.min(a.length, b.length);
+  if (size === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < size; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / size;
+}
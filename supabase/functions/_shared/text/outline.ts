@@ -0,0 +1,43 @@
+/**
+ * Clause tree: the numbered sections of a contract as extracted from a structured source
+ * (DOCX numbering and heading styles), with each node's range in the flat contract text
+ * Used to tell the user where a flag sits ("Section 9.2 — Limitation of Liability").
+ */
+
+export interface ClauseNode {
+  /** Full section number as the contract shows it ("12.3(b)"), null for unnumbered headings */
+  number: string | null;
+  heading: string | null;
+  /** The node's own text, not including its children */
+  body: string;
+  /** Depth in the tree, 1 for top-level sections */
+  level: number;
+  /** [start, end) of the node and its children in the flat text */
+  start: number;
+  end: number;
+  /** Tables inside the section: rows of cell texts */
+  tables?: string[][][];
+  children: ClauseNode[];
+}
+
+/**
+ * "Section 9.2 — Limitation of Liability", or whichever half is known
+ * A numbered section without a heading of its own borrows its nearest ancestor's heading.
+ */
+export function sectionLabel(tree: ClauseNode[], offset: number): string | null {
+  const path: ClauseNode[] = [];
+  let level = tree;
+  for (;;) {
+    const node = level.find((n) => n.start <= offset && offset < n.end);
+    if (!node) break;
+    path.push(node);
+    level = node.children;
+  }
+
+  const numbered = [...path].reverse().find((n) => n.number);
+  const headed = [...path].reverse().find((n) => n.heading);
+  const number = numbered?.number?.replace(/\.$/, '');
+  if (number && headed) return `Section ${number} — ${headed.heading}`;
+  if (number) return `Section ${number}`;
+  return headed?.heading ?? null;
+}
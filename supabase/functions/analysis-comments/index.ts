@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  addComment,
+  analysisTeammates,
+  discussedAnalysis,
+  listComments,
+  type NewComment
+} from '../_shared/analysis/comments.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CommentRequest extends NewComment {
+  analysis_id?: string;
+}
+
+// Comment failures the client can act on, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  COMMENT_EMPTY: 400,
+  COMMENT_TOO_LONG: 400,
+  ANCHOR_INVALID: 400,
+  NOT_ALLOWED: 403,
+  PARENT_MISSING: 404,
+};
+
+/**
+ * GET ?analysisId=  -> { comments, teammates } (teammates: who can be @mentioned)
+ * POST { analysis_id, body, parent_id | flag_id | span_start + span_end } -> { comment }
+ * Comments are deleted by their authors directly (RLS); the first comment of a thread
+ * others replied to is only blanked, so the replies stay
+ */
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id },
+    });
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      console.error('Auth error:', authError)
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    if (req.method === 'GET') {
+      const analysisId = new URL(req.url).searchParams.get('analysisId');
+      if (!analysisId) {
+        return json({ error: 'analysisId parameter is required' }, 400);
+      }
+
+      const analysis = await discussedAnalysis(supabase, user.id, analysisId);
+      if (!analysis) {
+        return json({ error: 'Analysis not found or access denied' }, 404);
+      }
+
+      const [comments, teammates] = await Promise.all([
+        listComments(supabase, analysis.id),
+        analysisTeammates(supabase, analysis)
+      ]);
+      return json({ comments, teammates });
+    }
+
+    const { analysis_id, ...input }: CommentRequest = await req.json();
+    if (!analysis_id || typeof input.body !== 'string') {
+      return json({ error: 'analysis_id and body are required' }, 400);
+    }
+
+    const analysis = await discussedAnalysis(supabase, user.id, analysis_id);
+    if (!analysis) {
+      return json({ error: 'Analysis not found or access denied' }, 404);
+    }
+
+    const comment = await addComment(supabase, user.id, analysis, input);
+    logEvent('comment_added', { req_id, user_id: user.id, analysis_id: analysis.id });
+
+    return json({ comment }, 201);
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error in analysis-comments function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,321 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { AIProviderId } from '../_shared/ai/index.ts';
+import { findDuplicate } from '../_shared/analysis/duplicates.ts';
+import { runContractAnalysis, type AnalysisError } from '../_shared/analysis/run.ts';
+import {
+  claimAnalysisJob,
+  failStaleAnalysisJobs,
+  queuedAnalysisJobIds,
+  updateAnalysisJob,
+  type AnalysisJob
+} from '../_shared/analysis/jobs.ts';
+import { extractText, isPlaceholderText } from '../_shared/extract/index.ts';
+import { MAX_ANALYZE_CHARS } from '../_shared/config/rules.ts';
+import type { ClauseNode } from '../_shared/text/outline.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Queued jobs picked up by one sweep (a call without job_id, made every minute by the
+// analysis-worker-sweep cron schedule)
+const SWEEP_BATCH = 5;
+
+// Failures whose message is written for users (anything else is internal)
+const USER_FACING_ERRORS = new Set(['CONTENT_BLOCKED', 'CONTRACT_MISSING']);
+
+// Supabase Edge Runtime: keeps the function alive for work that outlives the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+interface WorkerRequest {
+  job_id?: string;
+}
+
+/**
+ * Extract the text (and clause tree, for structured formats) of an uploaded file (extracting jobs)
+ * Returns null after failing the job when nothing usable could be read.
+ */
+async function extractJobText(
+  supabase: SupabaseClient,
+  job: AnalysisJob
+): Promise<{ text: string; clauseTree: ClauseNode[] | null; notes: string[] } | null> {
+  const { data: blob, error } = await supabase.storage.from('contracts').download(job.storage_path!);
+  if (error || !blob) {
+    console.error('Storage download error:', error);
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'failed',
+      error: 'The uploaded file could not be read. Please upload it again.',
+      error_code: 'FILE_MISSING'
+    });
+    return null;
+  }
+
+  const file = new File([blob], job.file_name || 'contract', { type: job.file_mime || blob.type });
+  const { text, notes, clauseTree } = await extractText(file);
+
+  if (isPlaceholderText(text)) {
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'failed',
+      notes,
+      error: 'We couldn\'t read the text of this file. Please copy and paste your contract text and analyze it manually.',
+      error_code: 'EXTRACTION_FAILED'
+    });
+    return null;
+  }
+
+  if (text.trim().length > MAX_ANALYZE_CHARS) {
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'failed',
+      notes,
+      error: `This file's text is too long to analyze (${text.trim().length.toLocaleString()} chars). Contracts of up to ${MAX_ANALYZE_CHARS.toLocaleString()} characters can be analyzed.`,
+      error_code: 'TEXT_TOO_LONG'
+    });
+    return null;
+  }
+
+  await updateAnalysisJob(supabase, job.id, { status: 'analyzing', progress: 10, notes: notes.length > 0 ? notes : null });
+  return { text: text.trim(), clauseTree: clauseTree ?? null, notes };
+}
+
+/**
+ * Saved text and clause tree of the contract a re-analysis job analyzes again (access to it
+ * was checked when the job was queued)
+ * Returns null after failing the job when the contract is gone.
+ */
+async function loadContractText(
+  supabase: SupabaseClient,
+  job: AnalysisJob
+): Promise<{ text: string; clauseTree: ClauseNode[] | null; notes: string[] } | null> {
+  const { data: contract } = await supabase
+    .from('contracts')
+    .select('source_text, clause_tree')
+    .eq('id', job.contract_id!)
+    .maybeSingle();
+
+  if (!contract?.source_text) {
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'failed',
+      error: 'This contract no longer exists, so it could not be analyzed again.',
+      error_code: 'CONTRACT_MISSING'
+    });
+    return null;
+  }
+  return { text: contract.source_text, clauseTree: (contract.clause_tree as ClauseNode[] | null) ?? null, notes: [] };
+}
+
+/**
+ * Run one claimed job to completion, recording the outcome on the job row
+ */
+async function processJob(supabase: SupabaseClient, job: AnalysisJob, req_id: string): Promise<void> {
+  const t0 = Date.now();
+  logEvent('job_start', { req_id, job_id: job.id, user_id: job.user_id, status: job.status });
+
+  try {
+    // A job queued for an existing contract re-analyzes its saved text
+    const reanalysis = job.contract_id !== null;
+    const extracted = reanalysis
+      ? await loadContractText(supabase, job)
+      : job.status === 'extracting'
+        ? await extractJobText(supabase, job)
+        : { text: job.source_text!, clauseTree: null, notes: [] };
+    if (extracted === null) {
+      logEvent('job_failed', { req_id, job_id: job.id, error_code: reanalysis ? 'CONTRACT_MISSING' : 'EXTRACTION_FAILED' });
+      return;
+    }
+
+    // An upload whose text matches a contract analyzed before reuses that analysis
+    // (analyze-contract could only compare file hashes before the text was extracted)
+    if (job.status === 'extracting' && !job.rerun) {
+      const duplicate = await findDuplicate(supabase, job.user_id, job.organization_id, { text: extracted.text, near: false });
+      if (duplicate) {
+        const analyzedOn = duplicate.analyzed_at.slice(0, 10);
+        await updateAnalysisJob(supabase, job.id, {
+          status: 'done',
+          progress: 100,
+          contract_id: duplicate.contract_id,
+          analysis_id: duplicate.analysis_id,
+          notes: [
+            ...extracted.notes,
+            `This file has the same text as "${duplicate.title || 'Untitled'}", analyzed on ${analyzedOn}; showing that analysis`
+          ]
+        });
+        logEvent('job_done', { req_id, job_id: job.id, analysis_id: duplicate.analysis_id, duplicate_kind: duplicate.kind });
+        return;
+      }
+    }
+
+    // Progress writes are chained so they land in order, and only when the value moves
+    let lastProgress = -1;
+    let progressWrites = Promise.resolve();
+    const onProgress = (progress: number) => {
+      if (progress <= lastProgress) return;
+      lastProgress = progress;
+      progressWrites = progressWrites.then(() => updateAnalysisJob(supabase, job.id, { progress }));
+    };
+
+    const result = await runContractAnalysis(supabase, {
+      req_id,
+      userId: job.user_id,
+      title: job.title,
+      text: extracted.text,
+      clauseTree: extracted.clauseTree,
+      file: job.storage_path
+        ? { storage_path: job.storage_path, mime_type: job.file_mime, size_bytes: job.file_size, sha256: job.file_sha256 }
+        : null,
+      contractId: job.contract_id,
+      versionOf: job.version_of,
+      organizationId: job.organization_id,
+      useAI: job.use_ai,
+      aiProvider: job.ai_provider as AIProviderId | null
+    }, onProgress);
+    await progressWrites;
+
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'done',
+      progress: 100,
+      contract_id: result.contract_id,
+      analysis_id: result.analysis_id,
+      // The text now lives on the contract; no need to keep a second copy
+      source_text: null
+    });
+    logEvent('job_done', { req_id, job_id: job.id, analysis_id: result.analysis_id, duration_ms: Date.now() - t0 });
+  } catch (err) {
+    const e = err as Partial<AnalysisError>;
+    console.error(`Analysis job ${job.id} failed:`, err);
+    await updateAnalysisJob(supabase, job.id, {
+      status: 'failed',
+      error: e.code && USER_FACING_ERRORS.has(e.code) ? e.message! : 'Analysis failed. Please try again.',
+      error_code: e.code || 'INTERNAL'
+    });
+    logEvent('job_failed', { req_id, job_id: job.id, error_code: e.code || 'INTERNAL', duration_ms: Date.now() - t0 });
+  }
+}
+
+/**
+ * Let `work` continue after the response has been sent, where the runtime allows it
+ */
+async function runInBackground(work: Promise<unknown>): Promise<void> {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+}
+
+serve(async (req) => {
+  const req_id = newReqId();
+  logEvent('worker_start', { req_id, route: '/api/analysis-worker' });
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        ...corsHeaders,
+        'x-req-id': req_id
+      }
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'x-req-id': req_id
+        }
+      }
+    );
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only our own functions (and schedules) may run jobs
+  const authHeader = req.headers.get('Authorization') || ''
+  if (authHeader.replace('Bearer ', '') !== supabaseKey) {
+    return new Response(
+      JSON.stringify({ error: 'Forbidden' }),
+      {
+        status: 403,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'x-req-id': req_id
+        }
+      }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseKey)
+    const { job_id }: WorkerRequest = await req.json().catch(() => ({}));
+
+    // A job id runs that job; no id sweeps: fail abandoned jobs, then pick up queued ones
+    let ids: string[];
+    let stale = 0;
+    if (job_id) {
+      ids = [job_id];
+    } else {
+      stale = await failStaleAnalysisJobs(supabase);
+      ids = await queuedAnalysisJobIds(supabase, SWEEP_BATCH);
+    }
+
+    const claimed: AnalysisJob[] = [];
+    for (const id of ids) {
+      const job = await claimAnalysisJob(supabase, id);
+      if (job) claimed.push(job);
+    }
+
+    if (job_id && claimed.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Job is not queued' }),
+        {
+          status: 409,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'x-req-id': req_id
+          }
+        }
+      );
+    }
+
+    // Acknowledge now; the jobs run one after another in the background
+    await runInBackground((async () => {
+      for (const job of claimed) {
+        await processJob(supabase, job, req_id);
+      }
+    })());
+
+    return new Response(
+      JSON.stringify({ claimed: claimed.map(j => j.id), stale_failed: stale }),
+      {
+        status: 202,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'x-req-id': req_id
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error running analysis worker:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'x-req-id': req_id
+        }
+      }
+    );
+  }
+});
@@ -1,9 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { runAIAnalysis } from '../_shared/ai/index.ts';
-import { ensureSafeInput, formatModerationMessage, type ModerationError } from '../_shared/ai/moderation.ts';
-import { runRuleAnalyzer } from '../_shared/ai/rule-analyzer.ts';
+import { resolveProvider, type AIProviderId } from '../_shared/ai/index.ts';
+import { findDuplicate, type DuplicateMatch } from '../_shared/analysis/duplicates.ts';
+import { dispatchAnalysisJob, enqueueAnalysisJob, type JobStatus } from '../_shared/analysis/jobs.ts';
 import { ANALYZE_COOLDOWN_SECONDS, MAX_ANALYZE_CHARS } from '../_shared/config/rules.ts';
+import { canEdit, contractAccess, orgRole } from '../_shared/orgs/access.ts';
 import { newReqId, logEvent } from '../_shared/obs/logger.ts';
 
 const corsHeaders = {
@@ -13,27 +14,39 @@ const corsHeaders = {
 
 interface AnalyzeRequest {
   title?: string;
-  source_text: string;
+  /** Pasted contract text; or, for an uploaded file, the fields below */
+  source_text?: string;
+  /**
+   * Path of a file the user uploaded to the contracts bucket: extracted by the worker, or
+   * with source_text, the file that text was extracted from (linked to the contract)
+   */
+  storage_path?: string;
+  file_name?: string;
+  file_mime?: string;
+  file_size?: number;
+  file_sha256?: string;
   useAI?: boolean;
+  /** Explicit AI provider for this request (see AI_REQUEST_PROVIDERS) */
+  aiProvider?: string;
+  /** Analyze even when the same contract was analyzed before */
+  rerun?: boolean;
+  /** Re-analyze this saved contract (no text or file needed) */
+  contract_id?: string;
+  /** Save the contract as a new version of this one (in that contract's workspace) */
+  version_of?: string;
+  /** Save the contract to this organization's workspace instead of the user's own */
+  organization_id?: string;
 }
 
-interface Flag {
-  clause: string;
-  severity: 'low' | 'medium' | 'high';
-  rationale: string;
-  suggestion: string;
+interface AnalyzeResponse {
+  job_id: string;
+  status: JobStatus;
+  aiProvider: AIProviderId | null;
 }
 
-interface AnalyzeResponse {
-  contract_id: string;
-  analysis_id: string;
-  overall_risk: 'low' | 'medium' | 'high';
-  summary: string;
-  flags: Flag[];
-  flags_ai: Flag[];
-  flags_rule: Flag[];
-  aiRan: boolean;
-  aiFallbackUsed: boolean;
+/** Nothing queued: the contract was analyzed before; the client offers that report or a re-run */
+interface DuplicateResponse {
+  duplicate: DuplicateMatch;
 }
 
 serve(async (req) => {
@@ -104,11 +117,27 @@ serve(async (req) => {
     logEvent('analyze_authed', { req_id, user_id: user.id });
 
     // 2) Validate input and check limits
-    const { title, source_text, useAI = true }: AnalyzeRequest = await req.json();
+    const {
+      title,
+      source_text,
+      storage_path,
+      file_name,
+      file_mime,
+      file_size,
+      file_sha256,
+      useAI = true,
+      aiProvider: requestedProvider,
+      rerun = false,
+      contract_id,
+      version_of,
+      organization_id
+    }: AnalyzeRequest = await req.json();
     
-    // 2a) Oversized text -> 413
-    const len = (source_text || '').length;
-    if (len === 0) {
+    // 2a) Empty text and no file -> 400; text over MAX_ANALYZE_CHARS -> 413
+    // (long texts are analyzed in chunks, the ceiling only bounds the work per analysis)
+    const len = (source_text || '').trim().length;
+    const hasText = len > 0;
+    if (!hasText && !storage_path && !contract_id) {
       return new Response(JSON.stringify({ error: 'Missing text' }), { 
         status: 400, 
         headers: { 
@@ -121,7 +150,7 @@ serve(async (req) => {
     if (len > MAX_ANALYZE_CHARS) {
       return new Response(JSON.stringify({
         error: 'Text too long',
-        message: `That's quite long (${len.toLocaleString()} chars). Please split the contract and analyze sections of up to ${MAX_ANALYZE_CHARS.toLocaleString()} characters.`
+        message: `That's quite long (${len.toLocaleString()} chars). Contracts of up to ${MAX_ANALYZE_CHARS.toLocaleString()} characters can be analyzed.`
       }), { 
         status: 413, 
         headers: { 
@@ -132,11 +161,87 @@ serve(async (req) => {
       });
     }
 
-    // 2b) Simple per-user cooldown -> 429
+    // Uploaded files live under the owner's folder; never analyze someone else's
+    if (storage_path && !storage_path.startsWith(`${user.id}/`)) {
+      return new Response(JSON.stringify({ error: 'Invalid file' }), { 
+        status: 403, 
+        headers: { 
+          ...corsHeaders, 
+          'content-type': 'application/json',
+          'x-req-id': req_id 
+        }
+      });
+    }
+
+    // Re-analyzed contracts and new versions must be in one of the user's workspaces,
+    // and new contracts go to the user's own or to an organization they review for
+    // (viewers can read an organization's contracts but not add to them)
+    let reanalyzed: { id: string; title: string | null } | null = null;
+    // A new version goes to its family's workspace
+    let workspace: string | null = organization_id || null;
+    for (const id of [contract_id, version_of]) {
+      if (!id) continue;
+      const access = await contractAccess(supabase, user.id, id);
+      if (!access || !canEdit(access.role)) {
+        return new Response(JSON.stringify({ error: access ? 'Viewers cannot analyze contracts' : 'Contract not found' }), {
+          status: access ? 403 : 404,
+          headers: {
+            ...corsHeaders,
+            'content-type': 'application/json',
+            'x-req-id': req_id
+          }
+        });
+      }
+      if (id === version_of) workspace = access.organization_id;
+      if (id === contract_id) {
+        const { data: contract } = await supabase
+          .from('contracts')
+          .select('id, title')
+          .eq('id', id)
+          .single();
+        reanalyzed = contract;
+      }
+    }
+
+    if (organization_id && !reanalyzed && !version_of) {
+      const role = await orgRole(supabase, user.id, organization_id);
+      if (!role || !canEdit(role)) {
+        return new Response(JSON.stringify({ error: 'You cannot add contracts to this organization' }), {
+          status: 403,
+          headers: {
+            ...corsHeaders,
+            'content-type': 'application/json',
+            'x-req-id': req_id
+          }
+        });
+      }
+    }
+
+    // 2b) Same contract analyzed before -> 200 with that analysis, unless a re-run was asked for
+    // (uploads not extracted yet can only match by file hash; the worker checks their text)
+    // A new version is expected to resemble the last one, so only an exact copy counts
+    if (rerun !== true && !reanalyzed) {
+      const duplicate = await findDuplicate(supabase, user.id, workspace, {
+        text: hasText ? source_text : null,
+        sha256: storage_path ? file_sha256 : null,
+        near: !version_of
+      });
+      if (duplicate) {
+        logEvent('analyze_duplicate', { req_id, user_id: user.id, analysis_id: duplicate.analysis_id, duplicate_kind: duplicate.kind });
+        const response: DuplicateResponse = { duplicate };
+        return new Response(JSON.stringify(response), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id }
+        });
+      }
+    }
+
+    // 2c) Simple per-user cooldown -> 429 (jobs that failed don't count)
     const { data: recent, error: rErr } = await supabase
-      .from('analyses')
+      .from('analysis_jobs')
       .select('id, created_at')
       .eq('user_id', user.id)
+      .neq('status', 'failed')
       .gte('created_at', new Date(Date.now() - ANALYZE_COOLDOWN_SECONDS * 1000).toISOString())
       .limit(1);
 
@@ -156,234 +261,73 @@ serve(async (req) => {
       });
     }
 
-    const trimmedText = source_text.trim();
-    console.log(`Analyzing contract: ${title || 'Untitled'}, useAI: ${useAI}`);
-    console.log(`Text length: ${trimmedText.length} characters`);
-
-    // 3) Insert CONTRACT row first
-    const { data: contract, error: cErr } = await supabase
-      .from('contracts')
-      .insert({
-        user_id: user.id,
-        title: title || null,
-        source_text: trimmedText
-      })
-      .select()
-      .single();
-
-    if (cErr || !contract) {
-      console.error('Contract insert error:', cErr);
-      return new Response(
-        JSON.stringify({ error: 'Failed to save contract' }),
-        { 
-          status: 500, 
-          headers: { 
-            ...corsHeaders, 
-            'Content-Type': 'application/json',
-            'x-req-id': req_id 
-          } 
-        }
-      );
-    }
-
-    console.log(`Contract saved with ID: ${contract.id}`);
-
-    // 4) Run RULE-BASED analyzer
-    const ruleBased = await runRuleAnalyzer(trimmedText);
-
-    // 5) Optionally run AI analysis
-    let aiRequested = useAI === true;
-    let aiRan = false;
-    let aiFallbackUsed = false;
-    let aiResult: any = null;
-    let ruleFlags = ruleBased.flags; // Keep original rule-based flags
-    let aiFlags: Flag[] = []; // Keep AI flags separate
-    let result;
-
-    if (aiRequested) {
-      logEvent('ai_attempt', { req_id });
-      
-      // Check if the text is meaningful enough for AI analysis
-      const isPlaceholder = trimmedText.includes('Please copy and paste your contract text below') || 
-                           trimmedText.includes('extraction is not yet implemented') ||
-                           trimmedText.includes('extraction failed') ||
-                           trimmedText.length < 50; // Reduced from 100 to 50
-      
-      if (isPlaceholder) {
-        console.log('AI analysis skipped - text appears to be placeholder or too short');
-        logEvent('ai_skipped', { req_id, reason: 'placeholder_text' });
-        // Continue without AI analysis - use rule-based only
-        result = { ...ruleBased, ruleFlags, aiFlags: [] };
-      } else {
-        try {
-          await ensureSafeInput(trimmedText);
-          aiResult = await runAIAnalysis(trimmedText);
-          aiRan = true;
-          aiFlags = aiResult.flags; // Store AI flags separately
-
-          logEvent('ai_success', {
-            req_id,
-            ai_provider: aiResult?.meta?.provider || null,
-            ai_model: aiResult?.meta?.model || null,
-            ai_tokens_in: aiResult?.meta?.tokens_in || null,
-            ai_tokens_out: aiResult?.meta?.tokens_out || null,
-            ai_latency_ms: aiResult?.meta?.latency_ms || null
-          });
-
-          // Merge results
-          // a) Flags de-dup (prefer AI severity on conflicts)
-          function norm(s: string): string { 
-            return s.toLowerCase().replace(/\s+/g, ' ').slice(0, 140); 
-          }
-          
-          const pickSeverity = (a: string, b: string): 'low' | 'medium' | 'high' => {
-            const rank = { low: 0, medium: 1, high: 2 };
-            // prefer AI on tie or conflict
-            return rank[b as keyof typeof rank] >= rank[a as keyof typeof rank] ? b as 'low' | 'medium' | 'high' : a as 'low' | 'medium' | 'high';
-          };
-
-          const byKey = new Map(); // key = normalized snippet
-          for (const f of ruleBased.flags) {
-            byKey.set(norm(f.clause), { ...f });
+    // 2d) Pick the AI provider: the request, then the user's plan, then AI_PROVIDER
+    let aiProvider: AIProviderId | null = null;
+    if (useAI === true) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('plan')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      try {
+        const resolved = resolveProvider({ requested: requestedProvider, plan: profile?.plan });
+        aiProvider = resolved.provider;
+        console.log(`AI provider: ${aiProvider} (${resolved.source})`);
+      } catch (err) {
+        return new Response(JSON.stringify({
+          error: 'Invalid AI provider',
+          message: (err as Error).message
+        }), {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'content-type': 'application/json',
+            'x-req-id': req_id
           }
-          for (const f of aiResult.flags) {
-            const k = norm(f.clause);
-            if (!byKey.has(k)) {
-              byKey.set(k, { ...f });
-            } else {
-              const prev = byKey.get(k);
-              byKey.set(k, {
-                clause: prev.clause.length >= f.clause.length ? prev.clause : f.clause,
-                severity: pickSeverity(prev.severity, f.severity),
-                rationale: f.rationale || prev.rationale,
-                suggestion: f.suggestion || prev.suggestion
-              });
-            }
-          }
-          const mergedFlags = Array.from(byKey.values());
-
-          // b) Overall risk = max(ruleBased, ai)
-          const rank = { low: 0, medium: 1, high: 2 };
-          const overall_risk = (rank[aiResult.overall_risk as keyof typeof rank] > rank[ruleBased.overall_risk as keyof typeof rank])
-            ? aiResult.overall_risk
-            : ruleBased.overall_risk;
-
-          // c) Summary prefer AI
-          const summary = aiResult.summary || ruleBased.summary;
-
-          result = { overall_risk, summary, flags: mergedFlags, ai: aiResult, ruleFlags, aiFlags };
-        } catch (err: any) {
-          logEvent('ai_failure', { req_id, error_code: err?.code || 'AI_ERROR' });
-          
-          if (err?.code === 'CONTENT_BLOCKED') {
-            return new Response(JSON.stringify({
-              error: 'Content blocked',
-              message: formatModerationMessage(err.categories || [])
-            }), { 
-              status: 400, 
-              headers: { 
-                ...corsHeaders, 
-                'Content-Type': 'application/json',
-                'x-req-id': req_id 
-              }
-            });
-          }
-          console.error('AI analysis failed', err);
-          aiFallbackUsed = true;
-          // Fallback to rule-based results
-          result = { ...ruleBased, ruleFlags, aiFlags: [] };
-        }
+        });
       }
-    } else {
-      // AI was not requested; keep defaults (false/false)
-      result = { ...ruleBased, ruleFlags, aiFlags: [] };
     }
 
-    // 6) Insert ANALYSIS row
-    const { overall_risk, summary, flags } = result;
-
-    const aiMeta = aiRan && aiResult?.meta ? aiResult.meta : null;
-
-    const { data: analysis, error: aErr } = await supabase
-      .from('analyses')
-      .insert({
-        user_id: user.id,
-        contract_id: contract.id,
-        overall_risk,
-        summary,
-        ai_provider:   aiMeta ? aiMeta.provider : null,
-        ai_model:      aiMeta ? (aiMeta.model ?? null) : null,
-        ai_tokens_in:  aiMeta ? (aiMeta.tokens_in ?? null) : null,
-        ai_tokens_out: aiMeta ? (aiMeta.tokens_out ?? null) : null,
-        ai_latency_ms: aiMeta ? (aiMeta.latency_ms ?? null) : null,
-        ai_raw:        aiMeta ? (aiMeta.raw ?? null) : null,
-        ai_fallback_used: aiFallbackUsed               // <— new
-      })
-      .select()
-      .single();
-
-    if (aErr || !analysis) {
-      console.error('Analysis insert error:', aErr);
-      return new Response(
-        JSON.stringify({ error: 'Failed to save analysis' }),
-        { 
-          status: 500, 
-          headers: { 
-            ...corsHeaders, 
-            'Content-Type': 'application/json',
-            'x-req-id': req_id 
-          } 
-        }
-      );
-    }
-
-    console.log(`Analysis saved with ID: ${analysis.id}`);
-    logEvent('analyze_persisted', {
-      req_id, 
-      user_id: user.id, 
-      contract_id: contract.id, 
-      analysis_id: analysis.id
+    // 3) Queue the job and hand it to the worker; the client follows the job from here
+    // (a re-analysis reads the contract's saved text, so it carries no text or file)
+    const job = await enqueueAnalysisJob(supabase, reanalyzed ? {
+      user_id: user.id,
+      title: reanalyzed.title,
+      contract_id: reanalyzed.id,
+      use_ai: useAI === true,
+      ai_provider: aiProvider,
+      rerun: true
+    } : {
+      user_id: user.id,
+      title: title?.trim() || null,
+      source_text: hasText ? source_text!.trim() : null,
+      storage_path: storage_path || null,
+      file_name: storage_path ? (file_name || storage_path.split('/').pop() || null) : null,
+      file_mime: storage_path ? (file_mime || null) : null,
+      file_size: storage_path && typeof file_size === 'number' ? file_size : null,
+      file_sha256: storage_path && typeof file_sha256 === 'string' ? file_sha256 : null,
+      use_ai: useAI === true,
+      ai_provider: aiProvider,
+      rerun: rerun === true,
+      version_of: version_of || null,
+      organization_id: workspace
     });
 
-    // 7) Bulk insert FLAGS
-    if (flags.length > 0) {
-      const rows = flags.map(f => ({
-        user_id: user.id,
-        analysis_id: analysis.id,
-        clause: f.clause,
-        severity: f.severity,
-        rationale: f.rationale,
-        suggestion: f.suggestion
-      }));
+    logEvent('analyze_queued', { req_id, user_id: user.id, job_id: job.id });
+    await dispatchAnalysisJob(job.id);
 
-      const { error: fErr } = await supabase.from('flags').insert(rows);
-      if (fErr) {
-        console.error('Flag insert error', fErr);
-      } else {
-        console.log(`${flags.length} flags saved`);
-      }
-    }
-
-    // 8) Respond 200
     const response: AnalyzeResponse = {
-      contract_id: contract.id,
-      analysis_id: analysis.id,
-      overall_risk,
-      summary,
-      flags,
-      flags_ai: aiRan ? aiFlags : [],
-      flags_rule: ruleFlags || [],
-      aiRan,
-      aiFallbackUsed
+      job_id: job.id,
+      status: job.status,
+      aiProvider
     };
 
-    console.log(`Analysis complete: ${overall_risk} risk, ${flags.length} flags, AI: ${aiRan}, fallback: ${aiFallbackUsed}`);
-
     return new Response(
       JSON.stringify(response),
       { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        status: 202, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id } 
       }
     );
 
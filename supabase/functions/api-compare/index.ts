@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { compareAnalyses, loadComparedAnalysis, previousVersionAnalysisId } from '../_shared/analysis/compare.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get the authorization header for user verification
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    // analysisId: the revised version; baseAnalysisId: the version to compare it with
+    // (defaults to the latest analysis of the closest earlier version)
+    const url = new URL(req.url);
+    const analysisId = url.searchParams.get('analysisId');
+    if (!analysisId) {
+      return json({ error: 'analysisId parameter is required' }, 400);
+    }
+
+    const revised = await loadComparedAnalysis(supabase, user.id, analysisId);
+    if (!revised) {
+      return json({ error: 'Analysis not found or access denied' }, 404);
+    }
+
+    const baseAnalysisId = url.searchParams.get('baseAnalysisId') ||
+      await previousVersionAnalysisId(supabase, revised);
+    if (!baseAnalysisId) {
+      return json({ error: 'No earlier analyzed version to compare with' }, 404);
+    }
+
+    const base = await loadComparedAnalysis(supabase, user.id, baseAnalysisId);
+    if (!base) {
+      return json({ error: 'Analysis not found or access denied' }, 404);
+    }
+
+    console.log(`Comparing analysis ${base.analysis_id} (v${base.version}) with ${revised.analysis_id} (v${revised.version}) for user: ${user.id}`);
+    return json(compareAnalyses(base, revised));
+
+  } catch (error) {
+    console.error('Error in api-compare function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
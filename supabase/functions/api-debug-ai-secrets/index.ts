@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { describeProviders } from '../_shared/ai/index.ts';
 
 /**
  * Assert that user is authenticated, throw error if not
@@ -68,6 +69,7 @@ serve(async (req) => {
     const debugInfo = {
       hasApiKey,
       provider,
+      providers: describeProviders(),
       model,
       // Additional debug info
       environment: nodeEnv,
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { analysisAccess } from '../_shared/orgs/access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -61,7 +62,14 @@ serve(async (req) => {
 
     console.log('Exporting CSV for analysis:', analysisId, 'user:', user.id);
 
-    // Verify analysis belongs to user and fetch analysis data
+    // The user's own analysis, or one in an organization they belong to
+    if (!await analysisAccess(supabase, user.id, analysisId)) {
+      return new Response('Analysis not found or access denied', {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
     const { data: analysis, error: analysisError } = await supabase
       .from('analyses')
       .select(`
@@ -72,7 +80,6 @@ serve(async (req) => {
         contract:contracts(title)
       `)
       .eq('id', analysisId)
-      .eq('user_id', user.id)
       .maybeSingle();
 
     if (analysisError) {
@@ -93,9 +100,8 @@ serve(async (req) => {
     // Fetch flags for this analysis
     const { data: flags, error: flagsError } = await supabase
       .from('flags')
-      .select('severity, clause, rationale, suggestion')
+      .select('severity, section, clause, rationale, suggestion, span_start, span_end, span_match, verified, status, review_note')
       .eq('analysis_id', analysisId)
-      .eq('user_id', user.id)
       .order('severity', { ascending: false });
 
     if (flagsError) {
@@ -119,14 +125,21 @@ serve(async (req) => {
     };
 
     // Generate CSV content
-    const csvHeader = 'Severity,Clause,Rationale,Suggestion';
+    const csvHeader = 'Severity,Section,Clause,Rationale,Suggestion,Span Start,Span End,Match,Verified,Status,Review Note';
     const csvRows = flags?.map(flag => {
       const severity = escapeCsvField(flag.severity || '');
+      const section = escapeCsvField(flag.section || '');
       const clause = escapeCsvField(flag.clause || '');
       const rationale = escapeCsvField(flag.rationale || '');
       const suggestion = escapeCsvField(flag.suggestion || '');
+      const spanStart = flag.span_start ?? '';
+      const spanEnd = flag.span_end ?? '';
+      const match = escapeCsvField(flag.span_match || '');
+      const verified = flag.verified === false ? 'no' : 'yes';
+      const status = escapeCsvField(flag.status || 'open');
+      const reviewNote = escapeCsvField(flag.review_note || '');
       
-      return `${severity},${clause},${rationale},${suggestion}`;
+      return `${severity},${section},${clause},${rationale},${suggestion},${spanStart},${spanEnd},${match},${verified},${status},${reviewNote}`;
     }) || [];
 
     const csvContent = [csvHeader, ...csvRows].join('\n');
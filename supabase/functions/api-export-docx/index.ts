@@ -1,14 +1,357 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, UnderlineType } from 'https://esm.sh/docx@9.5.1';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  AlignmentType,
+  UnderlineType,
+  InsertedTextRun,
+  DeletedTextRun,
+  CommentRangeStart,
+  CommentRangeEnd,
+  CommentReference,
+  type ICommentOptions,
+  type ParagraphChild
+} from 'https://esm.sh/docx@9.5.1';
 import { diffWords } from 'https://esm.sh/diff@8.0.2';
+import {
+  compareAnalyses,
+  loadComparedAnalysis,
+  previousVersionAnalysisId,
+  type ComparedFlag,
+  type ContractComparison,
+  type DiffPart
+} from '../_shared/analysis/compare.ts';
+import { listComments, type AnalysisComment } from '../_shared/analysis/comments.ts';
+import {
+  loadRedlinedContract,
+  redlineParts,
+  type AcceptedRedline,
+  type RedlinedContract,
+  type RedlinedPart
+} from '../_shared/analysis/redlines.ts';
+import { addDocxComments, isDocxUpload, type DocxComment } from '../_shared/extract/docx-comments.ts';
+import { analysisAccess } from '../_shared/orgs/access.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface DocxOptions {
+  comments?: ICommentOptions[];
+  /** Open with Track Changes on, so edits made in Word are tracked too */
+  trackRevisions?: boolean;
+}
+
+/**
+ * A single-section DOCX of `children`, as a download
+ */
+async function docxResponse(
+  children: Paragraph[],
+  filename: string,
+  { comments = [], trackRevisions = false }: DocxOptions = {}
+): Promise<Response> {
+  const doc = new Document({
+    ...(comments.length > 0 ? { comments: { children: comments } } : {}),
+    ...(trackRevisions ? { features: { trackRevisions: true } } : {}),
+    sections: [{
+      properties: {},
+      children: children
+    }]
+  });
+
+  // Generate the DOCX buffer
+  return downloadResponse(await Packer.toBuffer(doc), filename);
+}
+
+function downloadResponse(buffer: BodyInit, filename: string): Response {
+  return new Response(buffer, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * `runs` with a comment thread anchored on them: one Word comment per comment of the
+ * thread, in order (Word comments written here can't be nested as replies)
+ */
+function commentedRuns(runs: ParagraphChild[], thread: AnalysisComment[], comments: ICommentOptions[]): ParagraphChild[] {
+  const ids = thread.map((comment) => {
+    const id = comments.length;
+    comments.push({
+      id,
+      author: comment.author || 'Reviewer',
+      initials: (comment.author || 'R').slice(0, 2).toUpperCase(),
+      date: new Date(comment.created_at),
+      children: comment.body.split('\n').map(line => new Paragraph({ text: line }))
+    });
+    return id;
+  });
+
+  return [
+    ...ids.map(id => new CommentRangeStart(id)),
+    ...runs,
+    ...ids.map(id => new CommentRangeEnd(id)),
+    ...ids.map(id => new TextRun({ children: [new CommentReference(id)] }))
+  ];
+}
+
+/**
+ * Comment threads (first comment, then its replies) in the order they were started
+ * Deleted comments are left out; replies carry the thread's anchor without them
+ */
+function commentThreads(comments: AnalysisComment[]): AnalysisComment[][] {
+  const threads = new Map<string, AnalysisComment[]>();
+  for (const comment of comments) {
+    if (comment.deleted_at) continue;
+    const root = comment.parent_id || comment.id;
+    threads.set(root, [...(threads.get(root) || []), comment]);
+  }
+  return [...threads.values()];
+}
+
+const DELETED_STYLE = { strike: true, color: "dc2626" };
+const INSERTED_STYLE = { underline: { type: UnderlineType.SINGLE, color: "16a34a" }, color: "16a34a" };
+
+/**
+ * Word diff as paragraphs (one per line of the contract), deletions struck through in red
+ * and insertions underlined in green
+ */
+function diffParagraphs(parts: DiffPart[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let runs: TextRun[] = [];
+  const endParagraph = () => {
+    if (runs.length > 0) paragraphs.push(new Paragraph({ children: runs, spacing: { after: 100 } }));
+    runs = [];
+  };
+
+  for (const part of parts) {
+    const style = part.removed ? DELETED_STYLE : part.added ? INSERTED_STYLE : {};
+    part.value.split('\n').forEach((line, i) => {
+      if (i > 0) endParagraph();
+      if (line) runs.push(new TextRun({ text: line, ...style }));
+    });
+  }
+  endParagraph();
+  return paragraphs;
+}
+
+// Word dates revisions and comments to the second
+const wordDate = (iso: string) => new Date(iso).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Redlined text as paragraphs (one per line), each change a Word revision attributed to
+ * whoever accepted its redline. `nextId` numbers the revisions across the document
+ */
+function revisionParagraphs(parts: RedlinedPart[], nextId: () => number): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let runs: ParagraphChild[] = [];
+  const endParagraph = () => {
+    paragraphs.push(new Paragraph({ children: runs, spacing: { after: 100 } }));
+    runs = [];
+  };
+
+  for (const part of parts) {
+    // A line break deleted or inserted by a redline stays a plain paragraph break
+    part.value.split('\n').forEach((line, i) => {
+      if (i > 0) endParagraph();
+      if (!line) return;
+      if (!part.redline || (!part.added && !part.removed)) {
+        runs.push(new TextRun({ text: line }));
+        return;
+      }
+      const revision = {
+        text: line,
+        id: nextId(),
+        author: part.redline.accepted_by_email || 'ClauseWise',
+        date: wordDate(part.redline.accepted_at)
+      };
+      runs.push(part.added ? new InsertedTextRun(revision) : new DeletedTextRun(revision));
+    });
+  }
+  endParagraph();
+  return paragraphs;
+}
+
+/**
+ * The contract with its accepted redlines as tracked changes. Redlines that couldn't be
+ * placed in the text follow it, each as a revision of the clause the analysis quoted
+ */
+function trackedChangesDocument(contract: RedlinedContract): Paragraph[] {
+  let revisionId = 0;
+  const nextId = () => revisionId++;
+  const children = revisionParagraphs(contract.parts, nextId);
+
+  if (contract.unplaced.length > 0) {
+    children.push(new Paragraph({
+      text: "Redlines Not Placed in the Text",
+      heading: HeadingLevel.HEADING_1,
+      spacing: { before: 400, after: 200 }
+    }));
+    children.push(new Paragraph({
+      children: [new TextRun({
+        text: "These clauses could not be located in the contract text, or overlap another redlined clause. Apply them by hand.",
+        italics: true
+      })],
+      spacing: { after: 200 }
+    }));
+    contract.unplaced.forEach((redline: AcceptedRedline) => {
+      children.push(...revisionParagraphs(redlineParts(redline.clause || '', redline), nextId));
+    });
+  }
+
+  return children;
+}
+
+interface AnnotatedFlag {
+  severity: string;
+  section: string | null;
+  clause: string | null;
+  rationale: string | null;
+  suggestion: string | null;
+  span_start: number | null;
+  span_end: number | null;
+}
+
+/** A flag as a Word comment on its clause: severity and section, why it matters, what to ask for */
+function flagComment(flag: AnnotatedFlag, date: string): DocxComment {
+  return {
+    span: typeof flag.span_start === 'number' && typeof flag.span_end === 'number'
+      ? { start: flag.span_start, end: flag.span_end }
+      : null,
+    quote: flag.clause || '',
+    author: 'ClauseWise',
+    initials: 'CW',
+    date,
+    paragraphs: [
+      [
+        { text: `${flag.severity.toUpperCase()} RISK`, bold: true },
+        ...(flag.section ? [{ text: ` (${flag.section})` }] : [])
+      ],
+      ...(flag.rationale ? [[{ text: 'Why this matters: ', bold: true }, { text: flag.rationale }]] : []),
+      ...(flag.suggestion ? [[{ text: 'Suggested approach: ', bold: true }, { text: flag.suggestion }]] : [])
+    ]
+  };
+}
+
+function flagLine(flag: ComparedFlag, prefix = ''): Paragraph {
+  return new Paragraph({
+    children: [
+      new TextRun({ text: `${prefix}[${flag.severity.toUpperCase()}] `, bold: true }),
+      new TextRun({ text: flag.clause }),
+      ...(flag.section ? [new TextRun({ text: ` (${flag.section})`, italics: true })] : [])
+    ],
+    bullet: { level: 0 },
+    spacing: { after: 100 }
+  });
+}
+
+/**
+ * Comparison report: risk delta, flags added/resolved/changed, then the changed sections
+ */
+function comparisonDocument(comparison: ContractComparison): Paragraph[] {
+  const { base, revised, risk, flags, sections, section_stats } = comparison;
+  const children: Paragraph[] = [];
+  const versionLine = (v: typeof base) =>
+    `Version ${v.version}, analyzed ${new Date(v.analyzed_at).toLocaleDateString()}`;
+  const riskChange = { up: 'increased', down: 'decreased', same: 'unchanged' }[risk.direction];
+  const count = (n: number, what: string) => `${n} ${what}${n === 1 ? '' : 's'}`;
+
+  children.push(new Paragraph({
+    text: "ClauseWise Version Comparison",
+    heading: HeadingLevel.TITLE,
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 400 }
+  }));
+
+  children.push(new Paragraph({
+    children: [
+      new TextRun({ text: `Contract: ${revised.title || base.title || 'Untitled Contract'}`, bold: true }),
+      new TextRun({ text: `From: ${versionLine(base)}`, break: 1 }),
+      new TextRun({ text: `To: ${versionLine(revised)}`, break: 1 }),
+      new TextRun({
+        text: `Overall Risk: ${risk.base.toUpperCase()} → ${risk.revised.toUpperCase()} (${riskChange})`,
+        bold: true,
+        break: 1
+      })
+    ],
+    spacing: { after: 200 }
+  }));
+
+  children.push(new Paragraph({
+    text: (['high', 'medium', 'low'] as const)
+      .map(s => `${s[0].toUpperCase()}${s.slice(1)}: ${risk.base_counts[s]} → ${risk.revised_counts[s]}`)
+      .join('   '),
+    spacing: { after: 400 }
+  }));
+
+  // Flag changes
+  children.push(new Paragraph({
+    text: "Issue Changes",
+    heading: HeadingLevel.HEADING_1,
+    spacing: { before: 400, after: 200 }
+  }));
+
+  const flagGroups: Array<[string, Paragraph[]]> = [
+    ['New issues', flags.added.map(f => flagLine(f))],
+    ['Resolved issues', flags.removed.map(f => flagLine(f))],
+    ['Severity changes', flags.changed.map(({ base: b, revised: r }) => flagLine(r, `${b.severity.toUpperCase()} → `))]
+  ];
+  for (const [title, lines] of flagGroups) {
+    children.push(new Paragraph({
+      text: `${title} (${lines.length})`,
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 200, after: 100 }
+    }));
+    children.push(...(lines.length > 0 ? lines : [new Paragraph({ text: 'None', spacing: { after: 100 } })]));
+  }
+  children.push(new Paragraph({
+    children: [new TextRun({ text: `${count(flags.unchanged, 'issue')} unchanged`, italics: true })],
+    spacing: { before: 100, after: 300 }
+  }));
+
+  // Section diff
+  children.push(new Paragraph({
+    text: "Changes by Section",
+    heading: HeadingLevel.HEADING_1,
+    spacing: { before: 400, after: 200 }
+  }));
+  children.push(new Paragraph({
+    children: [new TextRun({
+      text: `${count(section_stats.changed, 'section')} changed, ${section_stats.added} added, ` +
+        `${section_stats.removed} removed, ${section_stats.unchanged} unchanged`,
+      italics: true
+    })],
+    spacing: { after: 200 }
+  }));
+
+  for (const section of sections) {
+    if (section.status === 'unchanged') continue;
+    const label = section.revised_label || section.base_label || 'Preamble';
+    const renamed = section.base_label && section.revised_label && section.base_label !== section.revised_label
+      ? ` (was ${section.base_label})`
+      : '';
+    const status = section.status === 'changed' ? renamed : ` (${section.status})`;
+    children.push(new Paragraph({
+      text: `${label}${status}`,
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 300, after: 100 }
+    }));
+    children.push(...diffParagraphs(section.parts));
+  }
+
+  return children;
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -61,9 +404,138 @@ serve(async (req) => {
       });
     }
 
+    // compare=true: comparison with baseAnalysisId, or with the closest earlier version
+    if (url.searchParams.get('compare') === 'true') {
+      const revised = await loadComparedAnalysis(supabase, user.id, analysisId);
+      const baseAnalysisId = url.searchParams.get('baseAnalysisId') ||
+        (revised ? await previousVersionAnalysisId(supabase, revised) : null);
+      const base = baseAnalysisId ? await loadComparedAnalysis(supabase, user.id, baseAnalysisId) : null;
+      if (!revised || !base) {
+        return new Response('Analyses to compare not found or access denied', {
+          status: 404,
+          headers: corsHeaders,
+        });
+      }
+
+      console.log('Exporting comparison DOCX for analyses:', base.analysis_id, analysisId, 'user:', user.id);
+      const comparison = compareAnalyses(base, revised);
+      const children = [
+        ...comparisonDocument(comparison),
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Generated by ClauseWise - AI Contract Analysis", italics: true }),
+            new TextRun({ text: "This is not legal advice.", italics: true, size: 20, break: 1 })
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 600 }
+        })
+      ];
+      const title_safe = (revised.title || 'Untitled Contract').replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 50);
+      return docxResponse(
+        children,
+        `clausewise-comparison-${title_safe}-v${base.version}-v${revised.version}.docx`
+      );
+    }
+
+    // The user's own analysis, or one in an organization they belong to
+    if (!await analysisAccess(supabase, user.id, analysisId)) {
+      return new Response('Analysis not found or access denied', {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
+    // tracked=true: the contract itself, with the accepted redlines as tracked changes
+    if (url.searchParams.get('tracked') === 'true') {
+      const contract = await loadRedlinedContract(supabase, analysisId);
+      if (!contract) {
+        return new Response('Contract text not available', {
+          status: 404,
+          headers: corsHeaders,
+        });
+      }
+      if (contract.placed.length === 0 && contract.unplaced.length === 0) {
+        return new Response('No accepted redlines to export', {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+
+      console.log('Exporting tracked changes DOCX for analysis:', analysisId, 'user:', user.id,
+        'redlines:', contract.placed.length, 'unplaced:', contract.unplaced.length);
+      const title_safe = (contract.title || 'Untitled Contract').replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 50);
+      return docxResponse(
+        trackedChangesDocument(contract),
+        `${title_safe}-v${contract.version}-redlined.docx`,
+        { trackRevisions: true }
+      );
+    }
+
+    // annotated=true: the uploaded DOCX itself, with a Word comment on each flagged clause
+    if (url.searchParams.get('annotated') === 'true') {
+      const { data: analysis } = await supabase
+        .from('analyses')
+        .select('created_at, contract:contracts(storage_path, mime_type, source_text)')
+        .eq('id', analysisId)
+        .maybeSingle();
+      const contract = analysis?.contract as unknown as
+        { storage_path: string | null; mime_type: string | null; source_text: string | null } | null;
+      if (!analysis || !contract?.storage_path || !contract.source_text) {
+        return new Response('Original upload not available', {
+          status: 404,
+          headers: corsHeaders,
+        });
+      }
+      if (!isDocxUpload(contract.storage_path, contract.mime_type)) {
+        return new Response('The original upload is not a Word document', {
+          status: 400,
+          headers: corsHeaders,
+        });
+      }
+
+      const { data: upload, error: downloadError } = await supabase.storage
+        .from('contracts')
+        .download(contract.storage_path);
+      if (downloadError || !upload) {
+        console.error('Storage download error:', downloadError);
+        return new Response('Original upload not available', {
+          status: 404,
+          headers: corsHeaders,
+        });
+      }
+
+      const { data: flags, error: flagsError } = await supabase
+        .from('flags')
+        .select('severity, section, clause, rationale, suggestion, span_start, span_end')
+        .eq('analysis_id', analysisId)
+        .order('span_start', { ascending: true });
+      if (flagsError) {
+        console.error('Flags fetch error:', flagsError);
+        return new Response('Error fetching flags', {
+          status: 500,
+          headers: corsHeaders,
+        });
+      }
+
+      const date = wordDate(analysis.created_at);
+      const annotated = await addDocxComments(
+        new Uint8Array(await upload.arrayBuffer()),
+        contract.source_text,
+        (flags || []).map(flag => flagComment(flag, date))
+      );
+
+      console.log('Exporting annotated DOCX for analysis:', analysisId, 'user:', user.id,
+        'comments:', flags?.length ?? 0, 'unplaced:', annotated.unplaced);
+      // Stored as <user id>/<timestamp>-<original name>
+      const originalName = contract.storage_path.split('/').pop()!.replace(/^\d+-/, '').replace(/\.docx$/i, '');
+      return downloadResponse(
+        annotated.bytes,
+        `${originalName.replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 50)}-annotated.docx`
+      );
+    }
+
     console.log('Exporting DOCX for analysis:', analysisId, 'user:', user.id);
 
-    // Verify analysis belongs to user and fetch analysis data
     const { data: analysis, error: analysisError } = await supabase
       .from('analyses')
       .select(`
@@ -74,7 +546,6 @@ serve(async (req) => {
         contract:contracts(title)
       `)
       .eq('id', analysisId)
-      .eq('user_id', user.id)
       .maybeSingle();
 
     if (analysisError) {
@@ -95,9 +566,8 @@ serve(async (req) => {
     // Fetch flags for this analysis
     const { data: flags, error: flagsError } = await supabase
       .from('flags')
-      .select('severity, clause, rationale, suggestion')
+      .select('id, severity, section, clause, rationale, suggestion, redline')
       .eq('analysis_id', analysisId)
-      .eq('user_id', user.id)
       .order('severity', { ascending: false });
 
     if (flagsError) {
@@ -108,38 +578,9 @@ serve(async (req) => {
       });
     }
 
-    // Helper function to generate redlines (server-only, no AI for speed)
-    const generateRedline = (clause: string, suggestion: string) => {
-      // Simple fallback redline: append suggestion
-      const rewrite = clause + " " + "(" + suggestion + ")";
-      const diff = diffWords(clause, rewrite);
-      
-      const textRuns: any[] = [];
-      for (const part of diff) {
-        if (part.removed) {
-          textRuns.push(new TextRun({
-            text: part.value,
-            strike: true,
-            color: "dc2626"
-          }));
-        } else if (part.added) {
-          textRuns.push(new TextRun({
-            text: part.value,
-            underline: {
-              type: UnderlineType.SINGLE,
-              color: "16a34a"
-            },
-            color: "16a34a"
-          }));
-        } else {
-          textRuns.push(new TextRun({
-            text: part.value
-          }));
-        }
-      }
-      
-      return textRuns;
-    };
+    // Discussion threads become Word comments on the clause they are about
+    const threads = commentThreads(await listComments(supabase, analysisId));
+    const wordComments: ICommentOptions[] = [];
 
     // Build DOCX content
     const children: any[] = [];
@@ -191,15 +632,29 @@ serve(async (req) => {
       }));
 
       flags.forEach((flag, index) => {
-        // Severity and clause
+        // Severity and clause, with the flag's discussion
+        const clauseRuns = threads
+          .filter(thread => thread[0].flag_id === flag.id)
+          .reduce<ParagraphChild[]>(
+            (runs, thread) => commentedRuns(runs, thread, wordComments),
+            [new TextRun({ text: flag.clause || '', font: "Courier New" })]
+          );
         children.push(new Paragraph({
           children: [
             new TextRun({ text: `${index + 1}. [${flag.severity?.toUpperCase() || 'UNKNOWN'}] `, bold: true }),
-            new TextRun({ text: flag.clause || '', font: "Courier New" })
+            ...clauseRuns
           ],
           spacing: { before: 200, after: 100 }
         }));
 
+        // Where the clause sits in the contract
+        if (flag.section) {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: flag.section, italics: true })],
+            spacing: { after: 100 }
+          }));
+        }
+
         // Rationale
         if (flag.rationale) {
           children.push(new Paragraph({
@@ -223,26 +678,28 @@ serve(async (req) => {
         }
       });
 
-      // Proposed Redlines Section
+      // Proposed Redlines Section: the redlines accepted during review
       children.push(new Paragraph({
         text: "Proposed Redlines",
         heading: HeadingLevel.HEADING_1,
         spacing: { before: 400, after: 200 }
       }));
 
+      const redlined = flags.filter(flag => flag.redline);
+      if (redlined.length === 0) {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: "No redlines have been accepted for this contract yet.", italics: true })],
+          spacing: { after: 300 }
+        }));
+      }
       flags.forEach((flag, index) => {
-        if (flag.clause && flag.suggestion) {
+        if (flag.redline) {
           children.push(new Paragraph({
             text: `${index + 1}. Clause Redline:`,
             heading: HeadingLevel.HEADING_2,
             spacing: { before: 200, after: 100 }
           }));
-
-          const redlineRuns = generateRedline(flag.clause, flag.suggestion);
-          children.push(new Paragraph({
-            children: redlineRuns,
-            spacing: { after: 300 }
-          }));
+          children.push(...diffParagraphs(diffWords(flag.clause || '', flag.redline)));
         }
       });
     } else {
@@ -258,6 +715,23 @@ serve(async (req) => {
       }));
     }
 
+    // Passages of the contract discussed outside of any flag
+    const passageThreads = threads.filter(thread => !thread[0].flag_id && thread[0].quote);
+    if (passageThreads.length > 0) {
+      children.push(new Paragraph({
+        text: "Discussed Passages",
+        heading: HeadingLevel.HEADING_1,
+        spacing: { before: 400, after: 200 }
+      }));
+
+      passageThreads.forEach((thread) => {
+        children.push(new Paragraph({
+          children: commentedRuns([new TextRun({ text: thread[0].quote!, font: "Courier New" })], thread, wordComments),
+          spacing: { after: 200 }
+        }));
+      });
+    }
+
     // Footer
     children.push(new Paragraph({
       children: [
@@ -270,31 +744,13 @@ serve(async (req) => {
       spacing: { before: 600 }
     }));
 
-    // Create DOCX document
-    const doc = new Document({
-      sections: [{
-        properties: {},
-        children: children
-      }]
-    });
-
-    // Generate the DOCX buffer
-    const buffer = await Packer.toBuffer(doc);
-
     // Determine filename
     const contractTitle_safe = contractTitle.replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 50);
     const filename = `clausewise-report-${contractTitle_safe}-${analysisId.substring(0, 8)}.docx`;
 
     console.log('DOCX export completed successfully for user:', user.id, 'filename:', filename);
 
-    return new Response(buffer, {
-      headers: {
-        ...corsHeaders,
-        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-cache',
-      },
-    });
+    return docxResponse(children, filename, { comments: wordComments });
 
   } catch (error) {
     console.error('Error in api-export-docx function:', error);
@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { analysisAccess } from '../_shared/orgs/access.ts';
+import { renderReportPdf, type PdfReportFlag } from '../_shared/export/report-pdf.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get the authorization header for user verification
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response('Authorization required', {
+        status: 401,
+        headers: corsHeaders,
+      });
+    }
+
+    // Verify the user token using anon key client
+    const supabaseAnon = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAnon.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return new Response('Invalid authentication', {
+        status: 401,
+        headers: corsHeaders,
+      });
+    }
+
+    // Get analysisId from query parameters
+    const url = new URL(req.url);
+    const analysisId = url.searchParams.get('analysisId');
+
+    if (!analysisId) {
+      return new Response('analysisId parameter is required', {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    console.log('Exporting PDF for analysis:', analysisId, 'user:', user.id);
+
+    // The user's own analysis, or one in an organization they belong to
+    if (!await analysisAccess(supabase, user.id, analysisId)) {
+      return new Response('Analysis not found or access denied', {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
+    const { data: analysis, error: analysisError } = await supabase
+      .from('analyses')
+      .select(`
+        id,
+        created_at,
+        overall_risk,
+        summary,
+        contract:contracts(title)
+      `)
+      .eq('id', analysisId)
+      .maybeSingle();
+
+    if (analysisError) {
+      console.error('Analysis fetch error:', analysisError);
+      return new Response('Error fetching analysis', {
+        status: 500,
+        headers: corsHeaders,
+      });
+    }
+
+    if (!analysis) {
+      return new Response('Analysis not found or access denied', {
+        status: 404,
+        headers: corsHeaders,
+      });
+    }
+
+    // Same flags, in the same order, as the DOCX report
+    const { data: flags, error: flagsError } = await supabase
+      .from('flags')
+      .select('severity, section, clause, rationale, suggestion, redline')
+      .eq('analysis_id', analysisId)
+      .order('severity', { ascending: false });
+
+    if (flagsError) {
+      console.error('Flags fetch error:', flagsError);
+      return new Response('Error fetching flags', {
+        status: 500,
+        headers: corsHeaders,
+      });
+    }
+
+    const contractTitle = analysis.contract?.title || 'Untitled Contract';
+    const pdf = await renderReportPdf({
+      title: contractTitle,
+      analyzed_at: analysis.created_at,
+      overall_risk: analysis.overall_risk,
+      summary: analysis.summary,
+      flags: (flags || []) as PdfReportFlag[]
+    });
+
+    // Determine filename
+    const contractTitle_safe = contractTitle.replace(/[^a-zA-Z0-9-_]/g, '_').substring(0, 50);
+    const filename = `clausewise-report-${contractTitle_safe}-${analysisId.substring(0, 8)}.pdf`;
+
+    console.log('PDF export completed successfully for user:', user.id, 'filename:', filename);
+
+    return new Response(pdf, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in api-export-pdf function:', error);
+    return new Response('Internal server error', {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+});
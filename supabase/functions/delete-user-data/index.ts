@@ -1,11 +1,31 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Objects listed and removed per storage call
+const STORAGE_BATCH = 100;
+
+/**
+ * Every object in the user's folder of the contracts bucket, including uploads that
+ * never made it onto a contract or job (e.g. an extraction the user didn't analyze)
+ */
+async function listUserFiles(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_BATCH) {
+    const { data, error } = await supabase.storage
+      .from('contracts')
+      .list(userId, { limit: STORAGE_BATCH, offset, sortBy: { column: 'name', order: 'asc' } });
+    if (error) throw new Error(`Failed to list stored files: ${error.message}`);
+    // Folder placeholders have no id
+    paths.push(...(data || []).filter(o => o.id).map(o => `${userId}/${o.name}`));
+    if (!data || data.length < STORAGE_BATCH) return paths;
+  }
+}
+
 serve(async (req) => {
   console.log(`${req.method} ${req.url}`);
 
@@ -50,30 +70,96 @@ serve(async (req) => {
 
     console.log(`Deleting all data for user: ${user.id}`);
 
-    // First, collect all storage_path values for this user
+    // Only the personal workspace is deleted: contracts the user added to an organization
+    // belong to the team and stay, with their analyses, comments and uploaded files
     const { data: contracts, error: fetchError } = await supabase
       .from('contracts')
-      .select('storage_path')
-      .eq('user_id', user.id)
-      .not('storage_path', 'is', null);
+      .select('id, storage_path, organization_id')
+      .eq('user_id', user.id);
 
     if (fetchError) {
-      console.error('Error fetching storage paths:', fetchError);
+      console.error('Error fetching contracts:', fetchError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch contracts' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const personal = (contracts || []).filter(c => c.organization_id === null);
+    const contractIds = personal.map(c => c.id as string);
+    const teamFiles = new Set((contracts || []).filter(c => c.organization_id !== null && c.storage_path).map(c => c.storage_path as string));
+
+    const { data: analyses, error: analysesFetchError } = contractIds.length > 0
+      ? await supabase.from('analyses').select('id').in('contract_id', contractIds)
+      : { data: [], error: null };
+
+    if (analysesFetchError) {
+      console.error('Error fetching analyses:', analysesFetchError);
       return new Response(
-        JSON.stringify({ error: 'Failed to fetch storage paths' }),
+        JSON.stringify({ error: 'Failed to fetch analyses' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const analysisIds = (analyses || []).map(a => a.id as string);
 
-    const storagePaths = contracts?.map(c => c.storage_path).filter(Boolean) || [];
+    // Then collect the stored files: paths recorded on contracts and jobs, plus
+    // whatever is in the user's storage folder
+    const { data: jobs } = await supabase
+      .from('analysis_jobs')
+      .select('storage_path')
+      .eq('user_id', user.id)
+      .not('storage_path', 'is', null);
+
+    let listed: string[] = [];
+    try {
+      listed = await listUserFiles(supabase, user.id);
+    } catch (listError) {
+      // Recorded paths are still removed below; a retry lists the folder again
+      console.error('Error listing stored files:', listError);
+    }
+
+    // Only ever remove objects in the user's own folder, and never a team contract's file
+    const storagePaths = [...new Set([
+      ...personal.map(c => c.storage_path as string),
+      ...(jobs || []).map(j => j.storage_path as string),
+      ...listed
+    ])].filter(path => path && path.startsWith(`${user.id}/`) && !teamFiles.has(path));
     console.log(`Found ${storagePaths.length} files to delete from storage`);
 
     // Delete user data in correct order (due to foreign key constraints)
+    // 0. Delete analysis jobs (reference contracts and analyses)
+    const { error: jobsError } = await supabase
+      .from('analysis_jobs')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (jobsError) {
+      console.error('Error deleting analysis jobs:', jobsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete analysis jobs' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Comments on the user's own analyses (team discussions stay with the team)
+    const { error: commentsError } = await supabase
+      .from('comments')
+      .delete()
+      .in('analysis_id', analysisIds);
+
+    if (commentsError) {
+      console.error('Error deleting comments:', commentsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete comments' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // 1. Delete flags first (references analyses)
     const { error: flagsError } = await supabase
       .from('flags')
       .delete()
-      .eq('user_id', user.id);
+      .in('analysis_id', analysisIds);
 
     if (flagsError) {
       console.error('Error deleting flags:', flagsError);
@@ -87,7 +173,7 @@ serve(async (req) => {
     const { error: analysesError } = await supabase
       .from('analyses')
       .delete()
-      .eq('user_id', user.id);
+      .in('id', analysisIds);
 
     if (analysesError) {
       console.error('Error deleting analyses:', analysesError);
@@ -101,7 +187,7 @@ serve(async (req) => {
     const { error: contractsError } = await supabase
       .from('contracts')
       .delete()
-      .eq('user_id', user.id);
+      .in('id', contractIds);
 
     if (contractsError) {
       console.error('Error deleting contracts:', contractsError);
@@ -111,25 +197,35 @@ serve(async (req) => {
       );
     }
 
-    // 4. Delete storage objects
-    const storageErrors = [];
-    for (const storagePath of storagePaths) {
+    // 4. Delete storage objects (in batches; objects already gone don't count as errors)
+    const storageErrors: string[] = [];
+    for (let i = 0; i < storagePaths.length; i += STORAGE_BATCH) {
+      const batch = storagePaths.slice(i, i + STORAGE_BATCH);
       const { error: storageError } = await supabase.storage
         .from('contracts')
-        .remove([storagePath]);
-      
+        .remove(batch);
+
       if (storageError) {
-        console.error(`Error deleting storage object ${storagePath}:`, storageError);
-        storageErrors.push(`${storagePath}: ${storageError.message}`);
-      } else {
-        console.log(`Successfully deleted storage object: ${storagePath}`);
+        console.error(`Error deleting ${batch.length} storage objects:`, storageError);
+        storageErrors.push(storageError.message);
       }
     }
 
-    if (storageErrors.length > 0) {
-      console.warn(`Some storage files could not be deleted: ${storageErrors.join(', ')}`);
-      // Don't fail the entire operation for storage cleanup issues
+    // Anything still in the folder, other than team contract files, was not deleted
+    const remaining = await listUserFiles(supabase, user.id)
+      .then(paths => paths.filter(path => !teamFiles.has(path)))
+      .catch(() => null);
+    if (storageErrors.length > 0 || remaining === null || remaining.length > 0) {
+      console.error(`Storage cleanup incomplete for user ${user.id}: ${remaining?.length ?? 'unknown'} files remain`, storageErrors);
+      return new Response(
+        JSON.stringify({
+          error: 'Some stored files could not be deleted',
+          message: 'Your contracts and analyses were deleted, but some uploaded files remain. Please try again.'
+        }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
+    console.log(`Deleted ${storagePaths.length} storage objects`);
 
     console.log(`Successfully deleted all data for user: ${user.id}`);
 
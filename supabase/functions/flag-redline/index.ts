@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { acceptRedline } from '../_shared/analysis/review.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RedlineRequest {
+  flag_id?: string;
+  /** Rewrite of the flagged clause to accept; null or '' withdraws the accepted one */
+  redline?: string | null;
+}
+
+// Failures the client can act on, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  NOT_ALLOWED: 403,
+  FLAG_MISSING: 404,
+  REDLINE_TOO_LONG: 400,
+};
+
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id },
+    });
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      console.error('Auth error:', authError)
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    const { flag_id, redline }: RedlineRequest = await req.json();
+    if (!flag_id || redline === undefined) {
+      return json({ error: 'flag_id and redline are required' }, 400);
+    }
+    if (redline !== null && typeof redline !== 'string') {
+      return json({ error: 'redline must be a string' }, 400);
+    }
+
+    const flag = await acceptRedline(supabase, user.id, flag_id, redline);
+
+    logEvent(flag.redline ? 'redline_accepted' : 'redline_withdrawn', {
+      req_id,
+      user_id: user.id,
+      analysis_id: flag.analysis_id
+    });
+
+    return json({ flag });
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error saving redline:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
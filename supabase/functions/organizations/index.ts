@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isOrgRole } from '../_shared/orgs/access.ts';
+import {
+  acceptInvite,
+  createOrganization,
+  deleteInvite,
+  inviteMember,
+  listOrganizations,
+  removeMember,
+  setMemberRole
+} from '../_shared/orgs/members.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type OrganizationRequest =
+  | { action: 'create'; name: string }
+  | { action: 'invite'; organization_id: string; email: string; role: string }
+  | { action: 'accept_invite' | 'delete_invite'; invite_id: string }
+  | { action: 'set_role'; organization_id: string; user_id: string; role: string }
+  | { action: 'remove_member'; organization_id: string; user_id: string };
+
+// Failures the client can act on, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  INVALID: 400,
+  LAST_OWNER: 400,
+  NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+  ALREADY_MEMBER: 409,
+};
+
+/**
+ * GET -> { organizations, invites }: the user's organizations (members, and pending
+ * invites for owners) and invites waiting for the user
+ * POST { action, ... } -> { organizations, invites } after the change
+ */
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id },
+    });
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      console.error('Auth error:', authError)
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    if (req.method === 'POST') {
+      const request: OrganizationRequest = await req.json();
+      switch (request.action) {
+        case 'create':
+          await createOrganization(supabase, user.id, request.name);
+          break;
+        case 'invite':
+          if (!isOrgRole(request.role)) return json({ error: 'Invalid role' }, 400);
+          await inviteMember(supabase, user.id, request.organization_id, request.email, request.role);
+          break;
+        case 'accept_invite':
+          await acceptInvite(supabase, user, request.invite_id);
+          break;
+        case 'delete_invite':
+          await deleteInvite(supabase, user, request.invite_id);
+          break;
+        case 'set_role':
+          if (!isOrgRole(request.role)) return json({ error: 'Invalid role' }, 400);
+          await setMemberRole(supabase, user.id, request.organization_id, request.user_id, request.role);
+          break;
+        case 'remove_member':
+          await removeMember(supabase, user.id, request.organization_id, request.user_id);
+          break;
+        default:
+          return json({ error: 'Unknown action' }, 400);
+      }
+      logEvent('organization_changed', { req_id, user_id: user.id, org_action: request.action });
+    }
+
+    return json(await listOrganizations(supabase, user));
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error in organizations function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
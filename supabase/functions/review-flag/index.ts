@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isFlagStatus, reviewFlag, type FlagStatus } from '../_shared/analysis/review.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReviewRequest {
+  flag_id?: string;
+  status?: FlagStatus;
+  /** Reviewer note; leave out to keep the current one, null or '' to clear it */
+  note?: string | null;
+}
+
+// Review failures the client can act on, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  NOT_ALLOWED: 403,
+  FLAG_MISSING: 404,
+  NOTE_TOO_LONG: 400,
+};
+
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id },
+    });
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      console.error('Auth error:', authError)
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    const { flag_id, status, note }: ReviewRequest = await req.json();
+    if (!flag_id || !isFlagStatus(status)) {
+      return json({ error: 'flag_id and a valid status are required' }, 400);
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return json({ error: 'note must be a string' }, 400);
+    }
+
+    const result = await reviewFlag(supabase, user.id, flag_id, { status, note });
+
+    // Dismissals per rule feed the rule tuning statistics (rule_review_stats)
+    logEvent('flag_reviewed', {
+      req_id,
+      user_id: user.id,
+      analysis_id: result.flag.analysis_id,
+      rule_id: result.flag.rule_id,
+      flag_status: result.flag.status
+    });
+
+    return json(result);
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error reviewing flag:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createShareLink, listShareLinks, revokeShareLink } from '../_shared/analysis/share.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type ShareLinkRequest =
+  | {
+      action: 'create';
+      analysis_id: string;
+      expires_in_days?: number;
+      hide_suggestions?: boolean;
+      hide_source_text?: boolean;
+    }
+  | { action: 'revoke'; link_id: string };
+
+// Failures the client can act on, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  INVALID: 400,
+  NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+};
+
+/**
+ * GET ?analysisId -> { links }: the analysis' share links with their access logs
+ * POST { action: 'create', analysis_id, expires_in_days?, hide_suggestions?, hide_source_text? } -> { link }
+ * POST { action: 'revoke', link_id } -> { link }
+ */
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-req-id': req_id },
+    });
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return json({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      console.error('Auth error:', authError)
+      return json({ error: 'Invalid authentication' }, 401);
+    }
+
+    if (req.method === 'GET') {
+      const analysisId = new URL(req.url).searchParams.get('analysisId');
+      if (!analysisId) {
+        return json({ error: 'analysisId parameter is required' }, 400);
+      }
+      return json({ links: await listShareLinks(supabase, user.id, analysisId) });
+    }
+
+    const request: ShareLinkRequest = await req.json();
+    switch (request.action) {
+      case 'create': {
+        if (!request.analysis_id) return json({ error: 'analysis_id is required' }, 400);
+        const link = await createShareLink(supabase, user.id, request.analysis_id, request);
+        logEvent('share_link_created', { req_id, user_id: user.id, analysis_id: link.analysis_id, share_link_id: link.id });
+        return json({ link }, 201);
+      }
+      case 'revoke': {
+        if (!request.link_id) return json({ error: 'link_id is required' }, 400);
+        const link = await revokeShareLink(supabase, user.id, request.link_id);
+        logEvent('share_link_revoked', { req_id, user_id: user.id, analysis_id: link.analysis_id, share_link_id: link.id });
+        return json({ link });
+      }
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error in share-links function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
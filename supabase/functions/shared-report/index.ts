@@ -0,0 +1,67 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { openSharedReport } from '../_shared/analysis/share.ts';
+import { newReqId, logEvent } from '../_shared/obs/logger.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Failures the recipient is told about, by error code
+const CLIENT_ERRORS: Record<string, number> = {
+  NOT_FOUND: 404,
+  GONE: 410,
+};
+
+/**
+ * GET ?token -> the shared report (public: the signed token is the only credential)
+ */
+serve(async (req) => {
+  const req_id = newReqId();
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: { ...corsHeaders, 'x-req-id': req_id } });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        // Revoking a link has to take effect at once
+        'Cache-Control': 'no-store',
+        'x-req-id': req_id
+      },
+    });
+
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return json({ error: 'token parameter is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { link, report } = await openSharedReport(supabase, token, req.headers.get('user-agent'));
+    logEvent('share_link_opened', { req_id, analysis_id: link.analysis_id, share_link_id: link.id });
+
+    return json(report);
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code && CLIENT_ERRORS[code]) {
+      return json({ error: (error as Error).message }, CLIENT_ERRORS[code]);
+    }
+    console.error('Error opening shared report:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
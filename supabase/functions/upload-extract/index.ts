@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { extractText, isPlaceholderText, isSupportedFile } from '../_shared/extract/index.ts';
 import { newReqId, logEvent } from '../_shared/obs/logger.ts';
 
 const corsHeaders = {
@@ -8,6 +9,14 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+/**
+ * Hex SHA-256 of the uploaded bytes, stored with the contract to recognise the same file
+ */
+async function fileSha256(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
 serve(async (req) => {
   const req_id = newReqId();
   const startTime = Date.now();
@@ -88,6 +97,11 @@ serve(async (req) => {
     const file = formData.get('file') as File;
     const analyzeNow = formData.get('analyzeNow') === 'true';
     const useAI = formData.get('useAI') !== 'false'; // Default to true unless explicitly false
+    const aiProvider = (formData.get('aiProvider') as string | null) || undefined;
+    // Contract this file is a new version of (checked by analyze-contract)
+    const versionOf = (formData.get('version_of') as string | null) || undefined;
+    // Organization whose workspace the contract goes to (checked by analyze-contract)
+    const organizationId = (formData.get('organization_id') as string | null) || undefined;
     
     if (!file) {
       return new Response(
@@ -97,14 +111,10 @@ serve(async (req) => {
     }
 
     // Validate file type
-    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-    const allowedExtensions = ['.pdf', '.docx', '.txt'];
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
+    if (!isSupportedFile(file.name, file.type)) {
       return new Response(
         JSON.stringify({ 
-          error: 'Only PDF, DOCX, or TXT files are supported',
+          error: 'Only PDF, DOCX, ODT, RTF, HTML, Markdown, TXT, EML, or scanned PNG/JPEG/TIFF files are supported',
           user_friendly: true 
         }),
         { 
@@ -139,162 +149,14 @@ serve(async (req) => {
 
     console.log(`File details: ${file.name}, ${file.type}, ${file.size} bytes`);
 
-    let extractedText = '';
-    let notes: string[] = [];
-    const extractStartTime = Date.now();
-
-    // Extract text based on file type
-    if (file.type === 'text/plain' || fileExtension === '.txt') {
-      // Simple text file - read directly
-      extractedText = await file.text();
-      
-      // Check if text is empty or very short (might be corrupted file)
-      if (!extractedText.trim()) {
-        notes.push("No text content found in the file");
-      } else if (extractedText.trim().length < 50) {
-        notes.push("File contains very little text - please verify this is the correct file");
-      }
-    } else if (file.type === 'application/pdf' || fileExtension === '.pdf') {
-      try {
-        // Extract text from PDF using a Deno-compatible approach (no Node APIs)
-        const arrayBuffer = await file.arrayBuffer();
-        const uint8Array = new Uint8Array(arrayBuffer);
-        
-        // Heuristic text extraction from PDF source
-        let pdfText = '';
-        
-        try {
-          // Decode bytes to a string we can regex over
-          const full = new TextDecoder('utf-8', { fatal: false }).decode(uint8Array);
-
-          // 1) Extract text objects between BT/ET blocks (layout operators removed)
-          const btEtBlocks = full.match(/BT\s*[\s\S]*?\s*ET/g) || [];
-          for (const block of btEtBlocks) {
-            // Pull out strings inside parentheses within this text block
-            const parenMatches = block.match(/\((?:\\.|[^\\()])+\)/g) || [];
-            for (const m of parenMatches) {
-              let t = m.slice(1, -1);
-              // Unescape common PDF escapes
-              t = t
-                .replace(/\\\(/g, '(')
-                .replace(/\\\)/g, ')')
-                .replace(/\\n/g, '\n')
-                .replace(/\\r/g, '\r')
-                .replace(/\\t/g, '\t')
-                .replace(/\\\\/g, '\\');
-              if (/[A-Za-z0-9]/.test(t)) pdfText += t + ' ';
-            }
-
-            // Extract hex strings like <48656C6C6F>
-            const hexMatches = block.match(/<([0-9A-Fa-f\s]+)>/g) || [];
-            for (const hm of hexMatches) {
-              const hex = hm.replace(/[<>\s]/g, '');
-              if (hex.length >= 4 && hex.length % 2 === 0) {
-                let ascii = '';
-                for (let i = 0; i < hex.length; i += 2) {
-                  const code = parseInt(hex.slice(i, i + 2), 16);
-                  // Keep printable ASCII; replace others with space
-                  ascii += (code >= 32 && code <= 126) ? String.fromCharCode(code) : ' ';
-                }
-                if (/[A-Za-z0-9]/.test(ascii)) pdfText += ascii + ' ';
-              }
-            }
-          }
-
-          // 2) Also parse TJ arrays like [(Hello) <0020> (World)] TJ
-          const tjArrays = full.match(/\[((?:\\.|[^\]])+)]\s*TJ/g) || [];
-          for (const arr of tjArrays) {
-            // Pull both () and <> items
-            const parts = arr.match(/\((?:\\.|[^\\()])+\)|<([0-9A-Fa-f\s]+)>/g) || [];
-            for (const p of parts) {
-              if (p.startsWith('(')) {
-                let t = p.slice(1, -1)
-                  .replace(/\\\(/g, '(')
-                  .replace(/\\\)/g, ')')
-                  .replace(/\\n/g, '\n')
-                  .replace(/\\r/g, '\r')
-                  .replace(/\\t/g, '\t')
-                  .replace(/\\\\/g, '\\');
-                if (/[A-Za-z0-9]/.test(t)) pdfText += t + ' ';
-              } else {
-                const hex = p.replace(/[<>\s]/g, '');
-                if (hex.length >= 4 && hex.length % 2 === 0) {
-                  let ascii = '';
-                  for (let i = 0; i < hex.length; i += 2) {
-                    const code = parseInt(hex.slice(i, i + 2), 16);
-                    ascii += (code >= 32 && code <= 126) ? String.fromCharCode(code) : ' ';
-                  }
-                  if (/[A-Za-z0-9]/.test(ascii)) pdfText += ascii + ' ';
-                }
-              }
-            }
-          }
-
-          pdfText = pdfText.replace(/\s+/g, ' ').trim();
-        } catch (parseError) {
-          console.log('Basic PDF text extraction failed:', (parseError as any)?.message || parseError);
-        }
-        
-        if (pdfText && pdfText.length > 50) {
-          extractedText = pdfText;
-          console.log(`Successfully extracted ${extractedText.length} characters from PDF using heuristic parsing`);
-        } else {
-          // Fallback: check if it's likely an image-only PDF
-          const decoder = new TextDecoder();
-          const pdfString = decoder.decode(uint8Array.slice(0, 2000));
-          const textObjectCount = (pdfString.match(/BT|Tj|TJ/g) || []).length;
-          
-          if (textObjectCount === 0) {
-            extractedText = `Please copy and paste your contract text below. This looks like a scanned/image PDF that requires OCR (not yet available).`;
-            notes.push("This appears to be a scanned/image PDF. OCR capability is not yet implemented.");
-          } else {
-            extractedText = `Please copy and paste your contract text below. The PDF contains text but our basic extraction couldn't parse it properly.`;
-            notes.push("PDF contains text but extraction was unsuccessful - please copy/paste manually");
-          }
-        }
-        
-      } catch (error) {
-        console.error('PDF processing error:', error);
-        // Fallback to manual input
-        extractedText = `Please copy and paste your contract text below. PDF text extraction failed.`;
-        notes.push("PDF text extraction failed - please copy and paste the text manually");
-      }
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || fileExtension === '.docx') {
-      try {
-        // Extract text from DOCX using mammoth library
-        const arrayBuffer = await file.arrayBuffer();
-        
-        // Import mammoth dynamically
-        const mammoth = await import('https://esm.sh/mammoth@1.11.0');
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        
-        extractedText = result.value;
-        
-        // Check if text extraction was successful
-        if (!extractedText || extractedText.trim().length < 50) {
-          extractedText = `Please copy and paste your contract text below. DOCX text extraction found very little readable text.`;
-          notes.push("DOCX text extraction found very little readable text");
-        } else {
-          console.log(`Successfully extracted ${extractedText.length} characters from DOCX`);
-        }
-        
-        // Add any messages from mammoth
-        if (result.messages && result.messages.length > 0) {
-          console.log('Mammoth messages:', result.messages);
-        }
-        
-      } catch (error) {
-        console.error('DOCX processing error:', error);
-        // Fallback to manual input
-        extractedText = `Please copy and paste your contract text below. DOCX text extraction failed: ${error.message}`;
-        notes.push("DOCX text extraction failed - please copy and paste the text manually");
-      }
-    }
-
     // Store the file in Supabase storage for future reference
+    // (queued analyses are extracted from the stored copy by the worker)
+    let storagePath: string | null = null;
+    let sha256: string | null = null;
     try {
       const fileBuffer = await file.arrayBuffer();
       const fileName = `${user.id}/${Date.now()}-${file.name}`;
+      sha256 = await fileSha256(fileBuffer);
       
       const { error: uploadError } = await supabase.storage
         .from('contracts')
@@ -307,6 +169,7 @@ serve(async (req) => {
         console.error('Storage upload error:', uploadError);
         // Don't fail the entire request if storage fails
       } else {
+        storagePath = fileName;
         console.log(`File stored: ${fileName}`);
       }
     } catch (storageError) {
@@ -314,21 +177,23 @@ serve(async (req) => {
       // Continue processing even if storage fails
     }
 
-    console.log(`Text extraction complete. Length: ${extractedText.length} characters`);
+    // The stored original, linked to the contract once it's analyzed (null if storing failed)
+    const storedFile = storagePath
+      ? { storage_path: storagePath, file_name: file.name, file_mime: file.type || null, file_size: file.size, file_sha256: sha256 }
+      : null;
 
-    // If analyzeNow is true, call the analyze-contract endpoint
-    // But only if we have meaningful extracted text (not placeholder messages)
-    const isPlaceholder = extractedText.includes('Please copy and paste your contract text below') || 
-                         extractedText.includes('extraction is not yet implemented') ||
-                         extractedText.includes('extraction failed') ||
-                         extractedText.trim().length < 100;
-    
-    if (analyzeNow && extractedText.trim() && !isPlaceholder) {
-      console.log(`Running analysis via analyze-contract endpoint, useAI: ${useAI}`);
-      
+    // Queue an analysis through analyze-contract (same limits and provider rules as pasted text)
+    // and return its job for the client to follow
+    const queueAnalysis = async (payload: Record<string, unknown>, notes: string[]) => {
+      const analyzeRequest = {
+        title: file.name.replace(/\.[^/.]+$/, ""), // Remove file extension for title
+        useAI,
+        aiProvider,
+        version_of: versionOf,
+        organization_id: organizationId,
+        ...payload
+      };
       try {
-        // Call the analyze-contract function
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
         const analyzeResponse = await fetch(`${supabaseUrl}/functions/v1/analyze-contract`, {
           method: 'POST',
           headers: {
@@ -336,16 +201,12 @@ serve(async (req) => {
             'Content-Type': 'application/json',
             'apikey': Deno.env.get('SUPABASE_ANON_KEY')!
           },
-          body: JSON.stringify({
-            title: file.name.replace(/\.[^/.]+$/, ""), // Remove file extension for title
-            source_text: extractedText,
-            useAI
-          })
+          body: JSON.stringify(analyzeRequest)
         });
 
         if (!analyzeResponse.ok) {
           const errorData = await analyzeResponse.json().catch(() => ({ error: 'Unknown error' }));
-          console.error('Analysis failed:', errorData);
+          console.error('Queueing analysis failed:', errorData);
           
           // Return the analysis error directly to the client
           return new Response(
@@ -357,21 +218,57 @@ serve(async (req) => {
           );
         }
 
-        const analysisResult = await analyzeResponse.json();
-        console.log(`Analysis complete via endpoint. Analysis ID: ${analysisResult.analysis_id}`);
+        const job = await analyzeResponse.json();
+
+        // Analyzed before: nothing was queued; the client offers that report, or a re-run
+        // by sending the same request to analyze-contract with rerun: true
+        if (job.duplicate) {
+          console.log(`Duplicate of analysis ${job.duplicate.analysis_id}, nothing queued`);
+          logEvent('upload_end', {
+            req_id,
+            status: 200,
+            duration_ms: Date.now() - startTime
+          });
+          return new Response(
+            JSON.stringify({
+              success: true,
+              analyzed: false,
+              queued: false,
+              fileName: file.name,
+              fileSize: file.size,
+              duplicate: job.duplicate,
+              rerunRequest: analyzeRequest
+            }),
+            {
+              status: 200,
+              headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/json',
+                'x-req-id': req_id
+              }
+            }
+          );
+        }
+
+        console.log(`Analysis queued. Job ID: ${job.job_id}`);
+        logEvent('upload_end', {
+          req_id,
+          status: 202,
+          duration_ms: Date.now() - startTime
+        });
 
-        // Return the analysis result
         return new Response(
           JSON.stringify({
             success: true,
-            analyzed: true,
+            analyzed: false,
+            queued: true,
             fileName: file.name,
             fileSize: file.size,
             notes: notes.length > 0 ? notes : undefined,
-            ...analysisResult
+            ...job
           }),
           { 
-            status: 200, 
+            status: 202, 
             headers: { 
               ...corsHeaders, 
               'Content-Type': 'application/json',
@@ -385,7 +282,7 @@ serve(async (req) => {
         return new Response(
           JSON.stringify({ 
             error: 'Failed to analyze contract',
-            message: 'Text was extracted successfully, but analysis failed. Please try the analyze step manually.'
+            message: 'The file was uploaded, but the analysis could not be started. Please try the analyze step manually.'
           }),
           { 
             status: 500, 
@@ -397,6 +294,26 @@ serve(async (req) => {
           }
         );
       }
+    };
+
+    // Analyze now: the worker extracts and analyzes the stored file in the background
+    if (analyzeNow && storagePath) {
+      console.log(`Queueing analysis of ${storagePath}, useAI: ${useAI}`);
+      return queueAnalysis({ ...storedFile }, []);
+    }
+
+    // Extract text based on file type
+    const { text: extractedText, notes, pages, clauseTree } = await extractText(file);
+
+    console.log(`Text extraction complete. Length: ${extractedText.length} characters`);
+
+    // If analyzeNow is true (and the file could not be stored), queue the extracted text
+    // But only if we have meaningful extracted text (not placeholder messages)
+    const isPlaceholder = isPlaceholderText(extractedText);
+    
+    if (analyzeNow && extractedText.trim() && !isPlaceholder) {
+      console.log(`Queueing analysis of extracted text, useAI: ${useAI}`);
+      return queueAnalysis({ source_text: extractedText }, notes);
     } else if (analyzeNow && isPlaceholder) {
       // Analysis was requested but skipped due to placeholder text
       console.log('Analysis skipped - extracted text appears to be placeholder content');
@@ -435,6 +352,10 @@ serve(async (req) => {
         extractedText,
         fileName: file.name,
         fileSize: file.size,
+        pages,
+        clauseTree,
+        // Sent back with the text to analyze-contract, so the contract links to the original
+        file: storedFile,
         notes: notes.length > 0 ? notes : undefined
       }),
       { 
@@ -0,0 +1,9 @@
+-- Record which rule (and rule pack version) produced each rule-based flag
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS rule_id           TEXT,
+  ADD COLUMN IF NOT EXISTS rule_version      INTEGER,
+  ADD COLUMN IF NOT EXISTS rule_pack         TEXT,
+  ADD COLUMN IF NOT EXISTS rule_pack_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_flags_rule_id
+  ON public.flags (rule_id, rule_pack_version);
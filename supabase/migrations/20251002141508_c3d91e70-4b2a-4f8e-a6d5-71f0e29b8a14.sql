@@ -0,0 +1,4 @@
+-- How each flag's span was located in contracts.source_text
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS span_match TEXT
+  CHECK (span_match IN ('exact', 'fuzzy', 'keyword'));
@@ -0,0 +1,16 @@
+-- Per-user plan, used to pick the default AI provider (see AI_PLAN_PROVIDERS)
+CREATE TABLE IF NOT EXISTS public.profiles (
+  user_id UUID NOT NULL PRIMARY KEY,
+  plan TEXT NOT NULL DEFAULT 'free',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on profiles
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own plan; plans are only changed server-side
+CREATE POLICY "Users can view their own profile" 
+ON public.profiles 
+FOR SELECT 
+USING (auth.uid() = user_id);
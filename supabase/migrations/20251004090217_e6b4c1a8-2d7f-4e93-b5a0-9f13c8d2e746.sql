@@ -0,0 +1,8 @@
+-- Grounding check for AI flags: whether each flag's quoted clause was found in
+-- contracts.source_text (NULL for flags saved before the check existed)
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS verified BOOLEAN;
+
+-- AI flags per analysis whose quote could not be found (NULL when AI did not run)
+ALTER TABLE public.analyses
+  ADD COLUMN IF NOT EXISTS ai_ungrounded_flags INTEGER;
@@ -0,0 +1,46 @@
+-- Background analysis jobs: analyze-contract/upload-extract queue a job, the
+-- analysis-worker function runs it, and clients follow its status
+CREATE TABLE IF NOT EXISTS public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'extracting', 'analyzing', 'done', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  title TEXT,
+  -- Input: pasted text, or an uploaded file in the contracts bucket
+  source_text TEXT,
+  storage_path TEXT,
+  file_name TEXT,
+  file_mime TEXT,
+  use_ai BOOLEAN NOT NULL DEFAULT true,
+  ai_provider TEXT,
+  -- Output
+  contract_id UUID REFERENCES public.contracts(id) ON DELETE SET NULL,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  notes TEXT[],
+  error TEXT,
+  error_code TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  CHECK (source_text IS NOT NULL OR storage_path IS NOT NULL OR status IN ('done', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created
+  ON public.analysis_jobs (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status
+  ON public.analysis_jobs (status, created_at);
+
+-- Enable RLS on analysis_jobs
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can follow their own jobs; jobs are created and updated server-side
+CREATE POLICY "Users can view their own analysis jobs" 
+ON public.analysis_jobs 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Stream status changes to clients subscribed through Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_jobs;
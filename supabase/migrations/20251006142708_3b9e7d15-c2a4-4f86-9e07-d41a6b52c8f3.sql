@@ -0,0 +1,9 @@
+-- Clause tree of contracts extracted from structured files (DOCX): numbered sections,
+-- headings and tables with their offsets in source_text (NULL for pasted text)
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS clause_tree JSONB;
+
+-- Section a flag falls in, e.g. "Section 9.2 — Limitation of Liability"
+-- (NULL when the contract has no clause tree or the flag has no span)
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS section TEXT;
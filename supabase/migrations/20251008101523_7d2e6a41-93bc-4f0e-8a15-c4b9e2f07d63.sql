@@ -0,0 +1,17 @@
+-- Original uploaded file of a contract: its object in the contracts bucket
+-- (<user_id>/<timestamp>-<file name>), MIME type, size and SHA-256 of its bytes.
+-- All NULL for pasted text.
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS storage_path TEXT,
+  ADD COLUMN IF NOT EXISTS mime_type TEXT,
+  ADD COLUMN IF NOT EXISTS size_bytes BIGINT,
+  ADD COLUMN IF NOT EXISTS sha256 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_user_sha256
+  ON public.contracts (user_id, sha256)
+  WHERE sha256 IS NOT NULL;
+
+-- Size and hash of a job's uploaded file, copied to the contract it produces
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS file_size BIGINT,
+  ADD COLUMN IF NOT EXISTS file_sha256 TEXT;
@@ -0,0 +1,13 @@
+-- Duplicate detection: SHA-256 of the normalized contract text (same contract pasted or
+-- re-saved) and a 64-value MinHash signature of its word shingles (near-duplicates)
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS text_hash TEXT,
+  ADD COLUMN IF NOT EXISTS minhash INTEGER[];
+
+CREATE INDEX IF NOT EXISTS idx_contracts_user_text_hash
+  ON public.contracts (user_id, text_hash)
+  WHERE text_hash IS NOT NULL;
+
+-- The user chose to analyze again although an earlier analysis of the same contract exists
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS rerun BOOLEAN NOT NULL DEFAULT false;
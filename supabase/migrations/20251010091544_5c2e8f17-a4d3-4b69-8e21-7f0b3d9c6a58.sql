@@ -0,0 +1,14 @@
+-- Contract versions: revisions of one agreement share a family, named by the id of its
+-- first version (NULL on the first version itself), and are numbered 1, 2, 3...
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES public.contracts(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_family
+  ON public.contracts (family_id, version)
+  WHERE family_id IS NOT NULL;
+
+-- A job that adds a new version to the family of this contract
+-- (a job queued with contract_id already set re-analyzes that existing contract)
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS version_of UUID REFERENCES public.contracts(id) ON DELETE SET NULL;
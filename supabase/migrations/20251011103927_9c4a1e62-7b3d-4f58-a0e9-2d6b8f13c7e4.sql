@@ -0,0 +1,41 @@
+-- Review of flags: what the reviewer decided about each issue
+-- open: not reviewed yet; accepted: risk accepted as is; dismissed: false positive;
+-- negotiating: raised with the counterparty; resolved: fixed in the contract
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'accepted', 'dismissed', 'negotiating', 'resolved')),
+  ADD COLUMN IF NOT EXISTS review_note TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_flags_rule_status ON public.flags(rule_id, status) WHERE rule_id IS NOT NULL;
+
+-- Risk as the analysis found it; overall_risk follows the flags still open after review
+ALTER TABLE public.analyses
+  ADD COLUMN IF NOT EXISTS analyzed_risk TEXT;
+
+UPDATE public.analyses SET analyzed_risk = overall_risk WHERE analyzed_risk IS NULL;
+
+-- How reviewers treated each rule's flags, for rule tuning: rules with a high
+-- dismissal rate produce false positives. Counts only, across all users, so it is
+-- kept from API clients (read it with the service role or from the SQL editor)
+CREATE OR REPLACE VIEW public.rule_review_stats AS
+SELECT
+  rule_id,
+  rule_pack,
+  COUNT(*) AS flagged,
+  COUNT(*) FILTER (WHERE status <> 'open') AS reviewed,
+  COUNT(*) FILTER (WHERE status = 'accepted') AS accepted,
+  COUNT(*) FILTER (WHERE status = 'dismissed') AS dismissed,
+  COUNT(*) FILTER (WHERE status = 'negotiating') AS negotiating,
+  COUNT(*) FILTER (WHERE status = 'resolved') AS resolved,
+  ROUND(
+    COUNT(*) FILTER (WHERE status = 'dismissed')::NUMERIC
+      / NULLIF(COUNT(*) FILTER (WHERE status <> 'open'), 0),
+    3
+  ) AS dismissal_rate
+FROM public.flags
+WHERE rule_id IS NOT NULL
+GROUP BY rule_id, rule_pack;
+
+REVOKE ALL ON public.rule_review_stats FROM anon, authenticated;
@@ -0,0 +1,41 @@
+-- Discussion of an analysis: threads anchored to a flag or to a span of the contract
+-- text; replies point at the thread's first comment and share its anchor
+CREATE TABLE IF NOT EXISTS public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  analysis_id UUID NOT NULL REFERENCES public.analyses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  flag_id UUID REFERENCES public.flags(id) ON DELETE CASCADE,
+  -- Offsets in the contract's source_text, and the text they covered when commented
+  span_start INTEGER,
+  span_end INTEGER,
+  quote TEXT,
+  body TEXT NOT NULL,
+  -- Users @mentioned in the body
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    parent_id IS NOT NULL
+    OR flag_id IS NOT NULL
+    OR (span_start IS NOT NULL AND span_end > span_start)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_analysis ON public.comments(analysis_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_mentions ON public.comments USING GIN (mentions);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments are visible with the analysis; they are added through the analysis-comments
+-- function, which checks anchors and resolves mentions
+CREATE POLICY "Users can view comments on their analyses"
+ON public.comments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.analyses a WHERE a.id = analysis_id AND a.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete their own comments"
+ON public.comments
+FOR DELETE
+USING (auth.uid() = user_id);
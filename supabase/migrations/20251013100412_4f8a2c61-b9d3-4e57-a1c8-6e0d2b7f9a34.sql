@@ -0,0 +1,210 @@
+-- Organizations: shared workspaces whose members see each other's contracts
+-- Roles: owner (manages members), reviewer (analyzes, reviews and comments), viewer (reads)
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'reviewer', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON public.organization_members(user_id);
+
+-- Invitations by email, accepted by whoever signs in with that address
+CREATE TABLE IF NOT EXISTS public.organization_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'reviewer', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, email)
+);
+
+-- Workspace of a contract: NULL for the uploader's personal workspace
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_contracts_organization ON public.contracts(organization_id) WHERE organization_id IS NOT NULL;
+
+-- Workspace the contract of a job is saved to
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+-- Membership checks for the policies below. SECURITY DEFINER so that reading
+-- organization_members from a policy doesn't recurse into its own policies
+CREATE OR REPLACE FUNCTION public.org_role(org UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = org AND user_id = auth.uid()
+$$;
+
+-- The uploader, or a member of the contract's organization (a reviewer or owner to write)
+CREATE OR REPLACE FUNCTION public.can_access_contract(contract UUID, write BOOLEAN DEFAULT false)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contracts c
+    WHERE c.id = contract
+      AND (
+        c.user_id = auth.uid()
+        OR public.org_role(c.organization_id) IN ('owner', 'reviewer')
+        OR (NOT write AND public.org_role(c.organization_id) = 'viewer')
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_analysis(analysis UUID, write BOOLEAN DEFAULT false)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.analyses a
+    WHERE a.id = analysis AND public.can_access_contract(a.contract_id, write)
+  )
+$$;
+
+-- Organizations are created and managed through the organizations function;
+-- members can see their organizations, fellow members, and (owners) pending invites
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+USING (public.org_role(id) IS NOT NULL);
+
+CREATE POLICY "Members can view fellow members"
+ON public.organization_members
+FOR SELECT
+USING (public.org_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Owners and invitees can view invites"
+ON public.organization_invites
+FOR SELECT
+USING (
+  public.org_role(organization_id) = 'owner'
+  OR lower(email) = lower(auth.jwt() ->> 'email')
+);
+
+-- Contracts, analyses, flags and comments: from owner-only to membership
+DROP POLICY IF EXISTS "Users can view their own contracts" ON public.contracts;
+DROP POLICY IF EXISTS "Users can create their own contracts" ON public.contracts;
+DROP POLICY IF EXISTS "Users can update their own contracts" ON public.contracts;
+DROP POLICY IF EXISTS "Users can delete their own contracts" ON public.contracts;
+
+CREATE POLICY "Users can view contracts of their workspaces"
+ON public.contracts
+FOR SELECT
+USING (auth.uid() = user_id OR public.org_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Users can create contracts in their workspaces"
+ON public.contracts
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.org_role(organization_id) IN ('owner', 'reviewer'))
+);
+
+CREATE POLICY "Users can update contracts of their workspaces"
+ON public.contracts
+FOR UPDATE
+USING (public.can_access_contract(id, true));
+
+CREATE POLICY "Uploaders and organization owners can delete contracts"
+ON public.contracts
+FOR DELETE
+USING (auth.uid() = user_id OR public.org_role(organization_id) = 'owner');
+
+DROP POLICY IF EXISTS "Users can view their own analyses" ON public.analyses;
+DROP POLICY IF EXISTS "Users can create their own analyses" ON public.analyses;
+DROP POLICY IF EXISTS "Users can update their own analyses" ON public.analyses;
+DROP POLICY IF EXISTS "Users can delete their own analyses" ON public.analyses;
+
+CREATE POLICY "Users can view analyses of their workspaces"
+ON public.analyses
+FOR SELECT
+USING (public.can_access_contract(contract_id));
+
+CREATE POLICY "Users can create analyses in their workspaces"
+ON public.analyses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_contract(contract_id, true));
+
+CREATE POLICY "Users can update analyses of their workspaces"
+ON public.analyses
+FOR UPDATE
+USING (public.can_access_contract(contract_id, true));
+
+CREATE POLICY "Users can delete their own analyses"
+ON public.analyses
+FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own flags" ON public.flags;
+DROP POLICY IF EXISTS "Users can create their own flags" ON public.flags;
+DROP POLICY IF EXISTS "Users can update their own flags" ON public.flags;
+DROP POLICY IF EXISTS "Users can delete their own flags" ON public.flags;
+
+CREATE POLICY "Users can view flags of their workspaces"
+ON public.flags
+FOR SELECT
+USING (public.can_access_analysis(analysis_id));
+
+CREATE POLICY "Users can create flags in their workspaces"
+ON public.flags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_analysis(analysis_id, true));
+
+-- Reviewers record their review on flags
+CREATE POLICY "Users can update flags of their workspaces"
+ON public.flags
+FOR UPDATE
+USING (public.can_access_analysis(analysis_id, true));
+
+CREATE POLICY "Users can delete their own flags"
+ON public.flags
+FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view comments on their analyses" ON public.comments;
+
+CREATE POLICY "Users can view comments in their workspaces"
+ON public.comments
+FOR SELECT
+USING (public.can_access_analysis(analysis_id));
+
+-- Uploaded files of contracts in the user's organizations (own files are covered above)
+CREATE POLICY "Read team contract files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'contracts'
+  AND auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM public.contracts c
+    WHERE c.storage_path = name
+      AND c.organization_id IS NOT NULL
+      AND public.org_role(c.organization_id) IS NOT NULL
+  )
+);
@@ -0,0 +1,47 @@
+-- Read-only links to a single analysis for people without an account.
+-- The token handed out is signed with the link id and expiry (see the share-links
+-- function); this row is what makes it revocable
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  analysis_id UUID NOT NULL REFERENCES public.analyses(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- What the recipient doesn't get to see
+  hide_suggestions BOOLEAN NOT NULL DEFAULT false,
+  hide_source_text BOOLEAN NOT NULL DEFAULT false,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_analysis ON public.share_links(analysis_id, created_at DESC);
+
+-- Every time a link was opened
+CREATE TABLE IF NOT EXISTS public.share_link_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_link_id UUID NOT NULL REFERENCES public.share_links(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_link_views_link ON public.share_link_views(share_link_id, viewed_at DESC);
+
+-- Links are created, revoked and opened through the share-links and shared-report
+-- functions; anyone who can see the analysis can see its links and when they were opened
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.share_link_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view share links of their analyses"
+ON public.share_links
+FOR SELECT
+USING (public.can_access_analysis(analysis_id));
+
+CREATE POLICY "Users can view opens of their share links"
+ON public.share_link_views
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.share_links l
+    WHERE l.id = share_link_id AND public.can_access_analysis(l.analysis_id)
+  )
+);
@@ -0,0 +1,6 @@
+-- Accepted redline of a flag: the reviewer's rewrite of the clause, which the tracked
+-- changes export puts in place of the clause's text as a Word revision
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS redline TEXT,
+  ADD COLUMN IF NOT EXISTS redline_accepted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS redline_accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
@@ -0,0 +1,44 @@
+-- Deleting the first version of a contract no longer deletes its later versions (and
+-- their analyses, flags and files, which may belong to teammates): the lowest remaining
+-- version becomes the family's first and the others join its family
+ALTER TABLE public.contracts
+  DROP CONSTRAINT IF EXISTS contracts_family_id_fkey,
+  ADD CONSTRAINT contracts_family_id_fkey
+    FOREIGN KEY (family_id) REFERENCES public.contracts(id) ON DELETE SET NULL;
+
+-- SECURITY DEFINER so that the later versions are moved even when the user deleting the
+-- first version can't update them
+CREATE OR REPLACE FUNCTION public.promote_contract_family_root()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_root UUID;
+BEGIN
+  IF OLD.family_id IS NULL THEN
+    SELECT id INTO next_root
+    FROM public.contracts
+    WHERE family_id = OLD.id
+    ORDER BY version
+    LIMIT 1;
+
+    IF next_root IS NOT NULL THEN
+      UPDATE public.contracts SET family_id = NULL WHERE id = next_root;
+      UPDATE public.contracts SET family_id = next_root WHERE family_id = OLD.id;
+    END IF;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_contract_family_root ON public.contracts;
+CREATE TRIGGER promote_contract_family_root
+  BEFORE DELETE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.promote_contract_family_root();
+
+-- Two versions saved at the same time can't both take the next number
+DROP INDEX IF EXISTS public.idx_contracts_family;
+ALTER TABLE public.contracts
+  ADD CONSTRAINT contracts_family_version_key UNIQUE (family_id, version);
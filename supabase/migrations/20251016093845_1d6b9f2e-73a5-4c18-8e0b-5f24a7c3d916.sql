@@ -0,0 +1,27 @@
+-- Rule review statistics per rule version, so dismissal rates from before and after a
+-- rule (or its pack) is tuned are counted apart. Recreated rather than replaced, as the
+-- new columns sit next to the rule they version
+DROP VIEW IF EXISTS public.rule_review_stats;
+
+CREATE VIEW public.rule_review_stats AS
+SELECT
+  rule_id,
+  rule_version,
+  rule_pack,
+  rule_pack_version,
+  COUNT(*) AS flagged,
+  COUNT(*) FILTER (WHERE status <> 'open') AS reviewed,
+  COUNT(*) FILTER (WHERE status = 'accepted') AS accepted,
+  COUNT(*) FILTER (WHERE status = 'dismissed') AS dismissed,
+  COUNT(*) FILTER (WHERE status = 'negotiating') AS negotiating,
+  COUNT(*) FILTER (WHERE status = 'resolved') AS resolved,
+  ROUND(
+    COUNT(*) FILTER (WHERE status = 'dismissed')::NUMERIC
+      / NULLIF(COUNT(*) FILTER (WHERE status <> 'open'), 0),
+    3
+  ) AS dismissal_rate
+FROM public.flags
+WHERE rule_id IS NOT NULL
+GROUP BY rule_id, rule_version, rule_pack, rule_pack_version;
+
+REVOKE ALL ON public.rule_review_stats FROM anon, authenticated;
@@ -0,0 +1,7 @@
+-- Contracts, analyses and flags are only changed through the edge functions (re-analysis,
+-- review-flag, flag-redline...), which check the member's role and keep the review stamp
+-- and the analysis risk in step. Without client UPDATE a reviewer can't move a contract
+-- out of its organization, rewrite its text or set a flag's severity or status directly
+DROP POLICY IF EXISTS "Users can update contracts of their workspaces" ON public.contracts;
+DROP POLICY IF EXISTS "Users can update analyses of their workspaces" ON public.analyses;
+DROP POLICY IF EXISTS "Users can update flags of their workspaces" ON public.flags;
@@ -0,0 +1,112 @@
+-- Rights on a team contract come from organization membership only: its uploader keeps
+-- no owner rights of their own, so one who was demoted to viewer or removed from the
+-- organization can no longer change, share or delete it. The uploader check is left
+-- for personal contracts (no organization)
+CREATE OR REPLACE FUNCTION public.can_access_contract(contract UUID, write BOOLEAN DEFAULT false)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contracts c
+    WHERE c.id = contract
+      AND (
+        (c.organization_id IS NULL AND c.user_id = auth.uid())
+        OR public.org_role(c.organization_id) IN ('owner', 'reviewer')
+        OR (NOT write AND public.org_role(c.organization_id) = 'viewer')
+      )
+  )
+$$;
+
+DROP POLICY IF EXISTS "Users can view contracts of their workspaces" ON public.contracts;
+DROP POLICY IF EXISTS "Uploaders and organization owners can delete contracts" ON public.contracts;
+
+CREATE POLICY "Users can view contracts of their workspaces"
+ON public.contracts
+FOR SELECT
+USING (
+  (organization_id IS NULL AND auth.uid() = user_id)
+  OR public.org_role(organization_id) IS NOT NULL
+);
+
+CREATE POLICY "Uploaders and organization owners can delete contracts"
+ON public.contracts
+FOR DELETE
+USING (
+  (organization_id IS NULL AND auth.uid() = user_id)
+  OR public.org_role(organization_id) = 'owner'
+);
+
+-- Analyses and flags someone created on a team contract: deleting them takes a reviewer
+-- or owner role there too
+DROP POLICY IF EXISTS "Users can delete their own analyses" ON public.analyses;
+DROP POLICY IF EXISTS "Users can delete their own flags" ON public.flags;
+
+CREATE POLICY "Users can delete their own analyses"
+ON public.analyses
+FOR DELETE
+USING (auth.uid() = user_id AND public.can_access_contract(contract_id, true));
+
+CREATE POLICY "Users can delete their own flags"
+ON public.flags
+FOR DELETE
+USING (auth.uid() = user_id AND public.can_access_analysis(analysis_id, true));
+
+-- Files are uploaded to the uploader's folder, which they could read, replace and delete
+-- even once the contract is in an organization. SECURITY DEFINER so that the check sees
+-- team contracts the user no longer has access to
+CREATE OR REPLACE FUNCTION public.is_team_contract_file(path TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contracts
+    WHERE storage_path = path AND organization_id IS NOT NULL
+  )
+$$;
+
+DROP POLICY IF EXISTS "Read own contract files" ON storage.objects;
+DROP POLICY IF EXISTS "Update own contract files" ON storage.objects;
+DROP POLICY IF EXISTS "Delete own contract files" ON storage.objects;
+
+-- Team files are read through "Read team contract files", by membership
+CREATE POLICY "Read own contract files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'contracts'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND NOT public.is_team_contract_file(name)
+);
+
+CREATE POLICY "Update own contract files"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'contracts'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND NOT public.is_team_contract_file(name)
+)
+WITH CHECK (
+  bucket_id = 'contracts'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND NOT public.is_team_contract_file(name)
+);
+
+CREATE POLICY "Delete own contract files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'contracts'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND NOT public.is_team_contract_file(name)
+);
@@ -0,0 +1,43 @@
+-- Deleting a comment no longer takes other people's comments with it. The first comment
+-- of a thread others replied to is blanked and marked deleted instead, so the replies
+-- keep their thread; and comments of a deleted account stay, without an author
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.comments
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS comments_user_id_fkey,
+  ADD CONSTRAINT comments_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- SECURITY DEFINER so that the comment is blanked even though users can't update comments.
+-- When the analysis or flag is being deleted the whole thread goes, as before
+CREATE OR REPLACE FUNCTION public.keep_replied_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.parent_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.analyses WHERE id = OLD.analysis_id)
+    AND (OLD.flag_id IS NULL OR EXISTS (SELECT 1 FROM public.flags WHERE id = OLD.flag_id))
+    AND EXISTS (
+      SELECT 1 FROM public.comments
+      WHERE parent_id = OLD.id AND user_id IS DISTINCT FROM OLD.user_id
+    )
+  THEN
+    UPDATE public.comments
+    SET body = '', mentions = '{}', deleted_at = now()
+    WHERE id = OLD.id;
+    RETURN NULL;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_replied_comment_thread ON public.comments;
+CREATE TRIGGER keep_replied_comment_thread
+BEFORE DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_replied_comment_thread();